@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ChannelVisibility" AS ENUM ('PUBLIC', 'PRIVATE', 'ROLE_RESTRICTED');
+
+-- CreateTable
+CREATE TABLE "Channel" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "visibility" "ChannelVisibility" NOT NULL DEFAULT 'PUBLIC',
+    "allowedRoles" "Role"[],
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "archivedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Channel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Channel_slug_key" ON "Channel"("slug");
+
+-- Seed the channels that previously existed as enum values
+INSERT INTO "Channel" ("id", "slug", "name", "visibility", "allowedRoles", "createdById", "updatedAt")
+VALUES
+    ('general', 'general', 'General', 'PUBLIC', ARRAY[]::"Role"[], 'system', CURRENT_TIMESTAMP),
+    ('support', 'support', 'Support', 'ROLE_RESTRICTED', ARRAY['ADMIN']::"Role"[], 'system', CURRENT_TIMESTAMP);
+
+-- AlterTable (keep existing rows by casting the enum values to text)
+ALTER TABLE "Message" ALTER COLUMN "channelKey" SET DATA TYPE TEXT USING "channelKey"::TEXT;
+
+-- DropEnum
+DROP TYPE "ChannelKey";
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_channelKey_fkey" FOREIGN KEY ("channelKey") REFERENCES "Channel"("slug") ON DELETE RESTRICT ON UPDATE CASCADE;
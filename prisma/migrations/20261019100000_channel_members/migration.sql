@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ChannelMemberRole" AS ENUM ('OWNER', 'MODERATOR', 'MEMBER');
+
+-- CreateTable
+CREATE TABLE "ChannelMember" (
+    "id" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "ChannelMemberRole" NOT NULL DEFAULT 'MEMBER',
+    "addedById" TEXT,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChannelMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChannelMember_userId_idx" ON "ChannelMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChannelMember_channelId_userId_key" ON "ChannelMember"("channelId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ChannelMember" ADD CONSTRAINT "ChannelMember_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "Channel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: creators of existing channels become their owners
+INSERT INTO "ChannelMember" ("id", "channelId", "userId", "role")
+SELECT gen_random_uuid()::TEXT, "id", "createdById", 'OWNER'
+FROM "Channel"
+WHERE "createdById" <> 'system';
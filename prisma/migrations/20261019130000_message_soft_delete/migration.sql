@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedById" TEXT,
+ADD COLUMN     "deletionReason" TEXT;
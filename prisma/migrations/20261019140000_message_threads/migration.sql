@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "lastReplyAt" TIMESTAMP(3),
+ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "replyCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Message_parentId_createdAt_idx" ON "Message"("parentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
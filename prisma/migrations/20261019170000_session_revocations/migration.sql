@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "SessionRevocation" (
+    "userId" TEXT NOT NULL,
+    "revokedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedById" TEXT NOT NULL,
+
+    CONSTRAINT "SessionRevocation_pkey" PRIMARY KEY ("userId")
+);
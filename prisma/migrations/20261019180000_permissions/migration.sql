@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'MODERATOR';
+
+-- AlterTable
+ALTER TABLE "Channel" ADD COLUMN     "permissionOverrides" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "SanctionType" AS ENUM ('MUTE', 'BAN');
+
+-- AlterTable
+ALTER TABLE "Channel" ADD COLUMN     "slowModeSeconds" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ChannelSanction" (
+    "id" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "SanctionType" NOT NULL,
+    "reason" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "liftedAt" TIMESTAMP(3),
+    "liftedById" TEXT,
+
+    CONSTRAINT "ChannelSanction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChannelSanction_channelId_userId_type_idx" ON "ChannelSanction"("channelId", "userId", "type");
+
+-- AddForeignKey
+ALTER TABLE "ChannelSanction" ADD CONSTRAINT "ChannelSanction_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "Channel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Channel" ADD COLUMN     "maxMessageLength" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "links" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "mentions" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ReportStatus" AS ENUM ('OPEN', 'DISMISSED', 'RESOLVED');
+
+-- CreateEnum
+CREATE TYPE "ReportAction" AS ENUM ('DISMISS', 'DELETE_MESSAGE', 'MUTE_AUTHOR');
+
+-- CreateTable
+CREATE TABLE "Report" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "channelKey" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "ReportStatus" NOT NULL DEFAULT 'OPEN',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "action" "ReportAction",
+    "resolutionNote" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+
+    CONSTRAINT "Report_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Report_status_createdAt_idx" ON "Report"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Report_channelKey_status_createdAt_idx" ON "Report"("channelKey", "status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Report_messageId_reporterId_key" ON "Report"("messageId", "reporterId");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- CreateIndex
+-- Full-text index on the message content (queried by the search endpoint)
+CREATE INDEX "Message_content_search_idx" ON "Message" USING GIN (to_tsvector('simple', "content"));
@@ -3,8 +3,33 @@ import { PrismaModule } from './prisma/prisma.module';
 import { MessagesModule } from './messages/messages.module';
 import { RealtimeModule } from './realtime/realtime.module';
 import { AuthModule } from './auth/auth.module';
+import { ChannelsModule } from './channels/channels.module';
+import { EventsModule } from './events/events.module';
+import { DirectMessagesModule } from './direct-messages/direct-messages.module';
+import { ReadReceiptsModule } from './read-receipts/read-receipts.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
+import { ReportsModule } from './reports/reports.module';
+import { AuditModule } from './audit/audit.module';
+import { AttachmentsModule } from './attachments/attachments.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
 
 @Module({
-  imports: [PrismaModule, MessagesModule, RealtimeModule, AuthModule],
+  imports: [
+    PrismaModule,
+    EventsModule,
+    RateLimitModule,
+    AuditModule,
+    AttachmentsModule,
+    ChannelsModule,
+    MessagesModule,
+    DirectMessagesModule,
+    ReadReceiptsModule,
+    NotificationsModule,
+    ReportsModule,
+    WebhooksModule,
+    RealtimeModule,
+    AuthModule,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,243 @@
+import { createReadStream } from 'node:fs';
+import { mkdir, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+import { Readable } from 'node:stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+//Supported attachment storage backends.
+export type AttachmentStorageKind = 'local' | 's3';
+
+/**
+ * Storage of uploaded files and their thumbnails.
+ *
+ * Keys are generated by `AttachmentsService` and never contain user input.
+ */
+export interface AttachmentStorage {
+  /**
+   * Stores a file.
+   *
+   * @param key Storage key
+   * @param data File content
+   * @param contentType MIME type of the file
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Reads a file.
+   *
+   * @param key Storage key
+   * @returns File content, or null if the file does not exist
+   */
+  read(key: string): Promise<Readable | null>;
+
+  /**
+   * Removes a file. Removing a missing file succeeds.
+   *
+   * @param key Storage key
+   */
+  remove(key: string): Promise<void>;
+
+  /**
+   * Creates a time-limited download URL served by the storage itself.
+   *
+   * @param key Storage key
+   * @param expiresInSeconds Lifetime of the URL
+   * @param file File name and MIME type sent with the download
+   * @returns The URL, or null if downloads are served by the API
+   */
+  signedUrl(
+    key: string,
+    expiresInSeconds: number,
+    file: { fileName: string; mimeType: string },
+  ): Promise<string | null>;
+}
+
+/**
+ * Reads the configured storage backend from `ATTACHMENT_STORAGE`.
+ *
+ * @param value Raw configuration value
+ * @returns The storage backend, `local` if not configured
+ */
+export function resolveStorageKind(value?: string): AttachmentStorageKind {
+  const kind = (value ?? '').trim().toLowerCase() || 'local';
+  if (kind === 'local' || kind === 's3') return kind;
+  throw new Error(`Unsupported ATTACHMENT_STORAGE: ${value}`);
+}
+
+/**
+ * Builds a `Content-Disposition` header value for a download.
+ *
+ * Images are shown inline, other files are downloaded.
+ *
+ * @param file File name and MIME type
+ * @returns Header value
+ */
+export function contentDisposition(file: {
+  fileName: string;
+  mimeType: string;
+}): string {
+  const type = file.mimeType.startsWith('image/') ? 'inline' : 'attachment';
+  const fallback = file.fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`;
+}
+
+/**
+ * Storage keeping files in a directory of the local filesystem.
+ *
+ * Reads the directory from `ATTACHMENT_STORAGE_DIR` (default `./uploads`).
+ * Downloads are served by the API through signed links. Files are only
+ * visible to the instance owning the directory, so multiple instances
+ * need a shared volume or the S3 backend.
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  /**
+   * Absolute path of the storage directory.
+   */
+  private readonly root: string;
+
+  /**
+   * Creates a new LocalAttachmentStorage.
+   *
+   * @param dir Storage directory
+   */
+  constructor(dir = process.env.ATTACHMENT_STORAGE_DIR || './uploads') {
+    this.root = resolve(dir);
+  }
+
+  async put(key: string, data: Buffer) {
+    const path = this.path(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async read(key: string) {
+    const path = this.path(key);
+    try {
+      await stat(path);
+    } catch {
+      return null;
+    }
+    return createReadStream(path);
+  }
+
+  async remove(key: string) {
+    await rm(this.path(key), { force: true });
+  }
+
+  signedUrl() {
+    return Promise.resolve(null);
+  }
+
+  /**
+   * Resolves the path of a key inside the storage directory.
+   *
+   * @param key Storage key
+   * @returns Absolute file path
+   */
+  private path(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
+
+/**
+ * Storage keeping files in an S3-compatible object store.
+ *
+ * Reads the bucket from `ATTACHMENT_S3_BUCKET`, the region from
+ * `ATTACHMENT_S3_REGION` (default `us-east-1`) and, for S3-compatible
+ * services, the endpoint from `ATTACHMENT_S3_ENDPOINT`. Credentials come
+ * from `ATTACHMENT_S3_ACCESS_KEY_ID` / `ATTACHMENT_S3_SECRET_ACCESS_KEY`
+ * or the default AWS credential chain. Downloads use presigned URLs.
+ */
+export class S3AttachmentStorage implements AttachmentStorage {
+  /**
+   * Creates a new S3AttachmentStorage.
+   *
+   * @param client S3 client
+   * @param bucket Bucket holding the files
+   */
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string,
+  ) {}
+
+  /**
+   * Creates a storage from the environment.
+   *
+   * @returns Configured storage
+   */
+  static fromEnv(): S3AttachmentStorage {
+    const bucket = process.env.ATTACHMENT_S3_BUCKET;
+    if (!bucket) throw new Error('ATTACHMENT_S3_BUCKET is not set');
+
+    const accessKeyId = process.env.ATTACHMENT_S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.ATTACHMENT_S3_SECRET_ACCESS_KEY;
+    const endpoint = process.env.ATTACHMENT_S3_ENDPOINT;
+
+    const client = new S3Client({
+      region: process.env.ATTACHMENT_S3_REGION || 'us-east-1',
+      ...(endpoint ? { endpoint, forcePathStyle: true } : {}),
+      ...(accessKeyId && secretAccessKey
+        ? { credentials: { accessKeyId, secretAccessKey } }
+        : {}),
+    });
+
+    return new S3AttachmentStorage(client, bucket);
+  }
+
+  async put(key: string, data: Buffer, contentType: string) {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+      }),
+    );
+  }
+
+  async read(key: string) {
+    try {
+      const { Body } = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      if (!Body) return null;
+      return Readable.from(Buffer.from(await Body.transformToByteArray()));
+    } catch (e) {
+      if ((e as { name?: string }).name === 'NoSuchKey') return null;
+      throw e;
+    }
+  }
+
+  async remove(key: string) {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  async signedUrl(
+    key: string,
+    expiresInSeconds: number,
+    file: { fileName: string; mimeType: string },
+  ) {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ResponseContentType: file.mimeType,
+        ResponseContentDisposition: contentDisposition(file),
+      }),
+      { expiresIn: expiresInSeconds },
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AttachmentsController } from './attachments.controller';
+import { AttachmentsService } from './attachments.service';
+import { AuthService } from '../auth/auth.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+describe('AttachmentsController', () => {
+  let controller: AttachmentsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AttachmentsController],
+      providers: [
+        { provide: AttachmentsService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<AttachmentsController>(AttachmentsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
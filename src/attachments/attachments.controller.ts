@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Res,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import {
+  AttachmentsService,
+  getAttachmentMaxBytes,
+} from './attachments.service';
+import type { UploadedAttachment } from './attachments.service';
+import { contentDisposition } from './attachment.storage';
+import { DownloadAttachmentQueryDto } from './dto/download-attachment.query';
+import type { RequestUser } from '../auth/request-user';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+
+/**
+ * HTTP controller for message attachments.
+ *
+ * Uploads and link requests are authenticated by `JwtAuthGuard`. Downloads
+ * through `/attachments/:id/content` are authenticated by the signature of
+ * the link instead, so links can be used directly (e.g. as image source).
+ */
+@Controller('attachments')
+export class AttachmentsController {
+  /**
+   * Creates a new AttachmentsController.
+   *
+   * @param attachments Attachments service providing storage and links
+   */
+  constructor(private readonly attachments: AttachmentsService) {}
+
+  /**
+   * Uploads a file (multipart field `file`).
+   *
+   * The returned id can be sent with `message.send` to attach the file.
+   *
+   * @param file Uploaded file
+   * @param user Authenticated user
+   * @returns The stored attachment
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, RateLimitGuard)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: getAttachmentMaxBytes(), files: 1 },
+    }),
+  )
+  async upload(
+    @UploadedFile() file: UploadedAttachment | undefined,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.attachments.upload(user, file);
+  }
+
+  /**
+   * Creates signed download links for an attachment.
+   *
+   * Requires `message.read` in the channel of the message the file is
+   * attached to.
+   *
+   * @param id Attachment identifier
+   * @param user Authenticated user
+   * @returns Links to the file and its thumbnail and their expiry
+   */
+  @Get(':id')
+  @UseGuards(JwtAuthGuard, RateLimitGuard)
+  async links(@Param('id') id: string, @CurrentUser() user: RequestUser) {
+    return this.attachments.createLinks(id, user);
+  }
+
+  /**
+   * Downloads a file through a signed link.
+   *
+   * @param id Attachment identifier
+   * @param q Variant, expiry and signature of the link
+   * @param res Response receiving the file headers
+   * @returns Streamed file
+   */
+  @Get(':id/content')
+  async content(
+    @Param('id') id: string,
+    @Query() q: DownloadAttachmentQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const file = await this.attachments.open(id, q);
+
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Content-Disposition', contentDisposition(file));
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+
+    return new StreamableFile(file.stream);
+  }
+}
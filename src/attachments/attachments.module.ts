@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AttachmentsService } from './attachments.service';
+import { AttachmentsController } from './attachments.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule, PermissionsModule],
+  controllers: [AttachmentsController],
+  providers: [AttachmentsService],
+  exports: [AttachmentsService],
+})
+export class AttachmentsModule {}
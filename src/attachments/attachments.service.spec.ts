@@ -0,0 +1,246 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import sharp from 'sharp';
+import { AttachmentsService } from './attachments.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from '../permissions/permissions.service';
+
+describe('AttachmentsService', () => {
+  let dir: string;
+  let prisma: {
+    attachment: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      updateMany: jest.Mock;
+      deleteMany: jest.Mock;
+    };
+  };
+  let permissions: { assert: jest.Mock };
+  let service: AttachmentsService;
+
+  const user = { id: 'u1', role: 'USER' as const };
+
+  /** Reads a stream into a buffer. */
+  const collect = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  };
+
+  /** Builds an uploaded file. */
+  const file = (buffer: Buffer, mimetype: string, originalname = 'a.png') => ({
+    originalname,
+    mimetype,
+    size: buffer.length,
+    buffer,
+  });
+
+  /** Extracts the query of a link served by the API. */
+  const query = (url: string) =>
+    Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+
+  let png: Buffer;
+
+  beforeAll(async () => {
+    png = await sharp({
+      create: {
+        width: 640,
+        height: 480,
+        channels: 3,
+        background: { r: 255, g: 0, b: 0 },
+      },
+    })
+      .png()
+      .toBuffer();
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'attachments-'));
+    process.env.ATTACHMENT_STORAGE_DIR = dir;
+
+    prisma = {
+      attachment: {
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'a1', ...data }),
+        ),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        updateMany: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+    };
+    permissions = { assert: jest.fn() };
+
+    service = new AttachmentsService(
+      prisma as unknown as PrismaService,
+      permissions as unknown as PermissionsService,
+    );
+    service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    service.onModuleDestroy();
+    delete process.env.ATTACHMENT_STORAGE_DIR;
+    delete process.env.ATTACHMENT_MAX_BYTES;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /** Returns the stored record of the last upload. */
+  const stored = () =>
+    (prisma.attachment.create.mock.calls.at(-1) as [{ data: object }])[0]
+      .data as {
+      fileName: string;
+      storageKey: string;
+      thumbnailKey: string | null;
+      width: number | null;
+      height: number | null;
+    };
+
+  it('stores images with their dimensions and a thumbnail', async () => {
+    await service.upload(user, file(png, 'image/png'));
+
+    const data = stored();
+    expect(data).toMatchObject({ width: 640, height: 480 });
+    expect((await readdir(dir)).sort()).toEqual(
+      [data.storageKey, data.thumbnailKey].sort(),
+    );
+
+    const thumbnail = await sharp(join(dir, data.thumbnailKey!)).metadata();
+    expect(thumbnail).toMatchObject({ format: 'webp', width: 320 });
+  });
+
+  it('strips paths and control characters from file names', async () => {
+    await service.upload(
+      user,
+      file(Buffer.from('hi'), 'text/plain', '../../etc/no\u0007te\u007f.txt'),
+    );
+
+    expect(stored()).toMatchObject({ fileName: 'note.txt' });
+  });
+
+  it('rejects oversized files and unsupported types', async () => {
+    process.env.ATTACHMENT_MAX_BYTES = '10';
+
+    await expect(
+      service.upload(user, file(png, 'image/png')),
+    ).rejects.toBeInstanceOf(PayloadTooLargeException);
+
+    delete process.env.ATTACHMENT_MAX_BYTES;
+    await expect(
+      service.upload(user, file(Buffer.from('MZ'), 'application/x-msdownload')),
+    ).rejects.toBeInstanceOf(UnsupportedMediaTypeException);
+    await expect(
+      service.upload(user, file(Buffer.from('not a png'), 'image/png')),
+    ).rejects.toBeInstanceOf(UnsupportedMediaTypeException);
+    expect(prisma.attachment.create).not.toHaveBeenCalled();
+  });
+
+  it('serves files through signed links after checking access', async () => {
+    await service.upload(user, file(Buffer.from('hello'), 'text/plain'));
+    const { storageKey } = stored();
+    prisma.attachment.findUnique.mockResolvedValue({
+      id: 'a1',
+      fileName: 'notes.txt',
+      mimeType: 'text/plain',
+      uploaderId: 'u2',
+      storageKey,
+      thumbnailKey: null,
+      message: { channelKey: 'general', deletedAt: null },
+    });
+
+    const links = await service.createLinks('a1', user);
+
+    expect(permissions.assert).toHaveBeenCalledWith(
+      user,
+      'message.read',
+      'general',
+    );
+    expect(links.thumbnailUrl).toBeNull();
+
+    const opened = await service.open('a1', query(links.url));
+    expect(opened.mimeType).toBe('text/plain');
+    await expect(collect(opened.stream)).resolves.toEqual(Buffer.from('hello'));
+  });
+
+  it('hides uploads not attached yet from other users', async () => {
+    prisma.attachment.findUnique.mockResolvedValue({
+      id: 'a1',
+      uploaderId: 'u2',
+      message: null,
+    });
+
+    await expect(service.createLinks('a1', user)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('rejects tampered and expired links', async () => {
+    const expires = String(Math.floor(Date.now() / 1000) + 60);
+
+    await expect(
+      service.open('a1', { expires, signature: 'forged' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      service.open('a1', { expires: '1', signature: 'forged' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(prisma.attachment.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('claims only unattached uploads of the author', async () => {
+    const tx = { attachment: { updateMany: jest.fn() } };
+    tx.attachment.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      service.claim(tx as never, {
+        messageId: 'm1',
+        uploaderId: 'u1',
+        ids: ['a1', 'a2'],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(tx.attachment.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: ['a1', 'a2'] },
+        uploaderId: 'u1',
+        messageId: null,
+        createdAt: { gt: expect.any(Date) as unknown },
+      },
+      data: { messageId: 'm1' },
+    });
+  });
+
+  it('removes expired uploads unless claimed meanwhile', async () => {
+    await service.upload(user, file(png, 'image/png'));
+    const expired = { id: 'a1', ...stored() };
+    await service.upload(user, file(Buffer.from('hi'), 'text/plain'));
+    const claimed = { id: 'a2', ...stored() };
+    prisma.attachment.findMany.mockResolvedValue([expired, claimed]);
+    prisma.attachment.deleteMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await expect(service.removeExpired()).resolves.toBe(1);
+
+    expect(prisma.attachment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          messageId: null,
+          createdAt: { lte: expect.any(Date) as unknown },
+        },
+      }) as unknown,
+    );
+    expect(prisma.attachment.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'a1', messageId: null },
+    });
+    expect(await readdir(dir)).toEqual([claimed.storageKey]);
+  });
+});
@@ -0,0 +1,638 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  createHmac,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from 'node:crypto';
+import { basename } from 'node:path';
+import { Readable } from 'node:stream';
+import sharp from 'sharp';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import {
+  AttachmentStorage,
+  LocalAttachmentStorage,
+  resolveStorageKind,
+  S3AttachmentStorage,
+} from './attachment.storage';
+
+//Allowed user roles within the attachments domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//User descriptor used for access decisions.
+type AttachmentUser = { id: string; role: Role };
+
+//Uploaded file as received by the upload endpoint.
+export type UploadedAttachment = {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+};
+
+//Downloadable representation of an attachment.
+export type AttachmentVariant = 'original' | 'thumbnail';
+
+//Default largest upload (10 MB).
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+//Default accepted MIME types.
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+];
+
+//Image formats verified by decoding and thumbnailed, by MIME type.
+const IMAGE_FORMATS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+//Default lifetime of download links (5 minutes).
+const DEFAULT_URL_TTL_SECONDS = 5 * 60;
+
+//Default bounding box of thumbnails (pixels).
+const DEFAULT_THUMBNAIL_SIZE = 320;
+
+//Largest number of attachments per message.
+const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+//Default time an upload can be attached to a message (24 hours).
+const DEFAULT_UPLOAD_TTL_SECONDS = 24 * 60 * 60;
+
+//Default interval in which expired uploads are removed (1 hour).
+const DEFAULT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+//Number of expired uploads removed per batch.
+const CLEANUP_BATCH_SIZE = 100;
+
+//Fields of an attachment exposed to clients.
+export const ATTACHMENT_SELECT = {
+  id: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  width: true,
+  height: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Reads a positive integer from the environment.
+ *
+ * @param name Variable name
+ * @param fallback Default for unset or invalid values
+ * @returns The configured value
+ */
+function readPositiveInt(name: string, fallback: number): number {
+  const raw = Number(process.env[name]);
+  return Number.isInteger(raw) && raw > 0 ? raw : fallback;
+}
+
+/**
+ * Returns the largest accepted upload in bytes (`ATTACHMENT_MAX_BYTES`).
+ *
+ * @returns Size limit
+ */
+export function getAttachmentMaxBytes(): number {
+  return readPositiveInt('ATTACHMENT_MAX_BYTES', DEFAULT_MAX_BYTES);
+}
+
+/**
+ * Service responsible for message attachments.
+ *
+ * Users upload files first and attach them to a message when sending it.
+ * Uploads are limited in size and MIME type; images are verified by
+ * decoding them and get a thumbnail. Files live in the storage selected by
+ * `ATTACHMENT_STORAGE` (`local` or `s3`). Downloads use time-limited
+ * signed links handed out after checking `message.read` in the channel of
+ * the message (uploads not attached yet are only visible to the uploader).
+ * Uploads not attached within `ATTACHMENT_UPLOAD_TTL_SECONDS` expire and
+ * are removed from the database and the storage by a periodic cleanup.
+ */
+@Injectable()
+export class AttachmentsService implements OnModuleInit, OnModuleDestroy {
+  /**
+   * Logger of the attachments service.
+   */
+  private readonly logger = new Logger(AttachmentsService.name);
+
+  /**
+   * Storage holding files and thumbnails.
+   */
+  private storage: AttachmentStorage = new LocalAttachmentStorage();
+
+  /**
+   * Secret signing download links served by the API.
+   */
+  private urlSecret: Buffer = randomBytes(32);
+
+  /**
+   * Timer removing expired uploads.
+   */
+  private cleaner?: NodeJS.Timeout;
+
+  /**
+   * Creates a new AttachmentsService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param permissions Service resolving `message.read` in channels
+   */
+  constructor(
+    private prisma: PrismaService,
+    private permissions: PermissionsService,
+  ) {}
+
+  /**
+   * Selects the configured storage and link signing secret and starts the
+   * cleanup of expired uploads.
+   */
+  onModuleInit() {
+    const kind = resolveStorageKind(process.env.ATTACHMENT_STORAGE);
+    if (kind === 's3') this.storage = S3AttachmentStorage.fromEnv();
+
+    const secret = process.env.ATTACHMENT_URL_SECRET;
+    if (secret) {
+      this.urlSecret = Buffer.from(secret);
+    } else if (kind === 'local') {
+      this.logger.warn(
+        'ATTACHMENT_URL_SECRET is not set, download links only work on this instance until it restarts',
+      );
+    }
+
+    this.logger.log(`Using ${kind} attachment storage`);
+
+    const interval = readPositiveInt(
+      'ATTACHMENT_CLEANUP_INTERVAL_MS',
+      DEFAULT_CLEANUP_INTERVAL_MS,
+    );
+    this.cleaner = setInterval(() => void this.removeExpired(), interval);
+    this.cleaner.unref();
+  }
+
+  /**
+   * Stops the cleanup of expired uploads.
+   */
+  onModuleDestroy() {
+    if (this.cleaner) clearInterval(this.cleaner);
+  }
+
+  /**
+   * Stores an uploaded file.
+   *
+   * Throws a PayloadTooLargeException for files above the size limit and
+   * an UnsupportedMediaTypeException for types outside the allowlist or
+   * images that cannot be decoded as their declared type.
+   *
+   * @param uploader Uploading user
+   * @param file Uploaded file
+   * @returns The stored attachment
+   */
+  async upload(uploader: AttachmentUser, file?: UploadedAttachment) {
+    if (!file?.buffer) throw new BadRequestException('Missing file');
+    if (file.size === 0) throw new BadRequestException('Empty file');
+
+    const maxBytes = getAttachmentMaxBytes();
+    if (file.size > maxBytes) {
+      throw new PayloadTooLargeException(`File exceeds ${maxBytes} bytes`);
+    }
+
+    const mimeType = (file.mimetype ?? '').toLowerCase();
+    if (!this.isAllowedType(mimeType)) {
+      throw new UnsupportedMediaTypeException('Unsupported file type');
+    }
+
+    // Verify images and render their thumbnail
+    const image = IMAGE_FORMATS[mimeType]
+      ? await this.processImage(file.buffer, IMAGE_FORMATS[mimeType])
+      : null;
+
+    const storageKey = randomUUID();
+    const thumbnailKey = image ? `${storageKey}.thumbnail.webp` : null;
+
+    await this.storage.put(storageKey, file.buffer, mimeType);
+    if (image && thumbnailKey) {
+      await this.storage.put(thumbnailKey, image.thumbnail, 'image/webp');
+    }
+
+    try {
+      return await this.prisma.attachment.create({
+        data: {
+          uploaderId: uploader.id,
+          fileName: this.sanitizeFileName(file.originalname),
+          mimeType,
+          size: file.size,
+          storageKey,
+          thumbnailKey,
+          width: image?.width ?? null,
+          height: image?.height ?? null,
+        },
+        select: ATTACHMENT_SELECT,
+      });
+    } catch (e) {
+      // Do not keep files without record
+      await this.storage.remove(storageKey);
+      if (thumbnailKey) await this.storage.remove(thumbnailKey);
+      throw e;
+    }
+  }
+
+  /**
+   * Validates the attachment ids of a message before it is stored.
+   *
+   * @param ids Attachment ids sent with the message
+   * @returns Unique attachment ids
+   */
+  normalizeIds(ids: unknown): string[] {
+    if (ids === undefined || ids === null) return [];
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string')) {
+      throw new BadRequestException('Invalid attachments');
+    }
+
+    const unique = [...new Set(ids as string[])];
+    if (unique.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new BadRequestException(
+        `At most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments per message`,
+      );
+    }
+    return unique;
+  }
+
+  /**
+   * Attaches uploads to a newly created message.
+   *
+   * Runs inside the transaction creating the message. Only unexpired
+   * uploads of the author that are not attached yet can be claimed;
+   * otherwise a BadRequestException rolls the message back.
+   *
+   * @param tx Transaction client
+   * @param input Message, author and attachment ids
+   */
+  async claim(
+    tx: Prisma.TransactionClient,
+    input: { messageId: string; uploaderId: string; ids: string[] },
+  ) {
+    if (input.ids.length === 0) return;
+
+    const { count } = await tx.attachment.updateMany({
+      where: {
+        id: { in: input.ids },
+        uploaderId: input.uploaderId,
+        messageId: null,
+        createdAt: { gt: this.getUploadExpiry() },
+      },
+      data: { messageId: input.messageId },
+    });
+    if (count !== input.ids.length) {
+      throw new BadRequestException('Invalid attachments');
+    }
+  }
+
+  /**
+   * Removes uploads that were not attached to a message in time, together
+   * with their files.
+   *
+   * Records are deleted before their files, and only while still
+   * unattached, so uploads claimed concurrently are kept.
+   *
+   * @returns Number of removed uploads
+   */
+  async removeExpired(): Promise<number> {
+    let removed = 0;
+
+    try {
+      for (;;) {
+        const expired = await this.prisma.attachment.findMany({
+          where: {
+            messageId: null,
+            createdAt: { lte: this.getUploadExpiry() },
+          },
+          orderBy: { createdAt: 'asc' },
+          take: CLEANUP_BATCH_SIZE,
+          select: { id: true, storageKey: true, thumbnailKey: true },
+        });
+
+        for (const upload of expired) {
+          const { count } = await this.prisma.attachment.deleteMany({
+            where: { id: upload.id, messageId: null },
+          });
+          if (count === 0) continue;
+
+          await this.storage.remove(upload.storageKey);
+          if (upload.thumbnailKey) {
+            await this.storage.remove(upload.thumbnailKey);
+          }
+          removed++;
+        }
+
+        if (expired.length < CLEANUP_BATCH_SIZE) break;
+      }
+    } catch (e) {
+      this.logger.warn(
+        `Failed to remove expired uploads: ${(e as Error).message}`,
+      );
+    }
+
+    if (removed > 0) this.logger.log(`Removed ${removed} expired uploads`);
+    return removed;
+  }
+
+  /**
+   * Creates signed download links for an attachment.
+   *
+   * Requires `message.read` in the channel of the message the file is
+   * attached to; uploads not attached yet are only visible to the
+   * uploader. Throws a NotFoundException otherwise.
+   *
+   * @param id Attachment identifier
+   * @param user Requesting user
+   * @returns Links to the file and its thumbnail and their expiry
+   */
+  async createLinks(id: string, user: AttachmentUser) {
+    const attachment = await this.prisma.attachment.findUnique({
+      where: { id },
+      select: {
+        ...ATTACHMENT_SELECT,
+        uploaderId: true,
+        storageKey: true,
+        thumbnailKey: true,
+        message: { select: { channelKey: true, deletedAt: true } },
+      },
+    });
+    if (!attachment) throw new NotFoundException('Attachment not found');
+
+    if (!attachment.message) {
+      if (attachment.uploaderId !== user.id) {
+        throw new NotFoundException('Attachment not found');
+      }
+    } else {
+      if (attachment.message.deletedAt) {
+        throw new NotFoundException('Attachment not found');
+      }
+      await this.permissions.assert(
+        user,
+        'message.read',
+        attachment.message.channelKey,
+      );
+    }
+
+    const ttl = readPositiveInt(
+      'ATTACHMENT_URL_TTL_SECONDS',
+      DEFAULT_URL_TTL_SECONDS,
+    );
+    const expiresAt = new Date(Date.now() + ttl * 1000);
+
+    const url = await this.link(attachment.id, 'original', expiresAt, {
+      key: attachment.storageKey,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+    });
+    const thumbnailUrl = attachment.thumbnailKey
+      ? await this.link(attachment.id, 'thumbnail', expiresAt, {
+          key: attachment.thumbnailKey,
+          fileName: this.thumbnailName(attachment.fileName),
+          mimeType: 'image/webp',
+        })
+      : null;
+
+    return { id: attachment.id, url, thumbnailUrl, expiresAt };
+  }
+
+  /**
+   * Opens a file through a signed link served by the API.
+   *
+   * Throws a ForbiddenException for invalid or expired links and a
+   * NotFoundException if the file no longer exists.
+   *
+   * @param id Attachment identifier
+   * @param input Variant, expiry (epoch seconds) and signature of the link
+   * @returns File content with its name and MIME type
+   */
+  async open(
+    id: string,
+    input: { variant?: string; expires?: string; signature?: string },
+  ): Promise<{ stream: Readable; fileName: string; mimeType: string }> {
+    const variant: AttachmentVariant =
+      input.variant === 'thumbnail' ? 'thumbnail' : 'original';
+    const expires = Number(input.expires);
+
+    if (
+      !Number.isInteger(expires) ||
+      expires * 1000 < Date.now() ||
+      !this.verify(id, variant, expires, input.signature)
+    ) {
+      throw new ForbiddenException('Invalid or expired link');
+    }
+
+    const attachment = await this.prisma.attachment.findUnique({
+      where: { id },
+      select: {
+        fileName: true,
+        mimeType: true,
+        storageKey: true,
+        thumbnailKey: true,
+      },
+    });
+    const key =
+      variant === 'thumbnail'
+        ? attachment?.thumbnailKey
+        : attachment?.storageKey;
+    const stream = attachment && key ? await this.storage.read(key) : null;
+    if (!attachment || !stream) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    return variant === 'thumbnail'
+      ? {
+          stream,
+          fileName: this.thumbnailName(attachment.fileName),
+          mimeType: 'image/webp',
+        }
+      : {
+          stream,
+          fileName: attachment.fileName,
+          mimeType: attachment.mimeType,
+        };
+  }
+
+  /**
+   * Checks a MIME type against `ATTACHMENT_ALLOWED_TYPES`.
+   *
+   * Entries may end with `/*` to allow all subtypes.
+   *
+   * @param mimeType MIME type of the upload
+   * @returns Whether the type is accepted
+   */
+  private isAllowedType(mimeType: string): boolean {
+    const configured = process.env.ATTACHMENT_ALLOWED_TYPES;
+    const allowed = configured
+      ? configured
+          .split(',')
+          .map((type) => type.trim().toLowerCase())
+          .filter(Boolean)
+      : DEFAULT_ALLOWED_TYPES;
+
+    return allowed.some((type) =>
+      type.endsWith('/*')
+        ? mimeType.startsWith(type.slice(0, -1))
+        : mimeType === type,
+    );
+  }
+
+  /**
+   * Decodes an image and renders its thumbnail.
+   *
+   * @param data Image content
+   * @param format Expected image format
+   * @returns Image dimensions and WebP thumbnail
+   */
+  private async processImage(data: Buffer, format: string) {
+    try {
+      const metadata = await sharp(data).metadata();
+      if (metadata.format !== format) throw new Error('Format mismatch');
+
+      const size = readPositiveInt(
+        'ATTACHMENT_THUMBNAIL_SIZE',
+        DEFAULT_THUMBNAIL_SIZE,
+      );
+      const thumbnail = await sharp(data)
+        .rotate()
+        .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+
+      return { width: metadata.width, height: metadata.height, thumbnail };
+    } catch {
+      throw new UnsupportedMediaTypeException(
+        'File content does not match its type',
+      );
+    }
+  }
+
+  /**
+   * Creates a download link, presigned by the storage if it supports it.
+   *
+   * @param id Attachment identifier
+   * @param variant Downloaded representation
+   * @param expiresAt Expiry of the link
+   * @param file Storage key, file name and MIME type
+   * @returns Download URL
+   */
+  private async link(
+    id: string,
+    variant: AttachmentVariant,
+    expiresAt: Date,
+    file: { key: string; fileName: string; mimeType: string },
+  ): Promise<string> {
+    const expiresIn = Math.ceil((expiresAt.getTime() - Date.now()) / 1000);
+    const presigned = await this.storage.signedUrl(file.key, expiresIn, file);
+    if (presigned) return presigned;
+
+    // Served by the API: sign id, variant and expiry
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    const query = new URLSearchParams({
+      variant,
+      expires: String(expires),
+      signature: this.sign(id, variant, expires),
+    });
+    const base = (process.env.ATTACHMENT_PUBLIC_URL ?? '').replace(/\/$/, '');
+    return `${base}/attachments/${encodeURIComponent(id)}/content?${query}`;
+  }
+
+  /**
+   * Signs a download link served by the API.
+   *
+   * @param id Attachment identifier
+   * @param variant Downloaded representation
+   * @param expires Expiry (epoch seconds)
+   * @returns Signature (base64url)
+   */
+  private sign(id: string, variant: AttachmentVariant, expires: number) {
+    return createHmac('sha256', this.urlSecret)
+      .update(`${id}:${variant}:${expires}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Verifies the signature of a download link in constant time.
+   *
+   * @param id Attachment identifier
+   * @param variant Downloaded representation
+   * @param expires Expiry (epoch seconds)
+   * @param signature Signature from the link
+   * @returns Whether the signature is valid
+   */
+  private verify(
+    id: string,
+    variant: AttachmentVariant,
+    expires: number,
+    signature?: string,
+  ): boolean {
+    if (!signature) return false;
+
+    const expected = Buffer.from(this.sign(id, variant, expires));
+    const actual = Buffer.from(signature);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * Returns the creation time before which unattached uploads expire.
+   *
+   * Read from `ATTACHMENT_UPLOAD_TTL_SECONDS`, defaulting to 24 hours.
+   *
+   * @returns Expiry cutoff
+   */
+  private getUploadExpiry(): Date {
+    const ttl = readPositiveInt(
+      'ATTACHMENT_UPLOAD_TTL_SECONDS',
+      DEFAULT_UPLOAD_TTL_SECONDS,
+    );
+    return new Date(Date.now() - ttl * 1000);
+  }
+
+  /**
+   * Normalizes the name of an uploaded file.
+   *
+   * @param name Name sent by the client
+   * @returns File name without path and control characters
+   */
+  private sanitizeFileName(name?: string): string {
+    const clean = [...basename(name ?? '')]
+      .filter((char) => {
+        const code = char.charCodeAt(0);
+        return code >= 0x20 && code !== 0x7f;
+      })
+      .join('');
+    return clean.slice(0, 255) || 'file';
+  }
+
+  /**
+   * Derives the file name of a thumbnail.
+   *
+   * @param fileName Name of the original file
+   * @returns Thumbnail file name
+   */
+  private thumbnailName(fileName: string): string {
+    return `${fileName.replace(/\.[^.]*$/, '')}.thumbnail.webp`;
+  }
+}
@@ -0,0 +1,28 @@
+import { IsIn, IsNumberString, IsOptional, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for downloading an attachment.
+ *
+ * This DTO validates and describes the supported query parameters
+ * for the signed `GET /attachments/:id/content` links.
+ */
+export class DownloadAttachmentQueryDto {
+  /**
+   * Downloaded representation (`original` by default).
+   */
+  @IsOptional()
+  @IsIn(['original', 'thumbnail'])
+  variant?: string;
+
+  /**
+   * Expiry of the link (epoch seconds).
+   */
+  @IsNumberString()
+  expires!: string;
+
+  /**
+   * Signature of the link.
+   */
+  @IsString()
+  signature!: string;
+}
@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+import { AuthService } from '../auth/auth.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+describe('AuditController', () => {
+  let controller: AuditController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AuditController],
+      providers: [
+        { provide: AuditService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: PermissionsService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<AuditController>(AuditController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { Readable } from 'stream';
+import { AuditFilter, AuditService } from './audit.service';
+import { ListAuditQueryDto } from './dto/list-audit.query';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../permissions/permissions.guard';
+import { RequirePermission } from '../permissions/require-permission.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { parseTake } from '../common/query-params';
+
+/**
+ * HTTP controller for the audit log.
+ *
+ * Reading and exporting the log requires `audit.read`.
+ */
+@Controller('admin/audit')
+@UseGuards(JwtAuthGuard, PermissionsGuard, RateLimitGuard)
+export class AuditController {
+  /**
+   * Creates a new AuditController.
+   *
+   * @param audit Audit service providing the log
+   */
+  constructor(private readonly audit: AuditService) {}
+
+  /**
+   * Lists audit log entries, newest first.
+   *
+   * @param q Query parameters (filters, pagination)
+   * @returns A list of entries
+   */
+  @Get()
+  @RequirePermission('audit.read')
+  async list(@Query() q: ListAuditQueryDto) {
+    // Apply default page size if none provided, reject invalid sizes
+    const take = parseTake(q.take, { defaultSize: 50, maxSize: 100 });
+
+    return this.audit.list({ ...this.toFilter(q), take, cursor: q.cursor });
+  }
+
+  /**
+   * Exports all matching audit log entries as JSON lines.
+   *
+   * @param q Query parameters (filters)
+   * @returns Streamed `application/x-ndjson` document
+   */
+  @Get('export')
+  @RequirePermission('audit.read')
+  @Header('Content-Type', 'application/x-ndjson')
+  @Header('Content-Disposition', 'attachment; filename="audit.jsonl"')
+  async export(@Query() q: ListAuditQueryDto) {
+    // Validate the filters and read the first batch before streaming
+    const lines = await this.audit.exportLines(this.toFilter(q));
+
+    return new StreamableFile(Readable.from(lines));
+  }
+
+  /**
+   * Extracts the filters from the query parameters.
+   *
+   * @param q Query parameters
+   * @returns Audit log filters
+   */
+  private toFilter(q: ListAuditQueryDto): AuditFilter {
+    return {
+      actorId: q.actorId,
+      action: q.action,
+      targetType: q.targetType,
+      targetId: q.targetId,
+      channelKey: q.channel,
+      from: q.from,
+      to: q.to,
+    };
+  }
+}
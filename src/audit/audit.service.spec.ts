@@ -0,0 +1,106 @@
+import { BadRequestException } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AuditService', () => {
+  let prisma: { auditLog: { create: jest.Mock; findMany: jest.Mock } };
+  let service: AuditService;
+
+  const admin = { id: 'admin', role: 'ADMIN' as const };
+
+  beforeEach(() => {
+    prisma = {
+      auditLog: {
+        create: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    service = new AuditService(prisma as unknown as PrismaService);
+  });
+
+  it('stores snapshots as JSON', async () => {
+    const deletedAt = new Date('2026-01-01T00:00:00.000Z');
+
+    await service.record({
+      actor: admin,
+      action: 'message.delete',
+      target: { type: 'message', id: 'm1', channelKey: 'general' },
+      before: { content: 'hi', deletedAt: null },
+      after: { deletedAt },
+    });
+
+    expect(prisma.auditLog.create).toHaveBeenCalledWith({
+      data: {
+        actorId: 'admin',
+        actorRole: 'ADMIN',
+        action: 'message.delete',
+        targetType: 'message',
+        targetId: 'm1',
+        channelKey: 'general',
+        before: { content: 'hi', deletedAt: null },
+        after: { deletedAt: '2026-01-01T00:00:00.000Z' },
+      },
+    });
+  });
+
+  it('filters entries and pages newest first', async () => {
+    await service.list({
+      actorId: 'admin',
+      action: 'user.ban',
+      from: '2026-01-01T00:00:00.000Z',
+      to: '1767312000000',
+      take: 20,
+      cursor: 'a1',
+    });
+
+    expect(prisma.auditLog.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          actorId: 'admin',
+          action: 'user.ban',
+          createdAt: {
+            gte: new Date('2026-01-01T00:00:00.000Z'),
+            lte: new Date(1767312000000),
+          },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 20,
+        cursor: { id: 'a1' },
+        skip: 1,
+      }),
+    );
+  });
+
+  it('rejects invalid date filters', async () => {
+    await expect(
+      service.list({ from: 'yesterday', take: 20 }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('rejects invalid export filters before streaming', async () => {
+    await expect(
+      service.exportLines({ from: 'garbage' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.auditLog.findMany).not.toHaveBeenCalled();
+  });
+
+  it('exports entries as JSON lines in batches', async () => {
+    const batch = Array.from({ length: 500 }, (_, i) => ({ id: `a${i}` }));
+    prisma.auditLog.findMany
+      .mockResolvedValueOnce(batch)
+      .mockResolvedValueOnce([{ id: 'last' }]);
+
+    const exported = await service.exportLines({ channelKey: 'general' });
+    expect(prisma.auditLog.findMany).toHaveBeenCalledTimes(1);
+
+    const lines: string[] = [];
+    for await (const line of exported) lines.push(line);
+
+    expect(lines).toHaveLength(501);
+    expect(lines[500]).toBe('{"id":"last"}\n');
+    expect(prisma.auditLog.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cursor: { id: 'a499' }, skip: 1 }),
+    );
+  });
+});
@@ -0,0 +1,240 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { parseDateFilter } from '../common/query-params';
+
+//Allowed user roles within the audit domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//Audited administrative and moderation actions.
+export type AuditAction =
+  | 'message.edit'
+  | 'message.delete'
+  | 'message.restore'
+  | 'channel.create'
+  | 'channel.flush'
+  | 'channel.rename'
+  | 'channel.archive'
+  | 'channel.permissions.update'
+  | 'channel.settings.update'
+  | 'channel.slowmode'
+  | 'channel.member.add'
+  | 'channel.member.remove'
+  | 'user.mute'
+  | 'user.unmute'
+  | 'user.ban'
+  | 'user.unban'
+  | 'user.sessions.revoke'
+  | 'report.resolve'
+  | 'webhook.create'
+  | 'webhook.update'
+  | 'webhook.delete'
+  | 'webhook.replay';
+
+//Kind of entity an audited action affects.
+export type AuditTargetType =
+  | 'message'
+  | 'channel'
+  | 'user'
+  | 'report'
+  | 'webhook';
+
+//Action to be recorded in the audit log.
+export type AuditEntry = {
+  actor: { id: string; role: Role };
+  action: AuditAction;
+  target: { type: AuditTargetType; id: string; channelKey?: string };
+
+  /** State of the target before the action (omitted for creations) */
+  before?: unknown;
+
+  /** State of the target after the action */
+  after?: unknown;
+};
+
+//Filters of audit log queries.
+export type AuditFilter = {
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  channelKey?: string;
+
+  /** Earliest entry (ISO string or epoch ms) */
+  from?: string;
+
+  /** Latest entry (ISO string or epoch ms) */
+  to?: string;
+};
+
+//Number of entries read per query while exporting.
+const EXPORT_BATCH_SIZE = 500;
+
+//Fields returned for every audit log entry.
+const AUDIT_SELECT = {
+  id: true,
+  actorId: true,
+  actorRole: true,
+  action: true,
+  targetType: true,
+  targetId: true,
+  channelKey: true,
+  before: true,
+  after: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Service responsible for the audit log.
+ *
+ * Services record every administrative and moderation action with the
+ * acting user, the target and snapshots of its state before and after the
+ * action. The log is append-only: this service offers no way to change or
+ * remove entries, and the database rejects updates and deletes.
+ */
+@Injectable()
+export class AuditService {
+  /**
+   * Creates a new AuditService.
+   *
+   * @param prisma Prisma service used for database access
+   */
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Appends an entry to the audit log.
+   *
+   * @param entry Actor, action, target and snapshots
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: {
+        actorId: entry.actor.id,
+        actorRole: entry.actor.role,
+        action: entry.action,
+        targetType: entry.target.type,
+        targetId: entry.target.id,
+        channelKey: entry.target.channelKey ?? null,
+        before: this.toJson(entry.before),
+        after: this.toJson(entry.after),
+      },
+    });
+  }
+
+  /**
+   * Lists audit log entries with pagination support.
+   *
+   * Entries are returned newest first.
+   *
+   * @param params Filters and pagination info
+   * @returns List of entries
+   */
+  async list(params: AuditFilter & { take: number; cursor?: string }) {
+    const { take, cursor, ...filter } = params;
+
+    return this.findEntries(this.buildWhere(filter), take, cursor);
+  }
+
+  /**
+   * Exports audit log entries as JSON lines.
+   *
+   * Entries are read in batches, newest first, so exports of large logs
+   * do not load the whole log into memory. The filters are validated and
+   * the first batch is read before the lines are returned, so errors
+   * surface before a response is streamed.
+   *
+   * @param filter Filters of the export
+   * @returns One JSON document per entry, each terminated by a newline
+   */
+  async exportLines(filter: AuditFilter): Promise<AsyncGenerator<string>> {
+    const where = this.buildWhere(filter);
+    const entries = await this.findEntries(where, EXPORT_BATCH_SIZE);
+
+    return this.streamLines(where, entries);
+  }
+
+  /**
+   * Yields the JSON lines of an export, reading further batches on demand.
+   *
+   * @param where Prisma where clause of the export
+   * @param entries First batch of entries
+   * @returns One JSON document per entry, each terminated by a newline
+   */
+  private async *streamLines(
+    where: Prisma.AuditLogWhereInput,
+    entries: Awaited<ReturnType<AuditService['findEntries']>>,
+  ): AsyncGenerator<string> {
+    for (;;) {
+      for (const entry of entries) yield `${JSON.stringify(entry)}\n`;
+
+      if (entries.length < EXPORT_BATCH_SIZE) return;
+      entries = await this.findEntries(
+        where,
+        EXPORT_BATCH_SIZE,
+        entries[entries.length - 1].id,
+      );
+    }
+  }
+
+  /**
+   * Reads one page of audit log entries, newest first.
+   *
+   * @param where Prisma where clause
+   * @param take Number of entries to read
+   * @param cursor Optional id of the entry to continue after
+   * @returns List of entries
+   */
+  private async findEntries(
+    where: Prisma.AuditLogWhereInput,
+    take: number,
+    cursor?: string,
+  ) {
+    return this.prisma.auditLog.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: AUDIT_SELECT,
+    });
+  }
+
+  /**
+   * Builds the query filter of audit log queries.
+   *
+   * Throws a BadRequestException for invalid dates.
+   *
+   * @param filter Filters
+   * @returns Prisma where clause
+   */
+  private buildWhere(filter: AuditFilter): Prisma.AuditLogWhereInput {
+    const from = parseDateFilter(filter.from);
+    const to = parseDateFilter(filter.to);
+
+    return {
+      ...(filter.actorId ? { actorId: filter.actorId } : {}),
+      ...(filter.action ? { action: filter.action } : {}),
+      ...(filter.targetType ? { targetType: filter.targetType } : {}),
+      ...(filter.targetId ? { targetId: filter.targetId } : {}),
+      ...(filter.channelKey ? { channelKey: filter.channelKey } : {}),
+      ...(from || to
+        ? {
+            createdAt: {
+              ...(from ? { gte: from } : {}),
+              ...(to ? { lte: to } : {}),
+            },
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Converts a snapshot into a JSON value (e.g. dates into ISO strings).
+   *
+   * @param value Snapshot
+   * @returns JSON value, or undefined to store no snapshot
+   */
+  private toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    if (value === undefined || value === null) return undefined;
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+  }
+}
@@ -0,0 +1,78 @@
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for querying the audit log.
+ *
+ * This DTO validates and describes the supported query parameters
+ * for the `GET /admin/audit` and `GET /admin/audit/export` endpoints.
+ */
+export class ListAuditQueryDto {
+  /**
+   * Optional filter by acting user.
+   */
+  @IsOptional()
+  @IsString()
+  actorId?: string;
+
+  /**
+   * Optional filter by action (e.g. `message.delete`).
+   */
+  @IsOptional()
+  @IsString()
+  action?: string;
+
+  /**
+   * Optional filter by kind of target (`message`, `channel`, `user`, `report`).
+   */
+  @IsOptional()
+  @IsString()
+  targetType?: string;
+
+  /**
+   * Optional filter by target identifier.
+   */
+  @IsOptional()
+  @IsString()
+  targetId?: string;
+
+  /**
+   * Optional filter by channel.
+   */
+  @IsOptional()
+  @IsString()
+  channel?: string;
+
+  /**
+   * Optional start of the time range (ISO string or epoch ms).
+   */
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  /**
+   * Optional end of the time range (ISO string or epoch ms).
+   */
+  @IsOptional()
+  @IsString()
+  to?: string;
+
+  /**
+   * Optional pagination cursor (ignored by the export).
+   *
+   * Represents the ID of the last entry from the previous page.
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  /**
+   * Optional number of entries to return (ignored by the export).
+   *
+   * Must be between 1 and 100 if provided.
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  take?: number;
+}
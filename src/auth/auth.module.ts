@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
-import { PassportModule } from '@nestjs/passport';
-import { JwtStrategy } from './jwt.strategy';
+import { AuthService } from './auth.service';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { JwtKeysService } from './jwt-keys.service';
+import { SessionsService } from './sessions.service';
+import { SessionsController } from './sessions.controller';
+import { PermissionsModule } from '../permissions/permissions.module';
 
 @Module({
-  imports: [PassportModule.register({ defaultStrategy: 'jwt' })],
-  providers: [JwtStrategy],
-  exports: [PassportModule],
+  imports: [PermissionsModule],
+  controllers: [SessionsController],
+  providers: [AuthService, JwtKeysService, SessionsService, JwtAuthGuard],
+  exports: [AuthService, JwtAuthGuard],
 })
 export class AuthModule {}
@@ -0,0 +1,145 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { generateKeyPairSync } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { AuthService } from './auth.service';
+import { JwtKeysService } from './jwt-keys.service';
+import { SessionsService } from './sessions.service';
+
+describe('AuthService', () => {
+  const secret = 'test-secret';
+  const env = { ...process.env };
+  let service: AuthService;
+  let sessions: { isRevoked: jest.Mock };
+
+  beforeEach(() => {
+    process.env.JWT_ACCESS_SECRET = secret;
+    sessions = { isRevoked: jest.fn().mockResolvedValue(false) };
+    service = new AuthService(
+      new JwtKeysService(),
+      sessions as unknown as SessionsService,
+    );
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('returns the user of a valid token', async () => {
+    const token = jwt.sign(
+      { sub: 'u1', role: 'admin', email: 'a@b.c' },
+      secret,
+    );
+
+    await expect(service.verify(token)).resolves.toEqual({
+      id: 'u1',
+      role: 'ADMIN',
+      email: 'a@b.c',
+    });
+  });
+
+  it('treats tokens without a role claim as regular users', async () => {
+    const token = jwt.sign({ sub: 'u1' }, secret);
+
+    await expect(service.verify(token)).resolves.toEqual({
+      id: 'u1',
+      role: 'USER',
+    });
+  });
+
+  it('reports the token expiry', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 300;
+    const token = jwt.sign({ sub: 'u1', exp }, secret);
+
+    await expect(service.verify(token)).resolves.toEqual({
+      id: 'u1',
+      role: 'USER',
+      expiresAt: exp * 1000,
+    });
+  });
+
+  it('rejects tokens of revoked sessions', async () => {
+    const iat = Math.floor(Date.now() / 1000) - 5;
+    const token = jwt.sign({ sub: 'u1', iat }, secret);
+    sessions.isRevoked.mockResolvedValue(true);
+
+    await expect(service.verify(token)).rejects.toThrow('Session revoked');
+    expect(sessions.isRevoked).toHaveBeenCalledWith('u1', iat);
+  });
+
+  it.each([
+    ['missing tokens', undefined, 'Missing token'],
+    ['malformed tokens', 'not-a-jwt', 'Invalid token'],
+    ['foreign signatures', jwt.sign({ sub: 'u1' }, 'other'), 'Invalid token'],
+    [
+      'expired tokens',
+      jwt.sign({ sub: 'u1', exp: Math.floor(Date.now() / 1000) - 60 }, secret),
+      'Token expired',
+    ],
+    [
+      'tokens without subject',
+      jwt.sign({ role: 'USER' }, secret),
+      'Invalid token payload',
+    ],
+    [
+      'unknown roles',
+      jwt.sign({ sub: 'u1', role: 'ROOT' }, secret),
+      'Unknown role',
+    ],
+  ])('rejects %s', async (_case, token, message) => {
+    await expect(service.verify(token)).rejects.toThrow(
+      new UnauthorizedException(message),
+    );
+  });
+
+  it('tolerates small clock skew on expiry', async () => {
+    const exp = Math.floor(Date.now() / 1000) - 10;
+    const token = jwt.sign({ sub: 'u1', exp }, secret);
+
+    await expect(service.verify(token)).resolves.toMatchObject({ id: 'u1' });
+
+    process.env.JWT_CLOCK_TOLERANCE_SECONDS = '0';
+    await expect(service.verify(token)).rejects.toThrow('Token expired');
+  });
+
+  it('checks the configured issuer and audience', async () => {
+    process.env.JWT_ISSUER = 'https://idp.example, https://idp2.example';
+    process.env.JWT_AUDIENCE = 'chat';
+
+    const sign = (claims: object) => jwt.sign({ sub: 'u1', ...claims }, secret);
+
+    await expect(
+      service.verify(sign({ iss: 'https://idp2.example', aud: 'chat' })),
+    ).resolves.toMatchObject({ id: 'u1' });
+    await expect(
+      service.verify(sign({ iss: 'https://evil.example', aud: 'chat' })),
+    ).rejects.toThrow('Invalid issuer');
+    await expect(
+      service.verify(sign({ iss: 'https://idp.example', aud: 'other' })),
+    ).rejects.toThrow('Invalid audience');
+  });
+
+  it('verifies RS256 tokens with a static public key', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    delete process.env.JWT_ACCESS_SECRET;
+    process.env.JWT_PUBLIC_KEY = publicKey
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+
+    const token = jwt.sign({ sub: 'u1' }, privateKey, { algorithm: 'RS256' });
+    await expect(service.verify(token)).resolves.toMatchObject({ id: 'u1' });
+
+    // HMAC tokens must not be verified with the public key as secret
+    const forged = jwt.sign({ sub: 'u1' }, process.env.JWT_PUBLIC_KEY);
+    await expect(service.verify(forged)).rejects.toThrow('Invalid token');
+  });
+
+  it('reports a missing configuration', async () => {
+    delete process.env.JWT_ACCESS_SECRET;
+
+    await expect(
+      service.verify(jwt.sign({ sub: 'u1' }, secret)),
+    ).rejects.toThrow('Authentication is not configured');
+  });
+});
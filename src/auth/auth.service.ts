@@ -0,0 +1,163 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import * as jwt from 'jsonwebtoken';
+import { RequestUser, Role } from './request-user';
+import { JwtKeysService } from './jwt-keys.service';
+import { SessionsService } from './sessions.service';
+
+//Roles a token may carry (compared case-insensitively).
+const ROLES: readonly Role[] = ['USER', 'MODERATOR', 'ADMIN'];
+
+//Default leeway for `exp`/`nbf` checks, in seconds.
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 30;
+
+/**
+ * Single source of truth for access token verification.
+ *
+ * Used by the HTTP guard and the websocket handshake middleware, so that
+ * a token is accepted or rejected identically by every entry point.
+ */
+@Injectable()
+export class AuthService {
+  /**
+   * Creates a new AuthService.
+   *
+   * @param keys Resolver for the token verification keys
+   * @param sessions Service tracking revoked sessions
+   */
+  constructor(
+    private readonly keys: JwtKeysService,
+    private readonly sessions: SessionsService,
+  ) {}
+
+  /**
+   * Normalizes the role claim of a token.
+   *
+   * Tokens without a role claim are regular users. Known roles are
+   * matched case-insensitively; any other value is rejected.
+   *
+   * @param raw Raw `role` claim
+   * @returns Normalized role or null if the role is unknown
+   */
+  normalizeRole(raw: unknown): Role | null {
+    if (raw === undefined || raw === null) return 'USER';
+    if (typeof raw !== 'string') return null;
+
+    const role = raw.toUpperCase();
+    return ROLES.find((known) => known === role) ?? null;
+  }
+
+  /**
+   * Verifies an access token and returns the authenticated user.
+   *
+   * The key is resolved from the token header (shared secret, static
+   * public key or JWKS). `iss`, `aud` and the clock tolerance are checked
+   * as configured, and tokens issued before a session revocation of the
+   * user are rejected. Throws an UnauthorizedException describing why the
+   * token was rejected.
+   *
+   * @param token Raw JWT
+   * @returns Authenticated user descriptor
+   */
+  async verify(token: string | undefined): Promise<RequestUser> {
+    if (!token) throw new UnauthorizedException('Missing token');
+    if (!this.keys.isConfigured()) {
+      throw new UnauthorizedException('Authentication is not configured');
+    }
+
+    // Read the unverified header to select the key
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) throw new UnauthorizedException('Invalid token');
+
+    const key = await this.keys.resolve(decoded.header);
+    if (!key) throw new UnauthorizedException('Invalid token');
+
+    let payload: jwt.JwtPayload;
+    try {
+      // Verify signature, expiry and configured claims; only object payloads are valid
+      const verified = jwt.verify(token, key.key, {
+        ...this.getVerifyOptions(),
+        algorithms: key.algorithms,
+      });
+      if (typeof verified === 'string') throw new Error('Invalid payload');
+      payload = verified;
+    } catch (e) {
+      throw new UnauthorizedException(this.describeFailure(e));
+    }
+
+    // Require a subject as user id
+    const id = payload.sub;
+    if (!id) throw new UnauthorizedException('Invalid token payload');
+
+    const role = this.normalizeRole(payload.role);
+    if (!role) throw new UnauthorizedException('Unknown role');
+
+    // Reject tokens of revoked sessions
+    if (await this.sessions.isRevoked(id, payload.iat)) {
+      throw new UnauthorizedException('Session revoked');
+    }
+
+    const email: unknown = payload.email;
+    return {
+      id,
+      role,
+      ...(typeof email === 'string' ? { email } : {}),
+      ...(payload.exp !== undefined ? { expiresAt: payload.exp * 1000 } : {}),
+    };
+  }
+
+  /**
+   * Maps a verification error to the reason reported to clients.
+   *
+   * @param e Error thrown by jsonwebtoken
+   * @returns Rejection reason
+   */
+  private describeFailure(e: unknown): string {
+    if (e instanceof jwt.TokenExpiredError) return 'Token expired';
+    if (e instanceof jwt.JsonWebTokenError) {
+      if (e.message.startsWith('jwt issuer invalid')) return 'Invalid issuer';
+      if (e.message.startsWith('jwt audience invalid')) {
+        return 'Invalid audience';
+      }
+    }
+    return 'Invalid token';
+  }
+
+  /**
+   * Reads the claim checks from the environment.
+   *
+   * `JWT_ISSUER` and `JWT_AUDIENCE` accept comma-separated lists;
+   * `JWT_CLOCK_TOLERANCE_SECONDS` allows for clock skew between the
+   * identity provider and this server (default 30).
+   *
+   * @returns Options passed to `jwt.verify`
+   */
+  private getVerifyOptions(): jwt.VerifyOptions {
+    const issuers = splitList(process.env.JWT_ISSUER);
+    const audiences = splitList(process.env.JWT_AUDIENCE);
+
+    const raw = Number(process.env.JWT_CLOCK_TOLERANCE_SECONDS);
+    const clockTolerance =
+      Number.isFinite(raw) && raw >= 0 ? raw : DEFAULT_CLOCK_TOLERANCE_SECONDS;
+
+    return {
+      clockTolerance,
+      ...(issuers.length ? { issuer: issuers as [string, ...string[]] } : {}),
+      ...(audiences.length
+        ? { audience: audiences as [string, ...string[]] }
+        : {}),
+    };
+  }
+}
+
+/**
+ * Splits a comma-separated environment value.
+ *
+ * @param value Raw value
+ * @returns Trimmed, non-empty entries
+ */
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
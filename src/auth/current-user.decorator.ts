@@ -0,0 +1,20 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Socket } from 'socket.io';
+import { RequestUser } from './request-user';
+
+/**
+ * Injects the authenticated user into a route or websocket handler.
+ *
+ * Reads `req.user` (set by `JwtAuthGuard`) for HTTP requests and
+ * `socket.data.user` (set by the handshake middleware) for websockets.
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): RequestUser | undefined => {
+    if (context.getType() === 'ws') {
+      const client = context.switchToWs().getClient<Socket>();
+      return (client.data as { user?: RequestUser }).user;
+    }
+
+    return context.switchToHttp().getRequest<{ user?: RequestUser }>().user;
+  },
+);
@@ -1,7 +1,38 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
 import { JwtAuthGuard } from './jwt-auth.guard';
+import { AuthService } from './auth.service';
 
 describe('JwtAuthGuard', () => {
-  it('should be defined', () => {
-    expect(new JwtAuthGuard()).toBeDefined();
+  let auth: { verify: jest.Mock };
+  let guard: JwtAuthGuard;
+
+  const contextFor = (req: object) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => req }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    auth = { verify: jest.fn() };
+    guard = new JwtAuthGuard(auth as unknown as AuthService);
+  });
+
+  it('attaches the authenticated user to the request', async () => {
+    const user = { id: 'u1', role: 'USER' };
+    auth.verify.mockResolvedValue(user);
+    const req: { headers: object; user?: unknown } = {
+      headers: { authorization: 'Bearer token' },
+    };
+
+    await expect(guard.canActivate(contextFor(req))).resolves.toBe(true);
+    expect(auth.verify).toHaveBeenCalledWith('token');
+    expect(req.user).toBe(user);
+  });
+
+  it('propagates authentication failures as 401', async () => {
+    auth.verify.mockRejectedValue(new UnauthorizedException('Missing token'));
+
+    await expect(
+      guard.canActivate(contextFor({ headers: {} })),
+    ).rejects.toThrow(UnauthorizedException);
   });
 });
@@ -1,12 +1,40 @@
 import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
-import { Observable } from 'rxjs';
-import { AuthGuard } from '@nestjs/passport';
+import { AuthService } from './auth.service';
+import { extractBearer, RequestUser } from './request-user';
 
+//Subset of an HTTP request used for authentication.
+type AuthRequest = {
+  headers?: { authorization?: unknown };
+  user?: RequestUser;
+};
+
+/**
+ * HTTP guard authenticating requests with a bearer token.
+ *
+ * Rejects requests without a valid token with `401 Unauthorized` and
+ * attaches the authenticated user to `req.user`.
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') implements CanActivate  {
-  canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
+export class JwtAuthGuard implements CanActivate {
+  /**
+   * Creates a new JwtAuthGuard.
+   *
+   * @param auth Service verifying access tokens
+   */
+  constructor(private readonly auth: AuthService) {}
+
+  /**
+   * Verifies the bearer token of the incoming request.
+   *
+   * @param context Execution context of the request
+   * @returns Always true; invalid requests throw instead
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<AuthRequest>();
+
+    req.user = await this.auth.verify(
+      extractBearer(req.headers?.authorization),
+    );
     return true;
   }
 }
@@ -0,0 +1,173 @@
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as jwt from 'jsonwebtoken';
+import { JwtKeysService } from './jwt-keys.service';
+
+//Generates an EC key pair with its public JWK.
+function ecKey(kid: string) {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  });
+  return {
+    privateKey,
+    jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' },
+  };
+}
+
+describe('JwtKeysService', () => {
+  const env = { ...process.env };
+  const dir = mkdtempSync(join(tmpdir(), 'jwks-'));
+  const file = join(dir, 'jwks.json');
+  let service: JwtKeysService;
+
+  const writeJwks = (...keys: object[]) =>
+    writeFileSync(file, JSON.stringify({ keys }));
+
+  const verify = async (token: string) => {
+    const decoded = jwt.decode(token, { complete: true })!;
+    const key = await service.resolve(decoded.header);
+    if (!key) throw new Error('No key');
+    return jwt.verify(token, key.key, { algorithms: key.algorithms });
+  };
+
+  beforeEach(() => {
+    service = new JwtKeysService();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('selects JWKS keys by kid', async () => {
+    const a = ecKey('a');
+    const b = ecKey('b');
+    writeJwks(a.jwk, b.jwk);
+    process.env.JWT_JWKS_URI = file;
+
+    const token = jwt.sign({ sub: 'u1' }, b.privateKey, {
+      algorithm: 'ES256',
+      keyid: 'b',
+    });
+
+    await expect(verify(token)).resolves.toMatchObject({ sub: 'u1' });
+    await expect(
+      service.resolve({ alg: 'ES256', kid: 'unknown' }),
+    ).resolves.toBeNull();
+  });
+
+  it('only accepts tokens without kid if the JWKS has a single key', async () => {
+    const a = ecKey('a');
+    writeJwks(a.jwk);
+    process.env.JWT_JWKS_URI = `file://${file}`;
+
+    const token = jwt.sign({ sub: 'u1' }, a.privateKey, { algorithm: 'ES256' });
+    await expect(verify(token)).resolves.toMatchObject({ sub: 'u1' });
+
+    writeJwks(a.jwk, ecKey('b').jwk);
+    await expect(new JwtKeysService().resolve({ alg: 'ES256' })).resolves.toBe(
+      null,
+    );
+  });
+
+  it('never hands out public keys for HMAC tokens', async () => {
+    writeJwks(ecKey('a').jwk);
+    process.env.JWT_JWKS_URI = file;
+
+    await expect(
+      service.resolve({ alg: 'HS256', kid: 'a' }),
+    ).resolves.toBeNull();
+    await expect(service.resolve({ alg: 'none' })).resolves.toBeNull();
+  });
+
+  describe('with a JWKS URL', () => {
+    let server: Server;
+    let keys: object[];
+    let requests: number;
+    let stalled: boolean;
+
+    beforeEach(async () => {
+      requests = 0;
+      stalled = false;
+      server = createServer((_req, res) => {
+        requests++;
+        if (stalled) return;
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ keys }));
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      process.env.JWT_JWKS_URI = `http://127.0.0.1:${port}/jwks.json`;
+    });
+
+    afterEach(
+      () =>
+        new Promise<void>((resolve) => {
+          server.close(() => resolve());
+          server.closeAllConnections();
+        }),
+    );
+
+    it('caches the document', async () => {
+      const a = ecKey('a');
+      keys = [a.jwk];
+
+      await service.resolve({ alg: 'ES256', kid: 'a' });
+      const key = await service.resolve({ alg: 'ES256', kid: 'a' });
+
+      expect(key?.key).toBeInstanceOf(KeyObject);
+      expect(requests).toBe(1);
+    });
+
+    it('shares one request between concurrent lookups', async () => {
+      keys = [ecKey('a').jwk];
+
+      const resolved = await Promise.all([
+        service.resolve({ alg: 'ES256', kid: 'a' }),
+        service.resolve({ alg: 'ES256', kid: 'a' }),
+        service.resolve({ alg: 'ES256', kid: 'a' }),
+      ]);
+
+      expect(resolved.every((key) => key?.key instanceof KeyObject)).toBe(true);
+      expect(requests).toBe(1);
+    });
+
+    it('gives up on slow JWKS endpoints', async () => {
+      process.env.JWT_JWKS_TIMEOUT_MS = '50';
+      stalled = true;
+      keys = [ecKey('a').jwk];
+
+      await expect(
+        service.resolve({ alg: 'ES256', kid: 'a' }),
+      ).resolves.toBeNull();
+    });
+
+    it('refetches on unknown kid to pick up rotated keys', async () => {
+      const now = jest.spyOn(Date, 'now');
+      keys = [ecKey('a').jwk];
+      await service.resolve({ alg: 'ES256', kid: 'a' });
+
+      const b = ecKey('b');
+      keys = [b.jwk];
+
+      // Refetches are throttled
+      await expect(
+        service.resolve({ alg: 'ES256', kid: 'b' }),
+      ).resolves.toBeNull();
+
+      now.mockReturnValue(Date.now() + 30_000);
+      const token = jwt.sign({ sub: 'u2' }, b.privateKey, {
+        algorithm: 'ES256',
+        keyid: 'b',
+      });
+      await expect(verify(token)).resolves.toMatchObject({ sub: 'u2' });
+      expect(requests).toBe(2);
+    });
+  });
+});
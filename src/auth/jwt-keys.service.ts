@@ -0,0 +1,299 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+import * as jwt from 'jsonwebtoken';
+
+//Algorithms accepted for tokens signed with the shared secret.
+const HMAC_ALGORITHMS: jwt.Algorithm[] = ['HS256', 'HS384', 'HS512'];
+
+//Algorithms accepted for tokens signed with a public/private key pair.
+const ASYMMETRIC_ALGORITHMS: jwt.Algorithm[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+];
+
+//Default lifetime of a cached JWKS document.
+const DEFAULT_JWKS_CACHE_SECONDS = 600;
+
+//Minimum delay between two refetches triggered by an unknown `kid`.
+const JWKS_MIN_REFRESH_MS = 30_000;
+
+//Default time limit of a JWKS request.
+const DEFAULT_JWKS_TIMEOUT_MS = 5_000;
+
+//Key material and the algorithms it may verify.
+export type VerificationKey = {
+  key: jwt.Secret | KeyObject;
+  algorithms: jwt.Algorithm[];
+};
+
+//Parsed JWKS document.
+type CachedJwks = {
+  keys: Map<string, KeyObject>;
+  fetchedAt: number;
+};
+
+/**
+ * Resolves the key verifying an access token.
+ *
+ * Supported sources (all optional, combinable):
+ * - `JWT_ACCESS_SECRET`: shared secret for HS256/384/512 tokens
+ * - `JWT_PUBLIC_KEY` / `JWT_PUBLIC_KEY_FILE`: static PEM public key
+ * - `JWT_JWKS_URI`: JWKS document (http(s) URL, `file://` URL or path),
+ *   cached for `JWT_JWKS_CACHE_SECONDS` and refetched on unknown `kid`s;
+ *   requests time out after `JWT_JWKS_TIMEOUT_MS`
+ *
+ * Keys are picked by the algorithm family of the token header, so an
+ * asymmetric public key can never be used as an HMAC secret.
+ */
+@Injectable()
+export class JwtKeysService {
+  private readonly logger = new Logger(JwtKeysService.name);
+
+  //Parsed JWKS documents by source.
+  private readonly jwks = new Map<string, CachedJwks>();
+
+  //Refreshes in flight by source, shared by concurrent lookups.
+  private readonly refreshing = new Map<string, Promise<CachedJwks | null>>();
+
+  //Parsed static public key and the PEM it was created from.
+  private pem?: { source: string; key: KeyObject };
+
+  /**
+   * Reports whether any verification key source is configured.
+   *
+   * @returns True if tokens can be verified
+   */
+  isConfigured(): boolean {
+    return !!(
+      process.env.JWT_ACCESS_SECRET ||
+      process.env.JWT_PUBLIC_KEY ||
+      process.env.JWT_PUBLIC_KEY_FILE ||
+      process.env.JWT_JWKS_URI
+    );
+  }
+
+  /**
+   * Resolves the key for a token header.
+   *
+   * @param header Decoded (unverified) token header
+   * @returns Verification key or null if no configured key matches
+   */
+  async resolve(header: jwt.JwtHeader): Promise<VerificationKey | null> {
+    const alg = header.alg as jwt.Algorithm;
+
+    // Shared secret for HMAC tokens
+    if (HMAC_ALGORITHMS.includes(alg)) {
+      const secret = process.env.JWT_ACCESS_SECRET;
+      return secret ? { key: secret, algorithms: HMAC_ALGORITHMS } : null;
+    }
+    if (!ASYMMETRIC_ALGORITHMS.includes(alg)) return null;
+
+    // JWKS takes precedence over a static key
+    const uri = process.env.JWT_JWKS_URI;
+    const key = uri
+      ? await this.fromJwks(uri, header.kid)
+      : await this.fromPem();
+
+    return key ? { key, algorithms: ASYMMETRIC_ALGORITHMS } : null;
+  }
+
+  /**
+   * Loads the static PEM public key.
+   *
+   * `JWT_PUBLIC_KEY` may contain escaped newlines (`\n`), which is
+   * convenient in `.env` files.
+   *
+   * @returns Public key or null if none is configured
+   */
+  private async fromPem(): Promise<KeyObject | null> {
+    const inline = process.env.JWT_PUBLIC_KEY;
+    const file = process.env.JWT_PUBLIC_KEY_FILE;
+
+    let source: string;
+    if (inline) source = inline.replace(/\\n/g, '\n');
+    else if (file) source = await readFile(file, 'utf8');
+    else return null;
+
+    // Parse once per configured key
+    if (this.pem?.source !== source) {
+      this.pem = { source, key: createPublicKey(source) };
+    }
+
+    return this.pem.key;
+  }
+
+  /**
+   * Selects a key of a JWKS document.
+   *
+   * Unknown key ids trigger a refetch (at most every 30 seconds), so keys
+   * rotated in by the identity provider are picked up without restart.
+   *
+   * @param uri JWKS location
+   * @param kid Key id of the token
+   * @returns Public key or null if the document has no matching key
+   */
+  private async fromJwks(
+    uri: string,
+    kid: string | undefined,
+  ): Promise<KeyObject | null> {
+    let jwks = await this.loadJwks(uri);
+    if (!jwks) return null;
+
+    let key = this.pick(jwks, kid);
+    if (!key && Date.now() - jwks.fetchedAt >= JWKS_MIN_REFRESH_MS) {
+      jwks = (await this.loadJwks(uri, true)) ?? jwks;
+      key = this.pick(jwks, kid);
+    }
+
+    return key;
+  }
+
+  /**
+   * Picks a key by id.
+   *
+   * Tokens without `kid` are only accepted if the document holds a
+   * single key.
+   *
+   * @param jwks Parsed JWKS document
+   * @param kid Key id of the token
+   * @returns Matching key or null
+   */
+  private pick(jwks: CachedJwks, kid: string | undefined): KeyObject | null {
+    if (kid) return jwks.keys.get(kid) ?? null;
+    return jwks.keys.size === 1 ? [...jwks.keys.values()][0] : null;
+  }
+
+  /**
+   * Returns a JWKS document, fetching it if the cache is stale.
+   *
+   * A failed refresh keeps serving the previously fetched keys. Concurrent
+   * lookups share a single refresh.
+   *
+   * @param uri JWKS location
+   * @param force Whether to bypass the cache
+   * @returns Parsed document or null if it was never fetched successfully
+   */
+  private async loadJwks(uri: string, force = false) {
+    const cached = this.jwks.get(uri);
+    if (
+      cached &&
+      !force &&
+      Date.now() - cached.fetchedAt < this.getJwksCacheMs()
+    ) {
+      return cached;
+    }
+
+    let refresh = this.refreshing.get(uri);
+    if (!refresh) {
+      refresh = this.refreshJwks(uri, cached).finally(() =>
+        this.refreshing.delete(uri),
+      );
+      this.refreshing.set(uri, refresh);
+    }
+
+    return refresh;
+  }
+
+  /**
+   * Fetches and caches a JWKS document.
+   *
+   * @param uri JWKS location
+   * @param cached Previously fetched document, served if the fetch fails
+   * @returns Parsed document or null if it was never fetched successfully
+   */
+  private async refreshJwks(
+    uri: string,
+    cached: CachedJwks | undefined,
+  ): Promise<CachedJwks | null> {
+    try {
+      const keys = this.parseJwks(await this.fetchJwks(uri));
+      const fresh: CachedJwks = { keys, fetchedAt: Date.now() };
+      this.jwks.set(uri, fresh);
+      return fresh;
+    } catch (e) {
+      this.logger.error(
+        `Failed to load JWKS from ${uri}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+      return cached ?? null;
+    }
+  }
+
+  /**
+   * Reads the raw JWKS document from a URL or file.
+   *
+   * HTTP requests are aborted after `JWT_JWKS_TIMEOUT_MS` (default 5
+   * seconds), so a slow identity provider cannot stall handshakes.
+   *
+   * @param uri http(s) URL, `file://` URL or file path
+   * @returns Parsed JSON body
+   */
+  private async fetchJwks(uri: string): Promise<unknown> {
+    if (/^https?:\/\//i.test(uri)) {
+      const res = await fetch(uri, {
+        headers: { accept: 'application/json' },
+        signal: AbortSignal.timeout(this.getJwksTimeoutMs()),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return res.json();
+    }
+
+    const path = uri.startsWith('file://') ? new URL(uri) : uri;
+    return JSON.parse(await readFile(path, 'utf8')) as unknown;
+  }
+
+  /**
+   * Converts a JWKS document into public keys by key id.
+   *
+   * Keys not meant for signatures or that cannot be imported are skipped.
+   *
+   * @param doc Raw JWKS document
+   * @returns Public keys by `kid` (empty string for keys without id)
+   */
+  private parseJwks(doc: unknown): Map<string, KeyObject> {
+    const list = (doc as { keys?: unknown } | null)?.keys;
+    if (!Array.isArray(list)) throw new Error('Missing "keys" array');
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of list as (JsonWebKey & { kid?: string })[]) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+
+      try {
+        keys.set(jwk.kid ?? '', createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        this.logger.warn(`Skipping unsupported JWK ${jwk.kid ?? '(no kid)'}`);
+      }
+    }
+
+    return keys;
+  }
+
+  /**
+   * Reads the JWKS cache lifetime from the environment.
+   *
+   * @returns Cache lifetime in milliseconds
+   */
+  private getJwksCacheMs(): number {
+    const raw = Number(process.env.JWT_JWKS_CACHE_SECONDS);
+    const seconds =
+      Number.isFinite(raw) && raw >= 0 ? raw : DEFAULT_JWKS_CACHE_SECONDS;
+    return seconds * 1000;
+  }
+
+  /**
+   * Reads the time limit of JWKS requests from the environment.
+   *
+   * @returns Time limit in milliseconds
+   */
+  private getJwksTimeoutMs(): number {
+    const raw = Number(process.env.JWT_JWKS_TIMEOUT_MS);
+    return Number.isInteger(raw) && raw > 0 ? raw : DEFAULT_JWKS_TIMEOUT_MS;
+  }
+}
@@ -0,0 +1,32 @@
+//Allowed user roles within the application.
+export type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//Authenticated user resolved from an HTTP request or socket handshake.
+export type RequestUser = {
+  /** Unique user identifier (JWT `sub`) */
+  id: string;
+
+  /** Optional user email address */
+  email?: string;
+
+  /** Normalized role */
+  role: Role;
+
+  /** Expiry of the access token (ms since epoch), if the token expires */
+  expiresAt?: number;
+};
+
+/**
+ * Extracts a bearer token from an Authorization header value.
+ *
+ * @param auth Raw authorization header value
+ * @returns JWT string if present, otherwise undefined
+ */
+export function extractBearer(auth?: unknown): string | undefined {
+  // Normalize the header value to a string
+  const v = typeof auth === 'string' ? auth : undefined;
+  if (!v) return undefined;
+
+  // Strip the Bearer prefix if present
+  return v.startsWith('Bearer ') ? v.slice(7) : undefined;
+}
@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SessionsController } from './sessions.controller';
+import { SessionsService } from './sessions.service';
+import { AuthService } from './auth.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+describe('SessionsController', () => {
+  let controller: SessionsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SessionsController],
+      providers: [
+        { provide: SessionsService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+        { provide: PermissionsService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<SessionsController>(SessionsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
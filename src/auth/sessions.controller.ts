@@ -0,0 +1,43 @@
+import { Controller, Delete, Param, UseGuards } from '@nestjs/common';
+import { SessionsService } from './sessions.service';
+import type { RequestUser } from './request-user';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { CurrentUser } from './current-user.decorator';
+import { PermissionsGuard } from '../permissions/permissions.guard';
+import { RequirePermission } from '../permissions/require-permission.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+
+/**
+ * HTTP controller for administrative session management.
+ *
+ * Revoking sessions requires `user.sessions.revoke`.
+ */
+@Controller('admin/users')
+@UseGuards(JwtAuthGuard, PermissionsGuard, RateLimitGuard)
+export class SessionsController {
+  /**
+   * Creates a new SessionsController.
+   *
+   * @param sessions Sessions service performing revocations
+   */
+  constructor(private readonly sessions: SessionsService) {}
+
+  /**
+   * Revokes all sessions of a user.
+   *
+   * Existing tokens of the user are rejected from now on and their
+   * connected sockets are disconnected immediately.
+   *
+   * @param userId User whose sessions are revoked
+   * @param user Authenticated user
+   * @returns Revocation result metadata
+   */
+  @Delete(':userId/sessions')
+  @RequirePermission('user.sessions.revoke')
+  async revoke(
+    @Param('userId') userId: string,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.sessions.revoke(userId, user);
+  }
+}
@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SessionsService } from './sessions.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let events: EventsService;
+  let audit: { record: jest.Mock };
+
+  const admin = { id: 'admin', role: 'ADMIN' as const };
+  let prisma: {
+    sessionRevocation: { upsert: jest.Mock; findUnique: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      sessionRevocation: { upsert: jest.fn(), findUnique: jest.fn() },
+    };
+
+    audit = { record: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        EventsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditService, useValue: audit },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+    events = module.get<EventsService>(EventsService);
+  });
+
+  it('stores the revocation and announces it', async () => {
+    const revoked = jest.fn();
+    events.on('user.sessions.revoked').subscribe(revoked);
+
+    const result = await service.revoke('u1', admin);
+
+    expect(prisma.sessionRevocation.upsert).toHaveBeenCalledWith({
+      where: { userId: 'u1' },
+      create: {
+        userId: 'u1',
+        revokedAt: result.revokedAt,
+        revokedById: 'admin',
+      },
+      update: { revokedAt: result.revokedAt, revokedById: 'admin' },
+    });
+    expect(revoked).toHaveBeenCalledWith({
+      userId: 'u1',
+      revokedAt: result.revokedAt,
+      revokedById: 'admin',
+    });
+    expect(audit.record).toHaveBeenCalledWith({
+      actor: admin,
+      action: 'user.sessions.revoke',
+      target: { type: 'user', id: 'u1' },
+      before: undefined,
+      after: { revokedAt: result.revokedAt, revokedById: 'admin' },
+    });
+  });
+
+  describe('isRevoked', () => {
+    const revokedAt = new Date('2026-01-01T12:00:00.500Z');
+    const second = Math.floor(revokedAt.getTime() / 1000);
+
+    it('accepts every token without revocation', async () => {
+      prisma.sessionRevocation.findUnique.mockResolvedValue(null);
+
+      await expect(service.isRevoked('u1', undefined)).resolves.toBe(false);
+    });
+
+    it.each([
+      ['issued before the revocation', second - 60, true],
+      ['issued in the revocation second', second, true],
+      ['issued after the revocation', second + 1, false],
+      ['without iat', undefined, true],
+    ])('handles tokens %s', async (_case, iat, expected) => {
+      prisma.sessionRevocation.findUnique.mockResolvedValue({ revokedAt });
+
+      await expect(service.isRevoked('u1', iat)).resolves.toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+import { AuditService } from '../audit/audit.service';
+
+/**
+ * Service responsible for revoking user sessions.
+ *
+ * A revocation rejects every access token of the user issued up to the
+ * revocation time, so already issued tokens cannot be used to reconnect.
+ * Tokens issued afterwards (e.g. after logging in again) stay valid.
+ */
+@Injectable()
+export class SessionsService {
+  /**
+   * Creates a new SessionsService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param events Event bus used to announce revocations
+   * @param audit Audit log recording revocations
+   */
+  constructor(
+    private prisma: PrismaService,
+    private events: EventsService,
+    private audit: AuditService,
+  ) {}
+
+  /**
+   * Revokes all current sessions of a user.
+   *
+   * Connected sockets of the user are disconnected via the
+   * `user.sessions.revoked` domain event.
+   *
+   * @param userId User whose sessions are revoked
+   * @param actor Administrator performing the revocation
+   * @returns Revocation result metadata
+   */
+  async revoke(
+    userId: string,
+    actor: { id: string; role: 'USER' | 'MODERATOR' | 'ADMIN' },
+  ) {
+    const revokedAt = new Date();
+
+    const previous = await this.prisma.sessionRevocation.findUnique({
+      where: { userId },
+      select: { revokedAt: true, revokedById: true },
+    });
+    await this.prisma.sessionRevocation.upsert({
+      where: { userId },
+      create: { userId, revokedAt, revokedById: actor.id },
+      update: { revokedAt, revokedById: actor.id },
+    });
+
+    await this.audit.record({
+      actor,
+      action: 'user.sessions.revoke',
+      target: { type: 'user', id: userId },
+      before: previous ?? undefined,
+      after: { revokedAt, revokedById: actor.id },
+    });
+
+    // Let realtime consumers disconnect the user's sockets
+    this.events.publish('user.sessions.revoked', {
+      userId,
+      revokedAt,
+      revokedById: actor.id,
+    });
+
+    return { revoked: true, userId, revokedAt };
+  }
+
+  /**
+   * Checks whether a token was issued before the sessions of its user
+   * were revoked.
+   *
+   * Tokens without `iat` are treated as revoked once a revocation exists.
+   * The comparison uses whole seconds (the resolution of `iat`).
+   *
+   * @param userId Token subject
+   * @param issuedAt Token `iat` claim (seconds since epoch)
+   * @returns Whether the token must be rejected
+   */
+  async isRevoked(userId: string, issuedAt: number | undefined) {
+    const revocation = await this.prisma.sessionRevocation.findUnique({
+      where: { userId },
+      select: { revokedAt: true },
+    });
+    if (!revocation) return false;
+
+    const revokedAt = Math.floor(revocation.revokedAt.getTime() / 1000);
+    return issuedAt === undefined || issuedAt <= revokedAt;
+  }
+}
@@ -0,0 +1,31 @@
+import { Socket } from 'socket.io';
+import { AuthService } from './auth.service';
+import { extractBearer, RequestUser } from './request-user';
+
+/**
+ * Creates a Socket.IO middleware rejecting unauthenticated handshakes.
+ *
+ * The token is read from `handshake.auth.token` or the `Authorization`
+ * header. Rejected clients receive a `connect_error` carrying the reason;
+ * accepted sockets carry the user in `socket.data.user`.
+ *
+ * @param auth Service verifying access tokens
+ * @returns Socket.IO middleware
+ */
+export function createWsAuthMiddleware(auth: AuthService) {
+  return (socket: Socket, next: (err?: Error) => void) => {
+    const handshakeToken: unknown = socket.handshake.auth?.token;
+    const token =
+      typeof handshakeToken === 'string' && handshakeToken
+        ? handshakeToken
+        : extractBearer(socket.handshake.headers.authorization);
+
+    auth.verify(token).then(
+      (user) => {
+        (socket.data as { user?: RequestUser }).user = user;
+        next();
+      },
+      (e) => next(new Error(e instanceof Error ? e.message : 'Unauthorized')),
+    );
+  };
+}
@@ -0,0 +1,51 @@
+//Access policies a channel can be configured with.
+type ChannelVisibility = 'PUBLIC' | 'PRIVATE' | 'ROLE_RESTRICTED';
+
+//Global user roles.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+/**
+ * Checks whether access to a channel depends on an explicit membership.
+ *
+ * Only PRIVATE channels do; in other channels a membership merely carries
+ * a channel role.
+ *
+ * @param channel Channel access policy
+ * @returns Whether only members may access the channel
+ */
+export function requiresMembership(channel: {
+  visibility: ChannelVisibility;
+}): boolean {
+  return channel.visibility === 'PRIVATE';
+}
+
+/**
+ * Evaluates the access policy of a channel for a user.
+ *
+ * Administrators can access every channel. PRIVATE channels
+ * additionally require an explicit membership.
+ *
+ * @param channel Channel access policy
+ * @param user User requesting access
+ * @param isMember Whether the user is a member of the channel
+ * @returns Whether the user may access the channel
+ */
+export function canAccessChannel(
+  channel: { visibility: ChannelVisibility; allowedRoles: Role[] },
+  user: { role: Role },
+  isMember = false,
+): boolean {
+  // Administrators bypass channel policies
+  if (user.role === 'ADMIN') return true;
+
+  switch (channel.visibility) {
+    case 'PUBLIC':
+      return true;
+    case 'ROLE_RESTRICTED':
+      return channel.allowedRoles.includes(user.role);
+    case 'PRIVATE':
+      return isMember;
+    default:
+      return false;
+  }
+}
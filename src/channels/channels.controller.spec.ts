@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ChannelsController } from './channels.controller';
+import { ChannelsService } from './channels.service';
+import { AuthService } from '../auth/auth.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+describe('ChannelsController', () => {
+  let controller: ChannelsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ChannelsController],
+      providers: [
+        { provide: ChannelsService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+        { provide: PermissionsService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<ChannelsController>(ChannelsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ChannelsService } from './channels.service';
+import { CreateChannelDto } from './dto/create-channel.dto';
+import { RenameChannelDto } from './dto/rename-channel.dto';
+import { ListChannelsQueryDto } from './dto/list-channels.query';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import { UpdatePermissionsDto } from './dto/update-permissions.dto';
+import { UpdateChannelSettingsDto } from './dto/update-settings.dto';
+import type { RequestUser } from '../auth/request-user';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { PermissionsService } from '../permissions/permissions.service';
+import { PermissionsGuard } from '../permissions/permissions.guard';
+import { RequirePermission } from '../permissions/require-permission.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+
+/**
+ * HTTP controller for channel management.
+ *
+ * Every authenticated user can list the channels they have access to and
+ * create PRIVATE group channels (`channel.create.private`). Creating other
+ * channels, renaming, archiving and changing permissions require the
+ * matching permissions. Members of a channel are managed by its owners and
+ * moderators.
+ */
+@Controller('channels')
+@UseGuards(JwtAuthGuard, PermissionsGuard, RateLimitGuard)
+export class ChannelsController {
+  /**
+   * Creates a new ChannelsController.
+   *
+   * @param channels Channels service providing business logic and persistence
+   * @param permissions Service resolving effective permissions
+   */
+  constructor(
+    private readonly channels: ChannelsService,
+    private readonly permissions: PermissionsService,
+  ) {}
+
+  /**
+   * Lists all channels accessible to the authenticated user.
+   *
+   * @param q Query parameters
+   * @param user Authenticated user
+   * @returns A list of channels
+   */
+  @Get()
+  async list(
+    @Query() q: ListChannelsQueryDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.channels.listChannels(user, q.includeArchived === 'true');
+  }
+
+  /**
+   * Creates a new channel.
+   *
+   * PRIVATE channels (group conversations) require `channel.create.private`,
+   * other channels `channel.create`. The creator becomes the channel owner.
+   *
+   * @param dto Channel creation payload
+   * @param user Authenticated user
+   * @returns The created channel
+   */
+  @Post()
+  async create(
+    @Body() dto: CreateChannelDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    // Private group channels have their own permission
+    await this.permissions.assert(
+      user,
+      dto.visibility === 'PRIVATE'
+        ? 'channel.create.private'
+        : 'channel.create',
+    );
+
+    return this.channels.createChannel(dto, user);
+  }
+
+  /**
+   * Renames a channel (display name only).
+   *
+   * Requires `channel.rename` in the channel.
+   *
+   * @param slug Channel slug
+   * @param dto Rename payload
+   * @param user Authenticated user
+   * @returns The updated channel
+   */
+  @Patch(':slug')
+  @RequirePermission('channel.rename', { channel: 'params.slug' })
+  async rename(
+    @Param('slug') slug: string,
+    @Body() dto: RenameChannelDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.channels.renameChannel(slug, dto.name, user);
+  }
+
+  /**
+   * Archives a channel, making it read-only.
+   *
+   * Requires `channel.archive` in the channel.
+   *
+   * @param slug Channel slug
+   * @param user Authenticated user
+   * @returns The archived channel
+   */
+  @Post(':slug/archive')
+  @RequirePermission('channel.archive', { channel: 'params.slug' })
+  async archive(@Param('slug') slug: string, @CurrentUser() user: RequestUser) {
+    return this.channels.archiveChannel(slug, user);
+  }
+
+  /**
+   * Replaces the permission overrides of a channel.
+   *
+   * Requires `channel.permissions.manage` in the channel.
+   *
+   * @param slug Channel slug
+   * @param dto Overrides per global and channel role
+   * @param user Authenticated user
+   * @returns The updated channel
+   */
+  @Put(':slug/permissions')
+  @RequirePermission('channel.permissions.manage', { channel: 'params.slug' })
+  async setPermissions(
+    @Param('slug') slug: string,
+    @Body() dto: UpdatePermissionsDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.channels.setPermissionOverrides(slug, dto, user);
+  }
+
+  /**
+   * Updates the settings of a channel (e.g. the maximum message length).
+   *
+   * Requires `channel.configure` in the channel.
+   *
+   * @param slug Channel slug
+   * @param dto Settings to change
+   * @param user Authenticated user
+   * @returns The updated channel
+   */
+  @Patch(':slug/settings')
+  @RequirePermission('channel.configure', { channel: 'params.slug' })
+  async updateSettings(
+    @Param('slug') slug: string,
+    @Body() dto: UpdateChannelSettingsDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.channels.updateSettings(slug, dto, user);
+  }
+
+  /**
+   * Lists the members of a channel.
+   *
+   * @param slug Channel slug
+   * @param user Authenticated user
+   * @returns A list of memberships
+   */
+  @Get(':slug/members')
+  async members(@Param('slug') slug: string, @CurrentUser() user: RequestUser) {
+    return this.channels.listMembers(slug, user);
+  }
+
+  /**
+   * Adds a user to a channel.
+   *
+   * Restricted to administrators and the channel's owners and moderators.
+   *
+   * @param slug Channel slug
+   * @param dto Invitation payload
+   * @param user Authenticated user
+   * @returns The created membership
+   */
+  @Post(':slug/members')
+  async invite(
+    @Param('slug') slug: string,
+    @Body() dto: InviteMemberDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.channels.inviteMember(slug, user, dto);
+  }
+
+  /**
+   * Removes a user from a channel.
+   *
+   * Restricted to administrators and the channel's owners and moderators.
+   *
+   * @param slug Channel slug
+   * @param userId User to remove
+   * @param user Authenticated user
+   * @returns The removal result
+   */
+  @Delete(':slug/members/:userId')
+  async kick(
+    @Param('slug') slug: string,
+    @Param('userId') userId: string,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.channels.kickMember(slug, user, userId);
+  }
+
+  /**
+   * Removes the authenticated user from a channel.
+   *
+   * @param slug Channel slug
+   * @param user Authenticated user
+   * @returns The removal result
+   */
+  @Post(':slug/leave')
+  async leave(@Param('slug') slug: string, @CurrentUser() user: RequestUser) {
+    return this.channels.leaveChannel(slug, user);
+  }
+}
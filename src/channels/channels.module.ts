@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ChannelsService } from './channels.service';
+import { ChannelsController } from './channels.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule, PermissionsModule],
+  controllers: [ChannelsController],
+  providers: [ChannelsService],
+  exports: [ChannelsService],
+})
+export class ChannelsModule {}
@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ChannelsService } from './channels.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('ChannelsService', () => {
+  let service: ChannelsService;
+  let prisma: {
+    channel: { findUnique: jest.Mock; create: jest.Mock };
+    channelMember: {
+      findUnique: jest.Mock;
+      delete: jest.Mock;
+      create: jest.Mock;
+    };
+  };
+  let events: EventsService;
+  let audit: { record: jest.Mock };
+
+  const support = {
+    id: 'c-support',
+    slug: 'support',
+    visibility: 'ROLE_RESTRICTED' as const,
+    allowedRoles: ['ADMIN' as const],
+    createdById: 'system',
+    archivedAt: null,
+  };
+
+  beforeEach(async () => {
+    audit = { record: jest.fn() };
+    prisma = {
+      channel: { findUnique: jest.fn(), create: jest.fn() },
+      channelMember: {
+        findUnique: jest.fn(),
+        delete: jest.fn(),
+        create: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChannelsService,
+        EventsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditService, useValue: audit },
+      ],
+    }).compile();
+
+    service = module.get<ChannelsService>(ChannelsService);
+    events = module.get<EventsService>(EventsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('makes the creator owner and records the creation', async () => {
+    const admin = { id: 'a1', role: 'ADMIN' as const };
+    prisma.channel.findUnique.mockResolvedValue(null);
+    prisma.channel.create.mockResolvedValue(support);
+
+    await service.createChannel(
+      { slug: 'support', name: 'Support', visibility: 'ROLE_RESTRICTED' },
+      admin,
+    );
+
+    expect(prisma.channel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          createdById: 'a1',
+          members: { create: { userId: 'a1', role: 'OWNER' } },
+        }) as unknown,
+      }),
+    );
+    expect(audit.record).toHaveBeenCalledWith({
+      actor: admin,
+      action: 'channel.create',
+      target: { type: 'channel', id: 'support', channelKey: 'support' },
+      after: support,
+    });
+  });
+
+  it('applies role restrictions from the channel policy', async () => {
+    prisma.channel.findUnique.mockResolvedValue(support);
+
+    await expect(
+      service.assertAccess('support', { id: 'u1', role: 'USER' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      service.assertAccess('support', { id: 'a1', role: 'ADMIN' }),
+    ).resolves.toBe(support);
+  });
+
+  it('restricts private channels to their members', async () => {
+    const team = { ...support, slug: 'team', visibility: 'PRIVATE' as const };
+    prisma.channel.findUnique.mockResolvedValue(team);
+
+    prisma.channelMember.findUnique.mockResolvedValueOnce({ role: 'MEMBER' });
+    await expect(
+      service.assertAccess('team', { id: 'u1', role: 'USER' }),
+    ).resolves.toBe(team);
+
+    prisma.channelMember.findUnique.mockResolvedValueOnce(null);
+    await expect(
+      service.assertAccess('team', { id: 'u2', role: 'USER' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('prevents moderators from removing other moderators', async () => {
+    prisma.channel.findUnique.mockResolvedValue(support);
+    prisma.channelMember.findUnique
+      .mockResolvedValueOnce({ role: 'MODERATOR' })
+      .mockResolvedValueOnce({ role: 'MODERATOR' });
+
+    await expect(
+      service.kickMember('support', { id: 'm1', role: 'USER' }, 'm2'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(prisma.channelMember.delete).not.toHaveBeenCalled();
+  });
+
+  it('announces removed members', async () => {
+    const removed = jest.fn();
+    events.on('channel.member.removed').subscribe(removed);
+    prisma.channel.findUnique.mockResolvedValue({
+      ...support,
+      slug: 'team',
+      visibility: 'PRIVATE',
+    });
+    prisma.channelMember.findUnique.mockResolvedValue({ role: 'MEMBER' });
+
+    await service.leaveChannel('team', { id: 'u1', role: 'USER' });
+
+    expect(removed).toHaveBeenCalledWith({
+      channelKey: 'team',
+      userId: 'u1',
+    });
+  });
+
+  it('only invites and removes regular members in private channels', async () => {
+    prisma.channel.findUnique.mockResolvedValue(support);
+    prisma.channelMember.findUnique.mockResolvedValue({ role: 'MEMBER' });
+
+    await expect(
+      service.kickMember('support', { id: 'a1', role: 'ADMIN' }, 'u1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.leaveChannel('support', { id: 'u1', role: 'USER' }),
+    ).resolves.toEqual({ removed: false, channelKey: 'support', userId: 'u1' });
+    expect(prisma.channelMember.delete).not.toHaveBeenCalled();
+
+    prisma.channelMember.findUnique.mockResolvedValue(null);
+    await expect(
+      service.inviteMember(
+        'support',
+        { id: 'a1', role: 'ADMIN' },
+        { userId: 'u2' },
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.channelMember.create).not.toHaveBeenCalled();
+  });
+
+  it('throws for unknown channels', async () => {
+    prisma.channel.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.assertAccess('missing', { id: 'u1', role: 'USER' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('rejects posting into archived channels', () => {
+    expect(() => service.assertWritable({ archivedAt: new Date() })).toThrow(
+      ForbiddenException,
+    );
+  });
+});
@@ -0,0 +1,626 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+import { canAccessChannel, requiresMembership } from './channel-policy';
+import { parsePermissionOverrides } from '../permissions/permissions';
+import { AuditService } from '../audit/audit.service';
+
+//Allowed user roles within the channel domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//Access policies a channel can be configured with.
+export type ChannelVisibility = 'PUBLIC' | 'PRIVATE' | 'ROLE_RESTRICTED';
+
+//Role of a user within a single channel.
+export type ChannelMemberRole = 'OWNER' | 'MODERATOR' | 'MEMBER';
+
+//User descriptor used for channel access decisions.
+type ChannelUser = { id: string; role: Role };
+
+//Subset of channel fields required to evaluate its access policy.
+type ChannelPolicy = {
+  visibility: ChannelVisibility;
+  allowedRoles: Role[];
+};
+
+//Longest configurable message length of a channel.
+const MAX_MESSAGE_LENGTH_LIMIT = 10000;
+
+//Fields returned for every channel read through this service.
+const CHANNEL_SELECT = {
+  id: true,
+  slug: true,
+  name: true,
+  visibility: true,
+  allowedRoles: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true,
+  archivedAt: true,
+  permissionOverrides: true,
+  slowModeSeconds: true,
+  maxMessageLength: true,
+} as const;
+
+//Fields returned for every channel membership read through this service.
+const MEMBER_SELECT = {
+  userId: true,
+  role: true,
+  addedById: true,
+  joinedAt: true,
+} as const;
+
+/**
+ * Service responsible for channel management and channel access policies.
+ *
+ * Channels are stored in the database and identified by their slug,
+ * which is also used as Socket.IO room name and as `Message.channelKey`.
+ */
+@Injectable()
+export class ChannelsService {
+  /**
+   * Creates a new ChannelsService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param events Event bus used to announce membership changes
+   * @param audit Audit log recording administrative actions
+   */
+  constructor(
+    private prisma: PrismaService,
+    private events: EventsService,
+    private audit: AuditService,
+  ) {}
+
+  /**
+   * Loads a channel by its slug.
+   *
+   * Throws a NotFoundException if the channel does not exist.
+   *
+   * @param slug Channel slug
+   * @returns The channel with selected fields
+   */
+  async findBySlugOrFail(slug: string) {
+    const channel = await this.prisma.channel.findUnique({
+      where: { slug },
+      select: CHANNEL_SELECT,
+    });
+
+    // Fail if channel does not exist
+    if (!channel) throw new NotFoundException('Channel not found');
+
+    return channel;
+  }
+
+  /**
+   * Loads the membership of a user in a channel.
+   *
+   * @param channelId Channel primary key
+   * @param userId User identifier
+   * @returns The membership or null if the user is not a member
+   */
+  async findMembership(channelId: string, userId: string) {
+    return this.prisma.channelMember.findUnique({
+      where: { channelId_userId: { channelId, userId } },
+      select: MEMBER_SELECT,
+    });
+  }
+
+  /**
+   * Evaluates the access policy of a channel for a user.
+   *
+   * Administrators can access every channel. PRIVATE channels
+   * additionally require an explicit membership.
+   *
+   * @param channel Channel access policy
+   * @param user User requesting access
+   * @param isMember Whether the user is a member of the channel
+   * @returns Whether the user may access the channel
+   */
+  canAccess(
+    channel: ChannelPolicy,
+    user: ChannelUser,
+    isMember = false,
+  ): boolean {
+    return canAccessChannel(channel, user, isMember);
+  }
+
+  /**
+   * Asserts that a user has access to a given channel.
+   *
+   * Throws a NotFoundException if the channel does not exist and a
+   * ForbiddenException if the channel policy denies access.
+   *
+   * @param slug Channel slug
+   * @param user User requesting access
+   * @returns The channel with selected fields
+   */
+  async assertAccess(slug: string, user: ChannelUser) {
+    const channel = await this.findBySlugOrFail(slug);
+
+    // Membership only matters for PRIVATE channels
+    const isMember =
+      channel.visibility === 'PRIVATE' &&
+      !!(await this.findMembership(channel.id, user.id));
+
+    // Enforce the channel's access policy
+    if (!this.canAccess(channel, user, isMember)) {
+      throw new ForbiddenException(`No access to ${slug} channel`);
+    }
+
+    return channel;
+  }
+
+  /**
+   * Asserts that new content may be posted into a channel.
+   *
+   * @param channel Channel to check
+   */
+  assertWritable(channel: { archivedAt: Date | null }) {
+    // Archived channels are read-only
+    if (channel.archivedAt) throw new ForbiddenException('Channel is archived');
+  }
+
+  /**
+   * Lists all channels the user has access to.
+   *
+   * PRIVATE channels are only listed for their members.
+   *
+   * @param user User listing the channels
+   * @param includeArchived Whether archived channels are included
+   * @returns List of accessible channels ordered by creation time
+   */
+  async listChannels(user: ChannelUser, includeArchived = false) {
+    return this.prisma.channel.findMany({
+      where: {
+        ...(includeArchived ? {} : { archivedAt: null }),
+
+        // Apply the access policy in the query for non-admins
+        ...(user.role === 'ADMIN'
+          ? {}
+          : {
+              OR: [
+                { visibility: 'PUBLIC' as const },
+                {
+                  visibility: 'ROLE_RESTRICTED' as const,
+                  allowedRoles: { has: user.role },
+                },
+                {
+                  visibility: 'PRIVATE' as const,
+                  members: { some: { userId: user.id } },
+                },
+              ],
+            }),
+      },
+      orderBy: { createdAt: 'asc' },
+      select: CHANNEL_SELECT,
+    });
+  }
+
+  /**
+   * Creates a new channel.
+   *
+   * The creator becomes the channel OWNER. The creation is recorded in
+   * the audit log.
+   * Throws a ConflictException if the slug is already taken.
+   *
+   * @param input Channel creation payload
+   * @param actor User creating the channel
+   * @returns The newly created channel
+   */
+  async createChannel(
+    input: {
+      slug: string;
+      name: string;
+      visibility?: ChannelVisibility;
+      allowedRoles?: Role[];
+    },
+    actor: ChannelUser,
+  ) {
+    // Slugs are unique and immutable
+    const existing = await this.prisma.channel.findUnique({
+      where: { slug: input.slug },
+      select: { id: true },
+    });
+    if (existing) throw new ConflictException('Channel slug already in use');
+
+    const channel = await this.prisma.channel.create({
+      data: {
+        slug: input.slug,
+        name: input.name,
+        visibility: input.visibility ?? 'PUBLIC',
+        allowedRoles: input.allowedRoles ?? [],
+        createdById: actor.id,
+        members: { create: { userId: actor.id, role: 'OWNER' } },
+      },
+      select: CHANNEL_SELECT,
+    });
+
+    await this.audit.record({
+      actor,
+      action: 'channel.create',
+      target: { type: 'channel', id: channel.slug, channelKey: channel.slug },
+      after: channel,
+    });
+    return channel;
+  }
+
+  /**
+   * Changes the display name of a channel.
+   *
+   * @param slug Channel slug
+   * @param name New display name
+   * @param actor User renaming the channel
+   * @returns The updated channel
+   */
+  async renameChannel(slug: string, name: string, actor: ChannelUser) {
+    // Ensure the channel exists
+    const before = await this.findBySlugOrFail(slug);
+
+    const updated = await this.prisma.channel.update({
+      where: { slug },
+      data: { name },
+      select: CHANNEL_SELECT,
+    });
+
+    await this.recordChange(actor, 'channel.rename', before, updated);
+    return updated;
+  }
+
+  /**
+   * Archives a channel, making it read-only.
+   *
+   * Archiving an already archived channel keeps the original timestamp.
+   *
+   * @param slug Channel slug
+   * @param actor User archiving the channel
+   * @returns The archived channel
+   */
+  async archiveChannel(slug: string, actor: ChannelUser) {
+    const channel = await this.findBySlugOrFail(slug);
+    if (channel.archivedAt) return channel;
+
+    const archived = await this.prisma.channel.update({
+      where: { slug },
+      data: { archivedAt: new Date() },
+      select: CHANNEL_SELECT,
+    });
+
+    await this.recordChange(actor, 'channel.archive', channel, archived);
+    return archived;
+  }
+
+  /**
+   * Replaces the permission overrides of a channel.
+   *
+   * Throws a BadRequestException for unknown roles or permissions, or
+   * for permissions that cannot be scoped to a channel.
+   *
+   * @param slug Channel slug
+   * @param input Overrides (`{ roles?, members? }`)
+   * @param actor User changing the overrides
+   * @returns The updated channel
+   */
+  async setPermissionOverrides(
+    slug: string,
+    input: unknown,
+    actor: ChannelUser,
+  ) {
+    const overrides = parsePermissionOverrides(input);
+    if (!overrides)
+      throw new BadRequestException('Invalid permission overrides');
+
+    // Ensure the channel exists
+    const before = await this.findBySlugOrFail(slug);
+
+    const updated = await this.prisma.channel.update({
+      where: { slug },
+      data: { permissionOverrides: overrides },
+      select: CHANNEL_SELECT,
+    });
+
+    await this.recordChange(
+      actor,
+      'channel.permissions.update',
+      before,
+      updated,
+    );
+    return updated;
+  }
+
+  /**
+   * Updates the settings of a channel.
+   *
+   * Omitted settings are left unchanged; a `null` maximum message length
+   * restores the global default (`MESSAGE_MAX_LENGTH`).
+   *
+   * @param slug Channel slug
+   * @param input Settings to change
+   * @param actor User changing the settings
+   * @returns The updated channel
+   */
+  async updateSettings(
+    slug: string,
+    input: { maxMessageLength?: number | null },
+    actor: ChannelUser,
+  ) {
+    const { maxMessageLength } = input;
+    if (
+      maxMessageLength !== undefined &&
+      maxMessageLength !== null &&
+      (!Number.isInteger(maxMessageLength) ||
+        maxMessageLength < 1 ||
+        maxMessageLength > MAX_MESSAGE_LENGTH_LIMIT)
+    ) {
+      throw new BadRequestException('Invalid maximum message length');
+    }
+
+    // Ensure the channel exists
+    const before = await this.findBySlugOrFail(slug);
+
+    const updated = await this.prisma.channel.update({
+      where: { slug },
+      data: {
+        ...(maxMessageLength !== undefined ? { maxMessageLength } : {}),
+      },
+      select: CHANNEL_SELECT,
+    });
+
+    await this.recordChange(actor, 'channel.settings.update', before, updated);
+    return updated;
+  }
+
+  /**
+   * Lists the members of a channel.
+   *
+   * @param slug Channel slug
+   * @param user User requesting the list (must have channel access)
+   * @returns List of memberships ordered by join time
+   */
+  async listMembers(slug: string, user: ChannelUser) {
+    const channel = await this.assertAccess(slug, user);
+
+    return this.prisma.channelMember.findMany({
+      where: { channelId: channel.id },
+      orderBy: { joinedAt: 'asc' },
+      select: MEMBER_SELECT,
+    });
+  }
+
+  /**
+   * Asserts that a user may manage the members of a channel.
+   *
+   * Administrators, owners and moderators may manage members.
+   *
+   * @param channelId Channel primary key
+   * @param actor User performing the operation
+   * @returns The effective channel role of the actor
+   */
+  private async assertCanManageMembers(
+    channelId: string,
+    actor: ChannelUser,
+  ): Promise<ChannelMemberRole> {
+    // Administrators act with owner privileges
+    if (actor.role === 'ADMIN') return 'OWNER';
+
+    const membership = await this.findMembership(channelId, actor.id);
+    if (!membership || membership.role === 'MEMBER') {
+      throw new ForbiddenException('Only owners and moderators manage members');
+    }
+
+    return membership.role;
+  }
+
+  /**
+   * Adds a user to a channel.
+   *
+   * Only owners (and administrators) may appoint moderators. Regular
+   * members can only be invited to PRIVATE channels, since memberships
+   * without a channel role have no effect elsewhere.
+   * Throws a ConflictException if the user is already a member.
+   *
+   * @param slug Channel slug
+   * @param actor User performing the invitation
+   * @param input Invited user and optional channel role
+   * @returns The created membership
+   */
+  async inviteMember(
+    slug: string,
+    actor: ChannelUser,
+    input: { userId: string; role?: 'MODERATOR' | 'MEMBER' },
+  ) {
+    const channel = await this.findBySlugOrFail(slug);
+    this.assertWritable(channel);
+
+    const actorRole = await this.assertCanManageMembers(channel.id, actor);
+    const role = input.role ?? 'MEMBER';
+
+    // Appointing moderators is reserved to owners
+    if (role === 'MODERATOR' && actorRole !== 'OWNER') {
+      throw new ForbiddenException('Only owners can appoint moderators');
+    }
+    if (role === 'MEMBER' && !requiresMembership(channel)) {
+      throw new BadRequestException(
+        'Members can only be invited to private channels',
+      );
+    }
+
+    const existing = await this.findMembership(channel.id, input.userId);
+    if (existing) throw new ConflictException('User is already a member');
+
+    const membership = await this.prisma.channelMember.create({
+      data: {
+        channelId: channel.id,
+        userId: input.userId,
+        role,
+        addedById: actor.id,
+      },
+      select: MEMBER_SELECT,
+    });
+
+    await this.audit.record({
+      actor,
+      action: 'channel.member.add',
+      target: { type: 'user', id: input.userId, channelKey: slug },
+      after: membership,
+    });
+    return membership;
+  }
+
+  /**
+   * Removes a user from a channel.
+   *
+   * Owners cannot be removed; moderators can only remove regular members.
+   * Regular members can only be removed from PRIVATE channels, since other
+   * channels stay accessible without membership (ban users there instead).
+   *
+   * @param slug Channel slug
+   * @param actor User performing the removal
+   * @param userId User to remove
+   * @returns Removal result metadata
+   */
+  async kickMember(slug: string, actor: ChannelUser, userId: string) {
+    const channel = await this.findBySlugOrFail(slug);
+    const actorRole = await this.assertCanManageMembers(channel.id, actor);
+
+    const membership = await this.findMembership(channel.id, userId);
+    if (!membership) throw new NotFoundException('Member not found');
+
+    // Protect owners and restrict moderators to regular members
+    if (membership.role === 'OWNER') {
+      throw new ForbiddenException('The channel owner cannot be removed');
+    }
+    if (actorRole === 'MODERATOR' && membership.role !== 'MEMBER') {
+      throw new ForbiddenException('Moderators can only remove members');
+    }
+    this.assertMembershipRemovable(channel, membership);
+
+    const result = await this.removeMember(channel, userId);
+
+    await this.audit.record({
+      actor,
+      action: 'channel.member.remove',
+      target: { type: 'user', id: userId, channelKey: slug },
+      before: membership,
+    });
+    return result;
+  }
+
+  /**
+   * Removes the calling user from a channel.
+   *
+   * Owners cannot leave their own channel. Users without a membership that
+   * takes effect (regular members outside PRIVATE channels) keep their
+   * state and get `removed: false`.
+   *
+   * @param slug Channel slug
+   * @param user User leaving the channel
+   * @returns Removal result metadata
+   */
+  async leaveChannel(slug: string, user: ChannelUser) {
+    const channel = await this.findBySlugOrFail(slug);
+
+    const membership = await this.findMembership(channel.id, user.id);
+    if (!membership || !this.isMembershipRemovable(channel, membership)) {
+      return { removed: false, channelKey: channel.slug, userId: user.id };
+    }
+
+    if (membership.role === 'OWNER') {
+      throw new ForbiddenException('The channel owner cannot leave');
+    }
+
+    return this.removeMember(channel, user.id);
+  }
+
+  /**
+   * Checks whether removing a membership takes effect.
+   *
+   * Removing a regular member from a channel that does not require
+   * membership would neither revoke access nor a channel role.
+   *
+   * @param channel Channel the membership belongs to
+   * @param membership Membership to remove
+   * @returns Whether the membership can be removed
+   */
+  private isMembershipRemovable(
+    channel: { visibility: ChannelVisibility },
+    membership: { role: ChannelMemberRole },
+  ): boolean {
+    return membership.role !== 'MEMBER' || requiresMembership(channel);
+  }
+
+  /**
+   * Asserts that removing a membership takes effect.
+   *
+   * Throws a BadRequestException otherwise.
+   *
+   * @param channel Channel the membership belongs to
+   * @param membership Membership to remove
+   */
+  private assertMembershipRemovable(
+    channel: { visibility: ChannelVisibility },
+    membership: { role: ChannelMemberRole },
+  ) {
+    if (!this.isMembershipRemovable(channel, membership)) {
+      throw new BadRequestException(
+        'Members can only be removed from private channels',
+      );
+    }
+  }
+
+  /**
+   * Records a change of channel attributes in the audit log.
+   *
+   * @param actor User performing the change
+   * @param action Audited action
+   * @param before Channel before the change
+   * @param after Channel after the change
+   */
+  private async recordChange(
+    actor: ChannelUser,
+    action:
+      | 'channel.rename'
+      | 'channel.archive'
+      | 'channel.permissions.update'
+      | 'channel.settings.update',
+    before: { slug: string },
+    after: { slug: string },
+  ) {
+    await this.audit.record({
+      actor,
+      action,
+      target: { type: 'channel', id: before.slug, channelKey: before.slug },
+      before,
+      after,
+    });
+  }
+
+  /**
+   * Deletes a membership and announces the removal.
+   *
+   * @param channel Channel the user is removed from
+   * @param userId Removed user
+   * @returns Removal result metadata
+   */
+  private async removeMember(
+    channel: { id: string; slug: string },
+    userId: string,
+  ) {
+    await this.prisma.channelMember.delete({
+      where: { channelId_userId: { channelId: channel.id, userId } },
+    });
+
+    // Let realtime consumers evict the user's sockets from the room
+    this.events.publish('channel.member.removed', {
+      channelKey: channel.slug,
+      userId,
+    });
+
+    return { removed: true, channelKey: channel.slug, userId };
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+} from 'class-validator';
+
+/**
+ * Pattern every channel slug must match.
+ *
+ * Lowercase letters, digits and dashes, starting with a letter or digit.
+ */
+export const CHANNEL_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+/**
+ * Data Transfer Object (DTO) for creating a channel.
+ *
+ * This DTO validates the request body of the `POST /channels` endpoint.
+ */
+export class CreateChannelDto {
+  /**
+   * Stable identifier of the channel.
+   *
+   * Used as Socket.IO room name and cannot be changed later.
+   */
+  @IsString()
+  @Matches(CHANNEL_SLUG_PATTERN)
+  slug!: string;
+
+  /**
+   * Human-readable display name.
+   */
+  @IsString()
+  @Length(1, 100)
+  name!: string;
+
+  /**
+   * Optional access policy (defaults to PUBLIC).
+   */
+  @IsOptional()
+  @IsIn(['PUBLIC', 'PRIVATE', 'ROLE_RESTRICTED'])
+  visibility?: 'PUBLIC' | 'PRIVATE' | 'ROLE_RESTRICTED';
+
+  /**
+   * Roles allowed to access a ROLE_RESTRICTED channel.
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(['USER', 'MODERATOR', 'ADMIN'], { each: true })
+  allowedRoles?: ('USER' | 'MODERATOR' | 'ADMIN')[];
+}
@@ -0,0 +1,23 @@
+import { IsIn, IsOptional, IsString, Length } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for adding a member to a channel.
+ *
+ * This DTO validates the request body of the
+ * `POST /channels/:slug/members` endpoint.
+ */
+export class InviteMemberDto {
+  /**
+   * ID of the user to add (JWT `sub` of that user).
+   */
+  @IsString()
+  @Length(1, 200)
+  userId!: string;
+
+  /**
+   * Optional channel role (defaults to MEMBER).
+   */
+  @IsOptional()
+  @IsIn(['MODERATOR', 'MEMBER'])
+  role?: 'MODERATOR' | 'MEMBER';
+}
@@ -0,0 +1,16 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for listing channels.
+ *
+ * This DTO validates and describes the supported query parameters
+ * for the `GET /channels` endpoint.
+ */
+export class ListChannelsQueryDto {
+  /**
+   * Whether archived channels should be included in the result.
+   */
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  includeArchived?: 'true' | 'false';
+}
@@ -0,0 +1,15 @@
+import { IsString, Length } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for renaming a channel.
+ *
+ * Only the display name can be changed; the slug stays stable.
+ */
+export class RenameChannelDto {
+  /**
+   * New human-readable display name.
+   */
+  @IsString()
+  @Length(1, 100)
+  name!: string;
+}
@@ -0,0 +1,24 @@
+import { IsObject, IsOptional } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for the permission overrides of a channel.
+ *
+ * Each entry replaces the channel-scoped permissions of a role within the
+ * channel; roles without entry keep their defaults. The permission names
+ * are validated by the service.
+ */
+export class UpdatePermissionsDto {
+  /**
+   * Replacements for global roles (`USER`, `MODERATOR`).
+   */
+  @IsOptional()
+  @IsObject()
+  roles?: Record<string, string[]>;
+
+  /**
+   * Replacements for channel roles (`OWNER`, `MODERATOR`, `MEMBER`).
+   */
+  @IsOptional()
+  @IsObject()
+  members?: Record<string, string[]>;
+}
@@ -0,0 +1,18 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for the settings of a channel.
+ *
+ * This DTO validates the request body of the
+ * `PATCH /channels/:slug/settings` endpoint.
+ */
+export class UpdateChannelSettingsDto {
+  /**
+   * Maximum message length in the channel (null restores the default).
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  maxMessageLength?: number | null;
+}
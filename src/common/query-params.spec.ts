@@ -0,0 +1,30 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseDateFilter, parseTake } from './query-params';
+
+describe('query params', () => {
+  const limits = { defaultSize: 50, maxSize: 100 };
+
+  it('parses page sizes from query strings', () => {
+    expect(parseTake('10', limits)).toBe(10);
+    expect(parseTake(25, limits)).toBe(25);
+    expect(parseTake(undefined, limits)).toBe(50);
+    expect(parseTake('', limits)).toBe(50);
+  });
+
+  it('rejects page sizes out of range', () => {
+    for (const take of ['0', '101', '1.5', 'ten']) {
+      expect(() => parseTake(take, limits)).toThrow(BadRequestException);
+    }
+  });
+
+  it('parses ISO dates and epoch milliseconds', () => {
+    expect(parseDateFilter('2026-01-01T00:00:00.000Z')).toEqual(
+      new Date('2026-01-01T00:00:00.000Z'),
+    );
+    expect(parseDateFilter('1767225600000')).toEqual(
+      new Date('2026-01-01T00:00:00.000Z'),
+    );
+    expect(parseDateFilter('')).toBeUndefined();
+    expect(() => parseDateFilter('yesterday')).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,48 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Parsers for query parameters shared by the REST endpoints.
+ *
+ * Requests are not run through a ValidationPipe, so query values arrive
+ * as strings. These helpers convert and bound-check them and throw a
+ * BadRequestException for invalid values.
+ */
+
+//Default and largest page size of a paged listing.
+export type PageSizeLimits = { defaultSize: number; maxSize: number };
+
+/**
+ * Parses a requested page size (`take`).
+ *
+ * @param take Requested page size (number or query string)
+ * @param limits Default used without a value and largest allowed size
+ * @returns Page size between 1 and the largest allowed size
+ */
+export function parseTake(
+  take: number | string | undefined,
+  limits: PageSizeLimits,
+): number {
+  if (take === undefined || take === '') return limits.defaultSize;
+
+  const size = Number(take);
+  if (!Number.isInteger(size) || size < 1 || size > limits.maxSize) {
+    throw new BadRequestException('Invalid page size');
+  }
+  return size;
+}
+
+/**
+ * Parses a date filter.
+ *
+ * @param value ISO string or epoch milliseconds
+ * @returns The date, or undefined if no value was given
+ */
+export function parseDateFilter(value?: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  const date = new Date(/^\d+$/.test(value) ? Number(value) : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException('Invalid date filter');
+  }
+  return date;
+}
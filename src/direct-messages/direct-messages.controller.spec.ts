@@ -0,0 +1,26 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DirectMessagesController } from './direct-messages.controller';
+import { DirectMessagesService } from './direct-messages.service';
+import { AuthService } from '../auth/auth.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+describe('DirectMessagesController', () => {
+  let controller: DirectMessagesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [DirectMessagesController],
+      providers: [
+        { provide: DirectMessagesService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<DirectMessagesController>(DirectMessagesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,61 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { DirectMessagesService } from './direct-messages.service';
+import { ListDirectMessagesQueryDto } from './dto/list-direct-messages.query';
+import type { RequestUser } from '../auth/request-user';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { parseTake } from '../common/query-params';
+
+/**
+ * HTTP controller for direct (one-to-one) conversations.
+ *
+ * Sending happens over the websocket gateway (`dm.send`); this controller
+ * exposes the conversation list and the message history.
+ */
+@Controller('direct-messages')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+export class DirectMessagesController {
+  /**
+   * Creates a new DirectMessagesController.
+   *
+   * @param directMessages Service providing direct conversation logic
+   */
+  constructor(private readonly directMessages: DirectMessagesService) {}
+
+  /**
+   * Lists the direct conversations of the authenticated user.
+   *
+   * @param user Authenticated user
+   * @returns A list of conversations
+   */
+  @Get()
+  async conversations(@CurrentUser() user: RequestUser) {
+    return this.directMessages.listConversations(user.id);
+  }
+
+  /**
+   * Lists the messages exchanged with another user.
+   *
+   * @param userId The other participant of the conversation
+   * @param q Query parameters (pagination)
+   * @param user Authenticated user
+   * @returns A list of direct messages
+   */
+  @Get(':userId')
+  async list(
+    @Param('userId') userId: string,
+    @Query() q: ListDirectMessagesQueryDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    // Apply default page size if none provided, reject invalid sizes
+    const take = parseTake(q.take, { defaultSize: 50, maxSize: 100 });
+
+    return this.directMessages.listDirectMessages({
+      userId: user.id,
+      otherUserId: userId,
+      take,
+      cursor: q.cursor,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DirectMessagesService } from './direct-messages.service';
+import { DirectMessagesController } from './direct-messages.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule],
+  controllers: [DirectMessagesController],
+  providers: [DirectMessagesService],
+  exports: [DirectMessagesService],
+})
+export class DirectMessagesModule {}
@@ -0,0 +1,65 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { DirectMessagesService } from './direct-messages.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('DirectMessagesService', () => {
+  let service: DirectMessagesService;
+  let prisma: {
+    directConversation: { findUnique: jest.Mock; findMany: jest.Mock };
+    directMessage: { findMany: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      directConversation: { findUnique: jest.fn(), findMany: jest.fn() },
+      directMessage: { findMany: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DirectMessagesService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<DirectMessagesService>(DirectMessagesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('rejects messages addressed to the author', async () => {
+    await expect(
+      service.sendDirectMessage({
+        authorId: 'u1',
+        recipientId: 'u1',
+        content: 'hi',
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('looks conversations up by the normalized user pair', async () => {
+    prisma.directConversation.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.listDirectMessages({ userId: 'u2', otherUserId: 'u1', take: 10 }),
+    ).resolves.toEqual([]);
+    expect(prisma.directConversation.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userAId_userBId: { userAId: 'u1', userBId: 'u2' } },
+      }),
+    );
+  });
+
+  it('exposes the counterpart of each conversation', async () => {
+    prisma.directConversation.findMany.mockResolvedValue([
+      { id: 'c1', userAId: 'u1', userBId: 'u2' },
+    ]);
+
+    await expect(service.listConversations('u2')).resolves.toEqual([
+      { id: 'c1', userId: 'u1' },
+    ]);
+  });
+});
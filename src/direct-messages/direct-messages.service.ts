@@ -0,0 +1,142 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+//Fields returned for every direct message read through this service.
+const DIRECT_MESSAGE_SELECT = {
+  id: true,
+  conversationId: true,
+  authorId: true,
+  content: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Service responsible for one-to-one direct conversations.
+ *
+ * Conversations are identified by the (normalized) pair of user ids
+ * taken from the JWT `sub` claim and are created on the first message.
+ */
+@Injectable()
+export class DirectMessagesService {
+  /**
+   * Creates a new DirectMessagesService.
+   *
+   * @param prisma Prisma service used for database access
+   */
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Normalizes a pair of user ids into the stored order.
+   *
+   * @param a First user id
+   * @param b Second user id
+   * @returns The pair ordered as `userAId` / `userBId`
+   */
+  private normalizePair(a: string, b: string) {
+    return a < b ? { userAId: a, userBId: b } : { userAId: b, userBId: a };
+  }
+
+  /**
+   * Persists a direct message, creating the conversation if needed.
+   *
+   * @param input Direct message creation payload
+   * @returns The persisted message including the recipient id
+   */
+  async sendDirectMessage(input: {
+    authorId: string;
+    recipientId: string;
+    content: string;
+  }) {
+    // Talking to oneself is not a conversation
+    if (input.authorId === input.recipientId) {
+      throw new BadRequestException('Cannot send a direct message to yourself');
+    }
+
+    const pair = this.normalizePair(input.authorId, input.recipientId);
+    const now = new Date();
+
+    const saved = await this.prisma.$transaction(async (tx) => {
+      // Create the conversation on first message, otherwise bump it
+      const conversation = await tx.directConversation.upsert({
+        where: { userAId_userBId: pair },
+        create: { ...pair, createdAt: now, lastMessageAt: now },
+        update: { lastMessageAt: now },
+        select: { id: true },
+      });
+
+      // Persist the message itself
+      return tx.directMessage.create({
+        data: {
+          conversationId: conversation.id,
+          authorId: input.authorId,
+          content: input.content,
+          createdAt: now,
+        },
+        select: DIRECT_MESSAGE_SELECT,
+      });
+    });
+
+    return { ...saved, recipientId: input.recipientId };
+  }
+
+  /**
+   * Lists the direct conversations of a user.
+   *
+   * Conversations are returned with the most recently active first.
+   *
+   * @param userId User whose conversations are listed
+   * @returns List of conversations including the other participant's id
+   */
+  async listConversations(userId: string) {
+    const conversations = await this.prisma.directConversation.findMany({
+      where: { OR: [{ userAId: userId }, { userBId: userId }] },
+      orderBy: { lastMessageAt: 'desc' },
+      select: {
+        id: true,
+        userAId: true,
+        userBId: true,
+        createdAt: true,
+        lastMessageAt: true,
+      },
+    });
+
+    // Expose the counterpart instead of the normalized pair
+    return conversations.map(({ userAId, userBId, ...rest }) => ({
+      ...rest,
+      userId: userAId === userId ? userBId : userAId,
+    }));
+  }
+
+  /**
+   * Lists the messages exchanged between two users with pagination support.
+   *
+   * Messages are returned in reverse chronological order.
+   *
+   * @param params Query parameters including both users and pagination info
+   * @returns List of direct messages (empty if no conversation exists yet)
+   */
+  async listDirectMessages(params: {
+    userId: string;
+    otherUserId: string;
+    take: number;
+    cursor?: string;
+  }) {
+    const { userId, otherUserId, take, cursor } = params;
+
+    // Look up the conversation between both users
+    const conversation = await this.prisma.directConversation.findUnique({
+      where: { userAId_userBId: this.normalizePair(userId, otherUserId) },
+      select: { id: true },
+    });
+    if (!conversation) return [];
+
+    // Query messages with optional cursor-based pagination
+    return this.prisma.directMessage.findMany({
+      where: { conversationId: conversation.id },
+      orderBy: { createdAt: 'desc' },
+      take,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: DIRECT_MESSAGE_SELECT,
+    });
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Catalog of in-process domain events.
+ *
+ * Maps each event name to its payload shape. Services publish these events
+ * after state changes; the realtime gateway (and other consumers) subscribe
+ * to them, so REST-triggered changes reach connected sockets as well.
+ */
+export interface DomainEvents {
+  /** A user was removed from (kicked out of or left) a channel */
+  'channel.member.removed': { channelKey: string; userId: string };
+
+  /** A channel message (or thread reply) was posted */
+  'message.created': { channelKey: string; message: MessageSnapshot };
+
+  /** The content of a channel message was edited */
+  'message.updated': { channelKey: string; message: MessageSnapshot };
+
+  /** A channel message was soft-deleted */
+  'message.deleted': {
+    channelKey: string;
+    messageId: string;
+    deletedAt: Date;
+    deletedById: string;
+  };
+
+  /** A soft-deleted channel message was restored */
+  'message.restored': { channelKey: string; message: MessageSnapshot };
+
+  /** A reply was posted; carries the thread summary of the root message */
+  'thread.updated': {
+    channelKey: string;
+    parentId: string;
+    replyCount: number;
+    lastReplyAt: Date | null;
+  };
+
+  /** All messages of a channel were soft-deleted */
+  'channel.flushed': { channelKey: string; deleted: number; deletedAt: Date };
+
+  /** A reaction was added or removed; carries the new count for the emoji */
+  'reaction.updated': {
+    channelKey: string;
+    messageId: string;
+    userId: string;
+    emoji: string;
+    count: number;
+  };
+
+  /** A user moved their read pointer in a channel */
+  'message.read': {
+    channelKey: string;
+    userId: string;
+    messageId: string;
+    readAt: Date;
+  };
+
+  /** All sessions of a user were revoked by an administrator */
+  'user.sessions.revoked': {
+    userId: string;
+    revokedAt: Date;
+    revokedById: string;
+  };
+
+  /** A user was muted, banned or pardoned, or the slow mode changed */
+  'channel.moderated': ModerationEvent;
+
+  /** A user exceeded their message rate limit repeatedly and was muted */
+  'user.rate_limit.muted': {
+    userId: string;
+    mutedUntil: Date;
+    violations: number;
+  };
+
+  /** A user reported a message */
+  'report.created': { report: ReportSnapshot };
+
+  /** The open reports of a message were closed by a moderator */
+  'report.resolved': {
+    messageId: string;
+    channelKey: string;
+    status: 'DISMISSED' | 'RESOLVED';
+    action: 'DISMISS' | 'DELETE_MESSAGE' | 'MUTE_AUTHOR';
+    reportIds: string[];
+    resolvedById: string;
+    resolvedAt: Date;
+  };
+
+  /** A user was notified about a message (e.g. mentioned) */
+  'notification.created': {
+    userId: string;
+    notification: NotificationSnapshot;
+  };
+}
+
+//Moderation action taken in a channel.
+export type ModerationEvent = {
+  channelKey: string;
+  action:
+    | 'user.muted'
+    | 'user.unmuted'
+    | 'user.banned'
+    | 'user.unbanned'
+    | 'slowmode.updated';
+
+  /** Moderator who took the action */
+  actorId: string;
+
+  /** Sanctioned user (sanctions only) */
+  userId?: string;
+
+  /** End of the sanction (null for permanent bans) */
+  until?: Date | null;
+
+  reason?: string | null;
+
+  /** New minimum interval between posts (slow mode only) */
+  slowModeSeconds?: number;
+
+  at: Date;
+};
+
+//Channel message as returned by the messages service.
+export type MessageSnapshot = {
+  id: string;
+  channelKey: string;
+  [field: string]: unknown;
+};
+
+//User report as returned by the reports service.
+export type ReportSnapshot = {
+  id: string;
+  messageId: string;
+  channelKey: string;
+  reporterId: string;
+  [field: string]: unknown;
+};
+
+//Notification as created by the notifications service.
+export type NotificationSnapshot = {
+  id: string;
+  channelKey: string;
+  messageId: string;
+  [field: string]: unknown;
+};
+
+//Name of a known domain event.
+export type DomainEventName = keyof DomainEvents;
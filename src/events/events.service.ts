@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { filter, map, Observable, Subject } from 'rxjs';
+import { DomainEventName, DomainEvents } from './domain-events';
+
+//Envelope transported through the event stream.
+type DomainEventEnvelope = {
+  name: DomainEventName;
+  payload: DomainEvents[DomainEventName];
+};
+
+/**
+ * Lightweight in-process event bus.
+ *
+ * Decouples producers (services, controllers) from consumers
+ * (e.g. the realtime gateway) without introducing circular module imports.
+ */
+@Injectable()
+export class EventsService {
+  /**
+   * Underlying stream of all published events.
+   */
+  private readonly events$ = new Subject<DomainEventEnvelope>();
+
+  /**
+   * Publishes a domain event to all current subscribers.
+   *
+   * @param name Event name
+   * @param payload Event payload
+   */
+  publish<K extends DomainEventName>(name: K, payload: DomainEvents[K]) {
+    this.events$.next({ name, payload });
+  }
+
+  /**
+   * Returns a stream of payloads for a single event type.
+   *
+   * @param name Event name
+   * @returns Observable emitting the payload of every matching event
+   */
+  on<K extends DomainEventName>(name: K): Observable<DomainEvents[K]> {
+    return this.events$.pipe(
+      filter((event) => event.name === name),
+      map((event) => event.payload as DomainEvents[K]),
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { RealtimeIoAdapter } from './realtime/realtime-io.adapter';
 
 /**
  * Bootstraps the NestJS application.
@@ -15,6 +16,11 @@ async function bootstrap(): Promise<void> {
   // Create a NestJS application instance using the root AppModule
   const app = await NestFactory.create(AppModule);
 
+  // Connect the Socket.IO adapter backend (memory, redis or postgres)
+  const ioAdapter = new RealtimeIoAdapter(app);
+  await ioAdapter.connect();
+  app.useWebSocketAdapter(ioAdapter);
+
   // Determine the port from environment variables or fall back to 3003
   const port: number = Number(process.env.PORT) || 3003;
 
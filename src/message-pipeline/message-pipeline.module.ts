@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { PrismaModule } from '../prisma/prisma.module';
+import { MessagePipelineService } from './message-pipeline.service';
+import { MaxLengthStage } from './stages/max-length.stage';
+import { BlocklistStage } from './stages/blocklist.stage';
+import { LinkStage } from './stages/link.stage';
+import { MentionStage } from './stages/mention.stage';
+
+@Module({
+  imports: [DiscoveryModule, PrismaModule],
+  providers: [
+    MessagePipelineService,
+    MaxLengthStage,
+    BlocklistStage,
+    LinkStage,
+    MentionStage,
+  ],
+  exports: [MessagePipelineService],
+})
+export class MessagePipelineModule {}
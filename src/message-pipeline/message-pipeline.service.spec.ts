@@ -0,0 +1,148 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { MessagePipelineService } from './message-pipeline.service';
+import { MessageRejectedException } from './message-rejected.exception';
+import { MessageDraft, MessageStage, PipelineStage } from './message-stage';
+import { PrismaService } from '../prisma/prisma.service';
+import { MaxLengthStage } from './stages/max-length.stage';
+import { BlocklistStage } from './stages/blocklist.stage';
+import { LinkStage } from './stages/link.stage';
+import { MentionStage } from './stages/mention.stage';
+
+@Injectable()
+@PipelineStage(250)
+class ShoutStage implements MessageStage {
+  process(draft: MessageDraft) {
+    draft.content = draft.content.toUpperCase();
+  }
+}
+
+describe('MessagePipelineService', () => {
+  let module: TestingModule;
+  let service: MessagePipelineService;
+  let prisma: { channel: { findUnique: jest.Mock } };
+
+  const author = { id: 'u1', role: 'USER' as const };
+  const run = (content: string) =>
+    service.process({ channelKey: 'general', author, content });
+
+  beforeEach(async () => {
+    prisma = {
+      channel: { findUnique: jest.fn().mockResolvedValue(null) },
+    };
+
+    module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        MessagePipelineService,
+        MaxLengthStage,
+        BlocklistStage,
+        LinkStage,
+        MentionStage,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get(MessagePipelineService);
+  });
+
+  afterEach(() => {
+    delete process.env.CONTENT_LINKS;
+  });
+
+  it('trims content and extracts links and mentions', async () => {
+    await expect(
+      run('  hi @u2 and @channel, see https://example.com/a?b=1. ok @u2 '),
+    ).resolves.toEqual({
+      content: 'hi @u2 and @channel, see https://example.com/a?b=1. ok @u2',
+      links: ['https://example.com/a?b=1'],
+      mentions: ['u2', 'channel'],
+    });
+  });
+
+  it('ignores e-mail addresses as mentions', async () => {
+    const result = await run('mail me at me@example.com');
+
+    expect(result.mentions).toEqual([]);
+  });
+
+  it('rejects empty content', async () => {
+    await expect(run('   ')).rejects.toMatchObject({ code: 'content_empty' });
+  });
+
+  it('accepts empty content with attachments', async () => {
+    await expect(
+      service.process({
+        channelKey: 'general',
+        author,
+        content: '',
+        attachmentCount: 1,
+      }),
+    ).resolves.toMatchObject({ content: '' });
+  });
+
+  it('applies the maximum length of the channel', async () => {
+    prisma.channel.findUnique.mockResolvedValue({ maxMessageLength: 5 });
+
+    await expect(run('123456')).rejects.toMatchObject({
+      code: 'content_too_long',
+    });
+    await expect(run('12345')).resolves.toMatchObject({ content: '12345' });
+  });
+
+  it('falls back to the default maximum length', async () => {
+    await expect(run('x'.repeat(500))).resolves.toBeDefined();
+    await expect(run('x'.repeat(501))).rejects.toBeInstanceOf(
+      MessageRejectedException,
+    );
+  });
+
+  it('masks blocked words as whole words', async () => {
+    module.get(BlocklistStage).configure(['darn', 'Heck'], 'mask');
+
+    await expect(run('Darn it, heck! darning')).resolves.toMatchObject({
+      content: '**** it, ****! darning',
+    });
+  });
+
+  it('rejects blocked words in reject mode', async () => {
+    module.get(BlocklistStage).configure(['darn'], 'reject');
+
+    await expect(run('darn')).rejects.toMatchObject({
+      code: 'content_blocked',
+    });
+    await expect(run('fine')).resolves.toBeDefined();
+  });
+
+  it('rejects links when links are not allowed', async () => {
+    process.env.CONTENT_LINKS = 'reject';
+
+    await expect(run('go to www.example.com')).rejects.toMatchObject({
+      code: 'links_not_allowed',
+    });
+  });
+
+  it('runs custom stages in order', async () => {
+    const custom = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        MessagePipelineService,
+        MentionStage,
+        ShoutStage,
+        MaxLengthStage,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+    await custom.init();
+
+    await expect(
+      custom.get(MessagePipelineService).process({
+        channelKey: 'general',
+        author,
+        content: 'hi @u2',
+      }),
+    ).resolves.toEqual({ content: 'HI @U2', links: [], mentions: ['U2'] });
+  });
+});
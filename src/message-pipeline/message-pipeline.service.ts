@@ -0,0 +1,126 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, Reflector } from '@nestjs/core';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  MessageDraft,
+  MessageStage,
+  PIPELINE_STAGE_KEY,
+} from './message-stage';
+
+//Default maximum length of a message's content.
+const DEFAULT_MAX_LENGTH = 500;
+
+//Result of running a message through the pipeline.
+export type ProcessedMessage = Pick<
+  MessageDraft,
+  'content' | 'links' | 'mentions'
+>;
+
+/**
+ * Runs message content through the registered pipeline stages.
+ *
+ * Stages are discovered among all providers of the application (see
+ * `@PipelineStage()`), so modules can contribute their own stages without
+ * touching the messaging code.
+ */
+@Injectable()
+export class MessagePipelineService implements OnModuleInit {
+  /**
+   * Logger of the pipeline.
+   */
+  private readonly logger = new Logger(MessagePipelineService.name);
+
+  /**
+   * Registered stages in execution order.
+   */
+  private stages: MessageStage[] = [];
+
+  /**
+   * Creates a new MessagePipelineService.
+   *
+   * @param discovery Provider discovery used to find stages
+   * @param reflector Reader for stage metadata
+   * @param prisma Prisma service used to read channel settings
+   */
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * Collects the registered stages.
+   */
+  onModuleInit() {
+    const stages = this.discovery
+      .getProviders()
+      .flatMap(({ instance, metatype }) => {
+        if (!instance || !metatype) return [];
+        const order = this.reflector.get<number | undefined>(
+          PIPELINE_STAGE_KEY,
+          metatype,
+        );
+        return order === undefined
+          ? []
+          : [{ order, stage: instance as MessageStage }];
+      })
+      .sort((a, b) => a.order - b.order);
+
+    this.stages = stages.map(({ stage }) => stage);
+    this.logger.log(
+      `Message pipeline: ${stages.map(({ stage }) => stage.constructor.name).join(', ') || 'no stages'}`,
+    );
+  }
+
+  /**
+   * Returns the default maximum content length.
+   *
+   * Read from `MESSAGE_MAX_LENGTH`, defaulting to 500 characters.
+   *
+   * @returns Maximum content length
+   */
+  private getDefaultMaxLength(): number {
+    const raw = Number(process.env.MESSAGE_MAX_LENGTH);
+    return Number.isInteger(raw) && raw > 0 ? raw : DEFAULT_MAX_LENGTH;
+  }
+
+  /**
+   * Runs message content through all stages.
+   *
+   * Throws a MessageRejectedException if a stage rejects the message.
+   *
+   * @param input Channel, author, raw content and number of attachments
+   * @returns Processed content with detected links and mentions
+   */
+  async process(input: {
+    channelKey: string;
+    author: MessageDraft['author'];
+    content: string;
+    attachmentCount?: number;
+  }): Promise<ProcessedMessage> {
+    const channel = await this.prisma.channel.findUnique({
+      where: { slug: input.channelKey },
+      select: { maxMessageLength: true },
+    });
+
+    const draft: MessageDraft = {
+      channelKey: input.channelKey,
+      author: input.author,
+      content: (input.content ?? '').trim(),
+      links: [],
+      mentions: [],
+      maxLength: channel?.maxMessageLength ?? this.getDefaultMaxLength(),
+      attachmentCount: input.attachmentCount ?? 0,
+    };
+
+    for (const stage of this.stages) {
+      await stage.process(draft);
+    }
+
+    return {
+      content: draft.content,
+      links: draft.links,
+      mentions: draft.mentions,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { BadRequestException } from '@nestjs/common';
+
+//Error codes of the built-in pipeline stages.
+export type MessageRejectionCode =
+  | 'content_empty'
+  | 'content_too_long'
+  | 'content_blocked'
+  | 'links_not_allowed';
+
+/**
+ * Raised by pipeline stages to reject a message.
+ *
+ * Answered with **400** and `{ error: code, message }` over HTTP and
+ * acknowledged with `{ ok: false, error: code, message }` over websockets.
+ * Custom stages may use their own codes.
+ */
+export class MessageRejectedException extends BadRequestException {
+  /**
+   * Creates a new MessageRejectedException.
+   *
+   * @param code Machine-readable error code
+   * @param message Human-readable explanation
+   */
+  constructor(
+    readonly code: MessageRejectionCode | (string & {}),
+    message: string,
+  ) {
+    super({ statusCode: 400, error: code, message });
+  }
+}
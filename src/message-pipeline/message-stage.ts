@@ -0,0 +1,58 @@
+import { SetMetadata } from '@nestjs/common';
+
+//Allowed user roles within the message pipeline.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//Metadata key marking a provider as pipeline stage.
+export const PIPELINE_STAGE_KEY = 'messagePipelineStage';
+
+//Message content passed through the stages of the pipeline.
+export type MessageDraft = {
+  channelKey: string;
+  author: { id: string; role: Role };
+
+  /** Trimmed content; stages may rewrite it (e.g. masking) */
+  content: string;
+
+  /** Links detected in the content */
+  links: string[];
+
+  /** Mentioned user ids (`channel` for `@channel`) */
+  mentions: string[];
+
+  /** Maximum content length that applies in the channel */
+  maxLength: number;
+
+  /** Number of files attached to the message */
+  attachmentCount: number;
+};
+
+/**
+ * Single step of the message pipeline.
+ *
+ * Stages run in ascending order before a message is stored (on create and
+ * edit). They may rewrite the draft or reject it by throwing a
+ * `MessageRejectedException`.
+ */
+export interface MessageStage {
+  /**
+   * Processes a draft in place.
+   *
+   * @param draft Message draft
+   */
+  process(draft: MessageDraft): void | Promise<void>;
+}
+
+/**
+ * Registers a provider as message pipeline stage.
+ *
+ * Any provider of the application carrying this decorator and implementing
+ * `MessageStage` is picked up by `MessagePipelineService` on startup.
+ * Built-in stages use orders 100 (length), 200 (blocklist), 300 (links)
+ * and 400 (mentions).
+ *
+ * @param order Position of the stage (lower runs first)
+ * @returns Class decorator
+ */
+export const PipelineStage = (order: number) =>
+  SetMetadata(PIPELINE_STAGE_KEY, order);
@@ -0,0 +1,124 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { MessageDraft, MessageStage, PipelineStage } from '../message-stage';
+import { MessageRejectedException } from '../message-rejected.exception';
+
+//How blocked words are handled.
+export type BlocklistMode = 'mask' | 'reject';
+
+/**
+ * Filters blocked words (e.g. profanity) from message content.
+ *
+ * Words are read from `CONTENT_BLOCKLIST` (comma separated) and
+ * `CONTENT_BLOCKLIST_FILE` (one word per line). Matching is case
+ * insensitive and on whole words. In `mask` mode (default) blocked words
+ * are replaced with `*`, in `reject` mode the message is rejected
+ * (`CONTENT_BLOCKLIST_MODE`).
+ */
+@Injectable()
+@PipelineStage(200)
+export class BlocklistStage implements MessageStage, OnModuleInit {
+  /**
+   * Logger of the stage.
+   */
+  private readonly logger = new Logger(BlocklistStage.name);
+
+  /**
+   * Pattern matching any blocked word, or null if the blocklist is empty.
+   */
+  private pattern: RegExp | null = null;
+
+  /**
+   * Handling of blocked words.
+   */
+  private mode: BlocklistMode = 'mask';
+
+  /**
+   * Loads the blocklist.
+   */
+  onModuleInit() {
+    this.configure(this.loadWords(), this.resolveMode());
+  }
+
+  /**
+   * Replaces the blocklist.
+   *
+   * @param words Blocked words
+   * @param mode Handling of blocked words
+   */
+  configure(words: string[], mode: BlocklistMode) {
+    const unique = [
+      ...new Set(words.map((w) => w.trim().toLowerCase()).filter(Boolean)),
+    ];
+    const escaped = unique
+      // Longest first, so overlapping words are masked completely
+      .sort((a, b) => b.length - a.length)
+      .map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+    this.pattern = escaped.length
+      ? new RegExp(
+          `(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})(?![\\p{L}\\p{N}])`,
+          'giu',
+        )
+      : null;
+    this.mode = mode;
+  }
+
+  /**
+   * Masks blocked words or rejects drafts containing them.
+   *
+   * @param draft Message draft
+   */
+  process(draft: MessageDraft) {
+    if (!this.pattern) return;
+
+    if (this.mode === 'reject') {
+      this.pattern.lastIndex = 0;
+      if (this.pattern.test(draft.content)) {
+        throw new MessageRejectedException(
+          'content_blocked',
+          'Content contains blocked words',
+        );
+      }
+      return;
+    }
+
+    draft.content = draft.content.replace(this.pattern, (word) =>
+      '*'.repeat(word.length),
+    );
+  }
+
+  /**
+   * Reads the blocked words from the environment.
+   *
+   * @returns Blocked words
+   */
+  private loadWords(): string[] {
+    const words = (process.env.CONTENT_BLOCKLIST ?? '').split(',');
+
+    const file = process.env.CONTENT_BLOCKLIST_FILE;
+    if (file) {
+      try {
+        words.push(...readFileSync(file, 'utf8').split(/\r?\n/));
+      } catch (e) {
+        this.logger.error(
+          `Cannot read CONTENT_BLOCKLIST_FILE: ${(e as Error).message}`,
+        );
+      }
+    }
+
+    return words;
+  }
+
+  /**
+   * Reads the blocklist mode from `CONTENT_BLOCKLIST_MODE`.
+   *
+   * @returns The mode, `mask` if not configured
+   */
+  private resolveMode(): BlocklistMode {
+    const value = process.env.CONTENT_BLOCKLIST_MODE;
+    const mode = (value ?? '').trim().toLowerCase() || 'mask';
+    if (mode === 'mask' || mode === 'reject') return mode;
+    throw new Error(`Unsupported CONTENT_BLOCKLIST_MODE: ${value}`);
+  }
+}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { MessageDraft, MessageStage, PipelineStage } from '../message-stage';
+import { MessageRejectedException } from '../message-rejected.exception';
+
+//Matches `http(s)://` and `www.` links.
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+
+//Punctuation that ends a sentence rather than the link.
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+
+/**
+ * Detects links in message content.
+ *
+ * Detected links are stored with the message. Setting `CONTENT_LINKS` to
+ * `reject` rejects messages containing links.
+ */
+@Injectable()
+@PipelineStage(300)
+export class LinkStage implements MessageStage {
+  /**
+   * Stores the links of a draft, or rejects it if links are not allowed.
+   *
+   * @param draft Message draft
+   */
+  process(draft: MessageDraft) {
+    const matches: string[] = draft.content.match(LINK_PATTERN) ?? [];
+    const links = [
+      ...new Set(matches.map((link) => link.replace(TRAILING_PUNCTUATION, ''))),
+    ];
+    if (!links.length) return;
+
+    if ((process.env.CONTENT_LINKS ?? '').trim().toLowerCase() === 'reject') {
+      throw new MessageRejectedException(
+        'links_not_allowed',
+        'Links are not allowed',
+      );
+    }
+
+    draft.links = links;
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { MessageDraft, MessageStage, PipelineStage } from '../message-stage';
+import { MessageRejectedException } from '../message-rejected.exception';
+
+/**
+ * Rejects empty messages and messages exceeding the channel's maximum
+ * length. Messages carrying attachments may have empty content.
+ */
+@Injectable()
+@PipelineStage(100)
+export class MaxLengthStage implements MessageStage {
+  /**
+   * Rejects drafts that are empty or too long.
+   *
+   * @param draft Message draft
+   */
+  process(draft: MessageDraft) {
+    if (!draft.content && draft.attachmentCount === 0) {
+      throw new MessageRejectedException('content_empty', 'Content is empty');
+    }
+    if (draft.content.length > draft.maxLength) {
+      throw new MessageRejectedException(
+        'content_too_long',
+        `Content exceeds ${draft.maxLength} characters`,
+      );
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { MessageDraft, MessageStage, PipelineStage } from '../message-stage';
+
+//Matches `@<id>` tokens not preceded by a word character (e.g. e-mails).
+const MENTION_PATTERN = /(?<![\w@])@([\w-]+)/g;
+
+//Maximum number of mentions stored per message.
+const MAX_MENTIONS = 50;
+
+/**
+ * Extracts mentions (`@userId`, `@channel`) from message content.
+ */
+@Injectable()
+@PipelineStage(400)
+export class MentionStage implements MessageStage {
+  /**
+   * Stores the distinct mentions of a draft (at most 50).
+   *
+   * @param draft Message draft
+   */
+  process(draft: MessageDraft) {
+    const ids = [...draft.content.matchAll(MENTION_PATTERN)].map(
+      ([, id]) => id,
+    );
+
+    draft.mentions = [...new Set(ids)].slice(0, MAX_MENTIONS);
+  }
+}
@@ -0,0 +1,15 @@
+import { IsString, Length } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for editing a message.
+ *
+ * This DTO validates the request body of the `PATCH /messages/:id` endpoint.
+ */
+export class EditMessageDto {
+  /**
+   * New message content (trimmed, at most 500 characters).
+   */
+  @IsString()
+  @Length(1, 500)
+  content!: string;
+}
@@ -1,4 +1,13 @@
-import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { CHANNEL_SLUG_PATTERN } from '../../channels/dto/create-channel.dto';
 
 /**
  * Data Transfer Object (DTO) for listing messages.
@@ -10,20 +19,64 @@ export class ListMessagesQueryDto {
   /**
    * Target channel from which messages should be retrieved.
    *
-   * Only predefined channel keys are allowed.
+   * Must be the slug of an existing channel.
    */
-  @IsIn(['general', 'support'])
-  channel!: 'general' | 'support';
+  @IsString()
+  @Matches(CHANNEL_SLUG_PATTERN)
+  channel!: string;
 
   /**
    * Optional pagination cursor.
    *
-   * Represents the ID of the last message from the previous page.
+   * Represents the ID of the last message from the previous page
+   * (same as `before`).
    */
   @IsOptional()
   @IsString()
   cursor?: string;
 
+  /**
+   * Optional anchor: list messages older than this message.
+   */
+  @IsOptional()
+  @IsString()
+  before?: string;
+
+  /**
+   * Optional anchor: list messages newer than this message.
+   */
+  @IsOptional()
+  @IsString()
+  after?: string;
+
+  /**
+   * Optional anchor: list this message and the messages next to it.
+   */
+  @IsOptional()
+  @IsString()
+  around?: string;
+
+  /**
+   * Optional earliest creation time (ISO string or epoch milliseconds).
+   */
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  /**
+   * Optional latest creation time (ISO string or epoch milliseconds).
+   */
+  @IsOptional()
+  @IsString()
+  to?: string;
+
+  /**
+   * Optional order of the returned page (`desc`: newest first, default).
+   */
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
   /**
    * Optional number of messages to return.
    *
@@ -0,0 +1,29 @@
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for listing the replies of a message.
+ *
+ * This DTO validates and describes the supported query parameters
+ * for the `GET /messages/:id/replies` endpoint.
+ */
+export class ListRepliesQueryDto {
+  /**
+   * Optional pagination cursor.
+   *
+   * Represents the ID of the last reply from the previous page.
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  /**
+   * Optional number of replies to return.
+   *
+   * Must be between 1 and 100 if provided.
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  take?: number;
+}
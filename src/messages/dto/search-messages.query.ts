@@ -0,0 +1,74 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { CHANNEL_SLUG_PATTERN } from '../../channels/dto/create-channel.dto';
+
+/**
+ * Data Transfer Object (DTO) for searching messages.
+ *
+ * This DTO validates and describes the supported query parameters
+ * for the `GET /messages/search` endpoint.
+ */
+export class SearchMessagesQueryDto {
+  /**
+   * Search query in web search syntax (`"exact phrase"`, `or`, `-word`).
+   */
+  @IsString()
+  @MaxLength(200)
+  q!: string;
+
+  /**
+   * Optional channel to restrict the search to.
+   */
+  @IsOptional()
+  @IsString()
+  @Matches(CHANNEL_SLUG_PATTERN)
+  channel?: string;
+
+  /**
+   * Optional filter by author.
+   */
+  @IsOptional()
+  @IsString()
+  author?: string;
+
+  /**
+   * Optional earliest creation time (ISO string or epoch milliseconds).
+   */
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  /**
+   * Optional latest creation time (ISO string or epoch milliseconds).
+   */
+  @IsOptional()
+  @IsString()
+  to?: string;
+
+  /**
+   * Optional pagination cursor.
+   *
+   * The `nextCursor` returned with the previous page.
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  /**
+   * Optional number of results to return.
+   *
+   * Must be between 1 and 50 if provided.
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  take?: number;
+}
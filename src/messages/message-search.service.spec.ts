@@ -0,0 +1,123 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { MessageSearchService } from './message-search.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { PermissionsService } from '../permissions/permissions.service';
+
+describe('MessageSearchService', () => {
+  let prisma: { $queryRaw: jest.Mock };
+  let channels: { listChannels: jest.Mock };
+  let permissions: { assert: jest.Mock; can: jest.Mock };
+  let service: MessageSearchService;
+
+  const user = { id: 'u1', role: 'USER' as const };
+  const hit = (id: string, rank: number) => ({
+    id,
+    channelKey: 'general',
+    authorId: 'u2',
+    authorRole: 'USER',
+    content: 'deploy finished',
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    editedAt: null,
+    parentId: null,
+    rank,
+    snippet: '<mark>deploy</mark> finished',
+  });
+
+  beforeEach(() => {
+    prisma = { $queryRaw: jest.fn().mockResolvedValue([]) };
+    channels = {
+      listChannels: jest
+        .fn()
+        .mockResolvedValue([{ slug: 'general' }, { slug: 'announcements' }]),
+    };
+    permissions = {
+      assert: jest.fn(),
+      can: jest.fn((_user: unknown, _permission: string, slug: string) =>
+        Promise.resolve(slug === 'general'),
+      ),
+    };
+
+    service = new MessageSearchService(
+      prisma as unknown as PrismaService,
+      channels as unknown as ChannelsService,
+      permissions as unknown as PermissionsService,
+    );
+  });
+
+  /** Returns the SQL statement of the last search query. */
+  const lastQuery = () =>
+    (prisma.$queryRaw.mock.calls.at(-1) as [Prisma.Sql])[0];
+
+  it('searches only channels the user can read', async () => {
+    await service.search({ user, query: ' deploy ', authorId: 'u2' });
+
+    expect(channels.listChannels).toHaveBeenCalledWith(user, true);
+    const sql = lastQuery();
+    expect(sql.values).toEqual(
+      expect.arrayContaining(['deploy', 'general', 'u2']),
+    );
+    expect(sql.values).not.toContain('announcements');
+  });
+
+  it('returns a cursor for full pages and continues after it', async () => {
+    prisma.$queryRaw.mockResolvedValue([hit('m1', 0.5), hit('m2', 0.25)]);
+
+    const page = await service.search({ user, query: 'deploy', take: '2' });
+
+    expect(page.results).toHaveLength(2);
+    expect(page.nextCursor).toEqual(expect.any(String));
+
+    prisma.$queryRaw.mockResolvedValue([hit('m3', 0.1)]);
+    const next = await service.search({
+      user,
+      query: 'deploy',
+      take: 2,
+      cursor: page.nextCursor!,
+    });
+
+    expect(lastQuery().values).toEqual(expect.arrayContaining([0.25, 'm2']));
+    expect(next.nextCursor).toBeNull();
+  });
+
+  it('escapes the content of snippets', async () => {
+    await service.search({ user, query: 'deploy' });
+
+    const sql = lastQuery().sql;
+    expect(sql).toContain(`'<', '&lt;'`);
+    expect(sql).toContain(`'&', '&amp;'`);
+    expect(sql).not.toContain('ts_headline(\'simple\', page."content"');
+  });
+
+  it('checks access to a requested channel', async () => {
+    permissions.assert.mockRejectedValue(new ForbiddenException());
+
+    await expect(
+      service.search({ user, query: 'deploy', channelKey: 'support' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('skips the query without readable channels', async () => {
+    channels.listChannels.mockResolvedValue([]);
+
+    await expect(service.search({ user, query: 'deploy' })).resolves.toEqual({
+      results: [],
+      nextCursor: null,
+    });
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('rejects empty queries, invalid dates and malformed cursors', async () => {
+    await expect(service.search({ user, query: '  ' })).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await expect(
+      service.search({ user, query: 'deploy', from: 'yesterday' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.search({ user, query: 'deploy', cursor: 'nope' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,235 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { parseDateFilter, parseTake } from '../common/query-params';
+
+//Allowed user roles within the messaging domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//User descriptor used for access decisions.
+type SearchUser = { id: string; role: Role };
+
+//Message matching a search query.
+export type SearchResult = {
+  id: string;
+  channelKey: string;
+  authorId: string;
+  authorRole: Role;
+  content: string;
+  createdAt: Date;
+  editedAt: Date | null;
+  parentId: string | null;
+
+  /** Relevance of the message (higher is better) */
+  rank: number;
+
+  /** HTML-escaped excerpts of the content with matches wrapped in `<mark>` */
+  snippet: string;
+};
+
+//Position after the last result of a page (rank, creation time, id).
+type SearchCursor = [number, string, string];
+
+//Longest accepted search query.
+const MAX_QUERY_LENGTH = 200;
+
+//Default and largest number of results per page.
+const PAGE_SIZE = { defaultSize: 20, maxSize: 50 };
+
+//Indexed document of a message (must match the GIN index expression).
+const DOCUMENT = Prisma.sql`to_tsvector('simple', "content")`;
+
+//HTML-escaped content the snippets are built from, so `<mark>` is the only markup.
+const ESCAPED_CONTENT = Prisma.sql`replace(replace(replace(replace(replace(
+  page."content", '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+
+//Options of the highlighted snippets.
+const SNIPPET_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=5, MaxFragments=2, FragmentDelimiter=" … "';
+
+/**
+ * Service responsible for full-text message search.
+ *
+ * Searches the content of all messages in channels the caller can read,
+ * using the PostgreSQL full-text index on `Message.content`. Queries use
+ * web search syntax (`"exact phrase"`, `or`, `-excluded`). Results are
+ * ordered by relevance, then newest first, and paged with opaque cursors.
+ */
+@Injectable()
+export class MessageSearchService {
+  /**
+   * Creates a new MessageSearchService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param channels Channels service listing accessible channels
+   * @param permissions Service resolving `message.read` per channel
+   */
+  constructor(
+    private prisma: PrismaService,
+    private channels: ChannelsService,
+    private permissions: PermissionsService,
+  ) {}
+
+  /**
+   * Searches messages.
+   *
+   * Only channels the user can access and holds `message.read` in are
+   * searched, so every result respects the channel access policy and
+   * permission overrides. Requesting an inaccessible channel throws a
+   * ForbiddenException. Deleted messages are never returned.
+   *
+   * @param params Query, filters, requesting user and pagination info
+   * @returns One page of results and the cursor of the next page
+   */
+  async search(params: {
+    user: SearchUser;
+    query: string;
+    channelKey?: string;
+    authorId?: string;
+    from?: string;
+    to?: string;
+    take?: number | string;
+    cursor?: string;
+  }): Promise<{ results: SearchResult[]; nextCursor: string | null }> {
+    const text = typeof params.query === 'string' ? params.query.trim() : '';
+    if (!text || text.length > MAX_QUERY_LENGTH) {
+      throw new BadRequestException('Invalid search query');
+    }
+
+    const take = parseTake(params.take, PAGE_SIZE);
+    const from = parseDateFilter(params.from);
+    const to = parseDateFilter(params.to);
+    const cursor = params.cursor ? this.decodeCursor(params.cursor) : null;
+
+    const channelKeys = await this.readableChannels(
+      params.user,
+      params.channelKey,
+    );
+    if (channelKeys.length === 0) return { results: [], nextCursor: null };
+
+    const query = Prisma.sql`websearch_to_tsquery('simple', ${text})`;
+    const conditions = [
+      Prisma.sql`${DOCUMENT} @@ ${query}`,
+      Prisma.sql`"deletedAt" IS NULL`,
+      Prisma.sql`"channelKey" IN (${Prisma.join(channelKeys)})`,
+      ...(params.authorId ? [Prisma.sql`"authorId" = ${params.authorId}`] : []),
+      ...(from ? [Prisma.sql`"createdAt" >= ${this.timestamp(from)}`] : []),
+      ...(to ? [Prisma.sql`"createdAt" <= ${this.timestamp(to)}`] : []),
+    ];
+
+    // Continue after the last result of the previous page
+    const after = cursor
+      ? Prisma.sql`WHERE "rank" < ${cursor[0]}::real
+          OR ("rank" = ${cursor[0]}::real
+            AND ("createdAt", "id") < (${this.timestamp(new Date(cursor[1]))}, ${cursor[2]}))`
+      : Prisma.empty;
+
+    // Snippets are only built for the rows of the page
+    const rows = await this.prisma.$queryRaw<SearchResult[]>(Prisma.sql`
+      SELECT page.*, ts_headline('simple', ${ESCAPED_CONTENT}, ${query}, ${SNIPPET_OPTIONS}) AS "snippet"
+      FROM (
+        SELECT * FROM (
+          SELECT "id", "channelKey", "authorId", "authorRole"::text AS "authorRole",
+                 "content", "createdAt", "editedAt", "parentId",
+                 ts_rank(${DOCUMENT}, ${query}) AS "rank"
+          FROM "Message"
+          WHERE ${Prisma.join(conditions, ' AND ')}
+        ) hits
+        ${after}
+        ORDER BY "rank" DESC, "createdAt" DESC, "id" DESC
+        LIMIT ${take}::int
+      ) page
+      ORDER BY "rank" DESC, "createdAt" DESC, "id" DESC`);
+
+    const last = rows.length === take ? rows[rows.length - 1] : null;
+    return {
+      results: rows,
+      nextCursor: last ? this.encodeCursor(last) : null,
+    };
+  }
+
+  /**
+   * Resolves the channels searched for a user.
+   *
+   * @param user Searching user
+   * @param channelKey Optional channel to restrict the search to
+   * @returns Keys of the searched channels
+   */
+  private async readableChannels(
+    user: SearchUser,
+    channelKey?: string,
+  ): Promise<string[]> {
+    if (channelKey) {
+      await this.permissions.assert(user, 'message.read', channelKey);
+      return [channelKey];
+    }
+
+    // Archived channels stay readable
+    const channels = await this.channels.listChannels(user, true);
+    const readable = await Promise.all(
+      channels.map((channel) =>
+        this.permissions.can(user, 'message.read', channel.slug),
+      ),
+    );
+
+    return channels
+      .filter((_, index) => readable[index])
+      .map((channel) => channel.slug);
+  }
+
+  /**
+   * Builds a timestamp parameter comparable to the stored UTC timestamps.
+   *
+   * @param date Point in time
+   * @returns SQL fragment
+   */
+  private timestamp(date: Date): Prisma.Sql {
+    return Prisma.sql`(${date.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+  }
+
+  /**
+   * Encodes the position of a result as opaque cursor.
+   *
+   * @param result Last result of a page
+   * @returns Cursor string
+   */
+  private encodeCursor(result: SearchResult): string {
+    const cursor: SearchCursor = [
+      result.rank,
+      result.createdAt.toISOString(),
+      result.id,
+    ];
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Decodes an opaque cursor.
+   *
+   * Throws a BadRequestException for malformed cursors.
+   *
+   * @param value Cursor string
+   * @returns Position after which results continue
+   */
+  private decodeCursor(value: string): SearchCursor {
+    try {
+      const cursor: unknown = JSON.parse(
+        Buffer.from(value, 'base64url').toString('utf8'),
+      );
+      if (
+        Array.isArray(cursor) &&
+        cursor.length === 3 &&
+        typeof cursor[0] === 'number' &&
+        typeof cursor[1] === 'string' &&
+        !Number.isNaN(new Date(cursor[1]).getTime()) &&
+        typeof cursor[2] === 'string'
+      ) {
+        return [cursor[0], cursor[1], cursor[2]];
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
+}
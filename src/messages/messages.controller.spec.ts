@@ -1,5 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { MessagesController } from './messages.controller';
+import { MessagesService } from './messages.service';
+import { MessageSearchService } from './message-search.service';
+import { AuthService } from '../auth/auth.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+import { ModerationService } from '../moderation/moderation.service';
 
 describe('MessagesController', () => {
   let controller: MessagesController;
@@ -7,6 +13,14 @@ describe('MessagesController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [MessagesController],
+      providers: [
+        { provide: MessagesService, useValue: {} },
+        { provide: ModerationService, useValue: {} },
+        { provide: MessageSearchService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+        { provide: PermissionsService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<MessagesController>(MessagesController);
@@ -1,155 +1,335 @@
-import { Controller, Delete, Get, Param, Query, Req } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
 import { MessagesService } from './messages.service';
 import { ListMessagesQueryDto } from './dto/list-messages.query';
-import * as jwt from 'jsonwebtoken';
+import { EditMessageDto } from './dto/edit-message.dto';
+import { ListRepliesQueryDto } from './dto/list-replies.query';
+import { SearchMessagesQueryDto } from './dto/search-messages.query';
+import { MessageSearchService } from './message-search.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { MuteUserDto } from '../moderation/dto/mute-user.dto';
+import { BanUserDto } from '../moderation/dto/ban-user.dto';
+import { SlowModeDto } from '../moderation/dto/slow-mode.dto';
+import type { RequestUser } from '../auth/request-user';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { PermissionsGuard } from '../permissions/permissions.guard';
+import { RequirePermission } from '../permissions/require-permission.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { parseTake } from '../common/query-params';
 
-//Allowed user roles within the messaging HTTP API context.
-type Role = 'USER' | 'ADMIN';
-
-//Supported message channel identifiers.
-type ChannelKey = 'general' | 'support';
+//Channel identifier (slug of a database-backed channel).
+type ChannelKey = string;
 
 /**
  * HTTP controller for message-related operations.
  *
- * Provides endpoints for listing messages, flushing a channel,
- * and deleting individual messages. Authentication is performed
- * by verifying a JWT from the Authorization header.
+ * Provides endpoints for listing, searching and editing messages, flushing and
+ * moderating a channel (mutes, bans, slow mode), and deleting or restoring
+ * individual messages. Requests are authenticated
+ * by `JwtAuthGuard`; `@RequirePermission()` requirements are enforced by
+ * `PermissionsGuard` within the channel the request targets.
  */
 @Controller('messages')
+@UseGuards(JwtAuthGuard, PermissionsGuard, RateLimitGuard)
 export class MessagesController {
   /**
    * Creates a new MessagesController.
    *
    * @param messages Messages service providing business logic and persistence
+   * @param moderation Moderation service managing sanctions and slow mode
+   * @param search Full-text message search
    */
-  constructor(private readonly messages: MessagesService) {}
+  constructor(
+    private readonly messages: MessagesService,
+    private readonly moderation: ModerationService,
+    private readonly search: MessageSearchService,
+  ) {}
 
   /**
-   * Extracts a bearer token from an Authorization header value.
+   * Lists messages for a channel.
+   *
+   * Requires `message.read` in the channel.
    *
-   * @param auth Raw authorization header value
-   * @returns JWT string if present, otherwise undefined
+   * @param q Query parameters (channel, anchors, time window, order)
+   * @returns A page of messages with paging cursors
    */
-  private extractBearer(auth?: unknown): string | undefined {
-    // Normalize the header value to a string
-    const v = typeof auth === 'string' ? auth : undefined;
-    if (!v) return undefined;
+  @Get()
+  @RequirePermission('message.read', { channel: 'query.channel' })
+  async list(@Query() q: ListMessagesQueryDto) {
+    // Read the requested channel key
+    const channelKey: ChannelKey = q.channel;
+
+    // Apply default page size if none provided, reject invalid sizes
+    const take = parseTake(q.take, { defaultSize: 50, maxSize: 100 });
 
-    // Strip the Bearer prefix if present
-    return v.startsWith('Bearer ') ? v.slice(7) : undefined;
+    // Delegate to service for message retrieval
+    return this.messages.listMessages({
+      channelKey,
+      take,
+      cursor: q.cursor,
+      before: q.before,
+      after: q.after,
+      around: q.around,
+      from: q.from,
+      to: q.to,
+      order: q.order,
+    });
   }
 
   /**
-   * Reads and verifies the JWT from the request and returns the authenticated user.
+   * Searches messages of all channels the user can read.
    *
-   * Returns null if the token is missing, invalid, or does not contain the required fields.
+   * Results are ranked by relevance and carry highlighted snippets.
    *
-   * @param req Incoming HTTP request object
-   * @returns Authenticated user descriptor or null
+   * @param q Query parameters (query, filters, pagination)
+   * @param user Authenticated user
+   * @returns One page of results and the cursor of the next page
    */
-  private getUserFromReq(req: any): { id: string; role: Role } | null {
-    // Extract token from Authorization header
-    const token = this.extractBearer(req?.headers?.authorization);
-
-    // Read JWT secret from environment
-    const secret = process.env.JWT_ACCESS_SECRET;
-
-    // Fail if prerequisites are missing
-    if (!secret || !token) return null;
-
-    try {
-      // Verify token and read payload
-      const payload = jwt.verify(token, secret) as any;
-
-      // Read subject as user id
-      const id = payload.sub as string | undefined;
+  @Get('search')
+  async searchMessages(
+    @Query() q: SearchMessagesQueryDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.search.search({
+      user,
+      query: q.q,
+      channelKey: q.channel,
+      authorId: q.author,
+      from: q.from,
+      to: q.to,
+      take: q.take,
+      cursor: q.cursor,
+    });
+  }
 
-      // Accept only known roles
-      const role: Role =
-        payload.role === 'ADMIN' || payload.role === 'USER'
-          ? payload.role
-          : undefined;
+  /**
+   * Lists the replies in the thread of a message.
+   *
+   * Enforces authentication and the channel access rules of the thread.
+   *
+   * @param id Thread root message identifier
+   * @param q Query parameters (pagination)
+   * @param user Authenticated user
+   * @returns A list of replies
+   */
+  @Get(':id/replies')
+  async replies(
+    @Param('id') id: string,
+    @Query() q: ListRepliesQueryDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    // Apply default page size if none provided, reject invalid sizes
+    const take = parseTake(q.take, { defaultSize: 50, maxSize: 100 });
 
-      // Require both id and role
-      if (!id || !role) return null;
+    // Delegate to service for access checks and reply retrieval
+    return this.messages.listReplies({
+      parentId: id,
+      user,
+      take,
+      cursor: q.cursor,
+    });
+  }
 
-      return { id, role };
-    } catch {
-      // Treat any verification errors as unauthorized
-      return null;
-    }
+  /**
+   * Edits the content of a message.
+   *
+   * Allowed for the author within the edit window and for users holding
+   * `message.edit.any` in the channel.
+   *
+   * @param id Message identifier
+   * @param dto Edit payload
+   * @param user Authenticated user
+   * @returns The updated message
+   */
+  @Patch(':id')
+  async edit(
+    @Param('id') id: string,
+    @Body() dto: EditMessageDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    // Delegate to service for permission checks and revision handling
+    return this.messages.editMessage({ id, user, content: dto.content });
   }
 
   /**
-   * Lists messages for a channel.
+   * Lists the revision history of a message.
    *
-   * Enforces authentication and channel access rules before returning messages.
+   * Requires `message.revisions.read` in the message's channel.
    *
-   * @param q Query parameters (channel, pagination)
-   * @param req Incoming HTTP request object
-   * @returns Either an error object or a list of messages
+   * @param id Message identifier
+   * @returns The message with its revisions
    */
-  @Get()
-  async list(@Query() q: ListMessagesQueryDto, @Req() req: any) {
-    // Authenticate the request via JWT
-    const user = this.getUserFromReq(req);
-    if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+  @Get(':id/revisions')
+  @RequirePermission('message.revisions.read', { message: 'params.id' })
+  async revisions(@Param('id') id: string) {
+    return this.messages.listRevisions(id);
+  }
 
-    // Cast query channel to a supported channel key
-    const channelKey = q.channel as ChannelKey;
+  /**
+   * Soft-deletes all messages for the given channel.
+   *
+   * Requires `channel.flush` in the channel.
+   *
+   * @param channel Channel identifier
+   * @param reason Optional deletion reason
+   * @param user Authenticated user
+   * @returns A deletion summary
+   */
+  @Delete('flush')
+  @RequirePermission('channel.flush', { channel: 'query.channel' })
+  async flush(
+    @Query('channel') channel: ChannelKey,
+    @Query('reason') reason: string | undefined,
+    @CurrentUser() user: RequestUser,
+  ) {
+    // Delegate to service for channel flush
+    return this.messages.flushChannel(channel, user, reason);
+  }
 
-    // Enforce channel-level access control
-    this.messages.assertChannelAccess(channelKey, user.role);
+  /**
+   * Mutes a user in a channel for a duration.
+   *
+   * Requires `user.mute` in the channel.
+   *
+   * @param channel Channel identifier
+   * @param dto Muted user, duration and optional reason
+   * @param user Authenticated user
+   * @returns The created mute
+   */
+  @Post('mute')
+  @RequirePermission('user.mute', { channel: 'query.channel' })
+  async mute(
+    @Query('channel') channel: ChannelKey,
+    @Body() dto: MuteUserDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.moderation.mute(channel, user, dto);
+  }
 
-    // Apply default page size if none provided
-    const take = q.take ?? 50;
+  /**
+   * Lifts the mute of a user in a channel.
+   *
+   * Requires `user.mute` in the channel.
+   *
+   * @param channel Channel identifier
+   * @param userId Muted user
+   * @param user Authenticated user
+   * @returns Lift result metadata
+   */
+  @Delete('mute')
+  @RequirePermission('user.mute', { channel: 'query.channel' })
+  async unmute(
+    @Query('channel') channel: ChannelKey,
+    @Query('userId') userId: string,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.moderation.unmute(channel, user, userId);
+  }
 
-    // Delegate to service for message retrieval
-    return this.messages.listMessages({ channelKey, take, cursor: q.cursor });
+  /**
+   * Bans a user from a channel, permanently or for a duration.
+   *
+   * Requires `user.ban` in the channel.
+   *
+   * @param channel Channel identifier
+   * @param dto Banned user, optional duration and reason
+   * @param user Authenticated user
+   * @returns The created ban
+   */
+  @Post('ban')
+  @RequirePermission('user.ban', { channel: 'query.channel' })
+  async ban(
+    @Query('channel') channel: ChannelKey,
+    @Body() dto: BanUserDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.moderation.ban(channel, user, dto);
   }
 
   /**
-   * Deletes all messages for the given channel.
+   * Lifts the ban of a user from a channel.
    *
-   * This endpoint is restricted to administrators.
+   * Requires `user.ban` in the channel.
    *
    * @param channel Channel identifier
-   * @param req Incoming HTTP request object
-   * @returns Either an error object or a deletion summary
+   * @param userId Banned user
+   * @param user Authenticated user
+   * @returns Lift result metadata
    */
-  @Delete('flush')
-  async flush(@Query('channel') channel: ChannelKey, @Req() req: any) {
-    // Authenticate the request via JWT
-    const user = this.getUserFromReq(req);
-    if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+  @Delete('ban')
+  @RequirePermission('user.ban', { channel: 'query.channel' })
+  async unban(
+    @Query('channel') channel: ChannelKey,
+    @Query('userId') userId: string,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.moderation.unban(channel, user, userId);
+  }
 
-    // Enforce admin-only access
-    this.messages.assertAdmin(user.role);
+  /**
+   * Sets the slow mode interval of a channel.
+   *
+   * Requires `channel.slowmode` in the channel.
+   *
+   * @param channel Channel identifier
+   * @param dto New interval in seconds (0 disables slow mode)
+   * @param user Authenticated user
+   * @returns The channel key and the new interval
+   */
+  @Put('slow-mode')
+  @RequirePermission('channel.slowmode', { channel: 'query.channel' })
+  async slowMode(
+    @Query('channel') channel: ChannelKey,
+    @Body() dto: SlowModeDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.moderation.setSlowMode(channel, user, dto.seconds);
+  }
 
-    // Delegate to service for channel flush
-    return this.messages.flushChannel(channel);
+  /**
+   * Restores a soft-deleted message.
+   *
+   * Requires `message.restore` in the message's channel.
+   *
+   * @param id Message identifier
+   * @param user Authenticated user
+   * @returns The restored message
+   */
+  @Post(':id/restore')
+  @RequirePermission('message.restore', { message: 'params.id' })
+  async restore(@Param('id') id: string, @CurrentUser() user: RequestUser) {
+    return this.messages.restoreMessage(id, user);
   }
 
   /**
-   * Deletes a single message by its ID.
+   * Soft-deletes a single message by its ID.
    *
-   * This endpoint is restricted to administrators.
+   * Allowed for the message author and for users holding
+   * `message.delete.any` in the channel.
    *
    * @param id Message identifier
-   * @param req Incoming HTTP request object
-   * @returns Either an error object or a deletion result
+   * @param reason Optional deletion reason
+   * @param user Authenticated user
+   * @returns A deletion result
    */
   @Delete(':id')
-  async deleteOne(@Param('id') id: string, @Req() req: any) {
-    // Authenticate the request via JWT
-    const user = this.getUserFromReq(req);
-    if (!user) return { ok: false, error: 'UNAUTHORIZED' };
-
-    // Enforce admin-only access
-    this.messages.assertAdmin(user.role);
-
-    // Delegate to service for message deletion
-    return this.messages.deleteMessageById(id);
+  async deleteOne(
+    @Param('id') id: string,
+    @Query('reason') reason: string | undefined,
+    @CurrentUser() user: RequestUser,
+  ) {
+    // Delegate to service for permission checks and message deletion
+    return this.messages.deleteMessageById(id, user, reason);
   }
 }
@@ -1,13 +1,31 @@
 import { Module } from '@nestjs/common';
 import { MessagesService } from './messages.service';
 import { MessagesController } from './messages.controller';
+import { MessageSearchService } from './message-search.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
+import { ChannelsModule } from '../channels/channels.module';
+import { ReactionsModule } from '../reactions/reactions.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { MessagePipelineModule } from '../message-pipeline/message-pipeline.module';
+import { AttachmentsModule } from '../attachments/attachments.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [PrismaModule, AuthModule],
+  imports: [
+    PrismaModule,
+    AuthModule,
+    PermissionsModule,
+    ChannelsModule,
+    ReactionsModule,
+    ModerationModule,
+    MessagePipelineModule,
+    AttachmentsModule,
+    NotificationsModule,
+  ],
   controllers: [MessagesController],
-  providers: [MessagesService],
+  providers: [MessagesService, MessageSearchService],
   exports: [MessagesService],
 })
 export class MessagesModule {}
@@ -1,102 +1,622 @@
-import { ForbiddenException, Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { MessagesService } from './messages.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import { ReactionsService } from '../reactions/reactions.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { MessagePipelineService } from '../message-pipeline/message-pipeline.service';
+import { MessageRejectedException } from '../message-pipeline/message-rejected.exception';
+import { AuditService } from '../audit/audit.service';
+import { AttachmentsService } from '../attachments/attachments.service';
+import { NotificationsService } from '../notifications/notifications.service';
 
-//Supported message channel identifiers.
-type ChannelKey = 'general' | 'support';
-
-/**
- * Service responsible for message persistence and
- * channel-level access control.
- */
-@Injectable()
-export class MessagesService {
-  /**
-   * Creates a new MessagesService.
-   *
-   * @param prisma Prisma service used to access the database
-   */
-  constructor(private prisma: PrismaService) {}
-
-  /**
-   * Persists a new message in the database.
-   *
-   * @param input Message creation payload
-   * @returns The newly created message with selected fields
-   */
-  async createMessage(input: {
-    channelKey: ChannelKey;
-    authorId: string;
-    authorRole: 'ADMIN' | 'USER';
-    content: string;
-  }) {
-    // Create a new message record
-    return this.prisma.message.create({
-      data: {
-        channelKey: input.channelKey,
-        authorId: input.authorId,
-        authorRole: input.authorRole,
-        content: input.content,
-      },
-      select: {
-        id: true,
-        channelKey: true,
-        authorId: true,
-        authorRole: true,
-        content: true,
-        createdAt: true,
+describe('MessagesService', () => {
+  let service: MessagesService;
+  let module: TestingModule;
+  let channels: { assertAccess: jest.Mock; assertWritable: jest.Mock };
+  let permissions: { assert: jest.Mock; can: jest.Mock };
+  let pipeline: { process: jest.Mock };
+  let audit: { record: jest.Mock };
+  let attachments: { normalizeIds: jest.Mock; claim: jest.Mock };
+  let notifications: { notifyMentions: jest.Mock };
+  let prisma: {
+    message: {
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      findFirst: jest.Mock;
+      update: jest.Mock;
+      findMany: jest.Mock;
+      create: jest.Mock;
+    };
+    messageRevision: { create: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    channels = {
+      assertAccess: jest.fn(),
+      assertWritable: jest.fn(),
+    };
+
+    permissions = {
+      assert: jest
+        .fn()
+        .mockRejectedValue(new ForbiddenException('Missing permission')),
+      can: jest.fn().mockResolvedValue(false),
+    };
+
+    pipeline = {
+      process: jest.fn(({ content }: { content: string }) =>
+        Promise.resolve({ content: content.trim(), links: [], mentions: [] }),
+      ),
+    };
+
+    audit = { record: jest.fn() };
+
+    attachments = {
+      normalizeIds: jest.fn((ids?: string[]) => ids ?? []),
+      claim: jest.fn(),
+    };
+
+    notifications = { notifyMentions: jest.fn() };
+
+    prisma = {
+      message: {
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        findFirst: jest.fn(),
+        update: jest.fn(),
+        findMany: jest.fn(),
+        create: jest.fn(),
       },
+      messageRevision: { create: jest.fn() },
+      $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(prisma)),
+    };
+
+    module = await Test.createTestingModule({
+      providers: [
+        MessagesService,
+        EventsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ChannelsService, useValue: channels },
+        { provide: PermissionsService, useValue: permissions },
+        { provide: MessagePipelineService, useValue: pipeline },
+        { provide: AuditService, useValue: audit },
+        { provide: AttachmentsService, useValue: attachments },
+        { provide: NotificationsService, useValue: notifications },
+        {
+          provide: ReactionsService,
+          useValue: { summarize: jest.fn().mockResolvedValue(new Map()) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MessagesService>(MessagesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('delegates channel access checks to the channel policy', async () => {
+    const channel = { slug: 'general', archivedAt: null };
+    channels.assertAccess.mockResolvedValue(channel);
+
+    await expect(
+      service.assertChannelAccess('general', { id: 'u1', role: 'USER' }),
+    ).resolves.toBe(channel);
+    expect(channels.assertAccess).toHaveBeenCalledWith('general', {
+      id: 'u1',
+      role: 'USER',
     });
-  }
-
-  /**
-   * Retrieves a paginated list of messages for a given channel.
-   *
-   * Messages are returned in reverse chronological order.
-   *
-   * @param params Query parameters including channel and pagination info
-   * @returns List of messages
-   */
-  async listMessages(params: {
-    channelKey: ChannelKey;
-    take: number;
-    cursor?: string;
-  }) {
-    const { channelKey, take, cursor } = params;
-
-    // Query messages with optional cursor-based pagination
-    return this.prisma.message.findMany({
-      where: { channelKey },
-      orderBy: { createdAt: 'desc' },
-      take,
-      ...(cursor
-        ? {
-            cursor: { id: cursor },
-            skip: 1,
-          }
-        : {}),
-      select: {
-        id: true,
-        channelKey: true,
-        authorId: true,
-        authorRole: true,
-        content: true,
-        createdAt: true,
-      },
+  });
+
+  describe('editMessage', () => {
+    const author = { id: 'u1', role: 'USER' as const };
+    const message = {
+      id: 'm1',
+      channelKey: 'general',
+      authorId: 'u1',
+      content: 'helo',
+      createdAt: new Date(),
+      attachments: [],
+    };
+
+    it('stores the previous content as revision', async () => {
+      prisma.message.findUnique.mockResolvedValue(message);
+      prisma.message.update.mockResolvedValue({ ...message, content: 'hello' });
+
+      await service.editMessage({ id: 'm1', user: author, content: 'hello' });
+
+      expect(prisma.messageRevision.create).toHaveBeenCalledWith({
+        data: { messageId: 'm1', content: 'helo', editedById: 'u1' },
+      });
+    });
+
+    it('rejects edits by other users', async () => {
+      prisma.message.findUnique.mockResolvedValue(message);
+
+      await expect(
+        service.editMessage({
+          id: 'm1',
+          user: { id: 'u2', role: 'USER' },
+          content: 'hello',
+        }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('lets holders of message.edit.any edit foreign messages', async () => {
+      const moderator = { id: 'u2', role: 'MODERATOR' as const };
+      permissions.can.mockResolvedValue(true);
+      prisma.message.findUnique.mockResolvedValue(message);
+      prisma.message.update.mockResolvedValue({ ...message, content: 'hello' });
+
+      await service.editMessage({
+        id: 'm1',
+        user: moderator,
+        content: 'hello',
+      });
+
+      expect(permissions.can).toHaveBeenCalledWith(
+        moderator,
+        'message.edit.any',
+        'general',
+      );
+      expect(prisma.message.update).toHaveBeenCalled();
+    });
+
+    it('stores the content returned by the pipeline', async () => {
+      pipeline.process.mockResolvedValue({
+        content: 'see ***',
+        links: [],
+        mentions: ['u2'],
+      });
+      prisma.message.findUnique.mockResolvedValue(message);
+      prisma.message.update.mockResolvedValue(message);
+
+      await service.editMessage({ id: 'm1', user: author, content: 'see x' });
+
+      expect(pipeline.process).toHaveBeenCalledWith({
+        channelKey: 'general',
+        author,
+        content: 'see x',
+        attachmentCount: 0,
+      });
+      expect(prisma.message.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            content: 'see ***',
+            links: [],
+            mentions: ['u2'],
+          }) as unknown,
+        }),
+      );
+    });
+
+    it('does not store edits rejected by the pipeline', async () => {
+      pipeline.process.mockRejectedValue(
+        new MessageRejectedException('content_blocked', 'Blocked'),
+      );
+      prisma.message.findUnique.mockResolvedValue(message);
+
+      await expect(
+        service.editMessage({ id: 'm1', user: author, content: 'x' }),
+      ).rejects.toBeInstanceOf(MessageRejectedException);
+      expect(prisma.message.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects author edits after the edit window', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        ...message,
+        createdAt: new Date(Date.now() - 60 * 60 * 1000),
+      });
+
+      await expect(
+        service.editMessage({ id: 'm1', user: author, content: 'hello' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(prisma.message.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('soft deletion', () => {
+    it('lets authors delete their own messages', async () => {
+      const deleted = jest.fn();
+      module.get(EventsService).on('message.deleted').subscribe(deleted);
+      prisma.message.findUnique.mockResolvedValue({
+        id: 'm1',
+        channelKey: 'general',
+        authorId: 'u1',
+        deletedAt: null,
+      });
+      permissions.assert.mockResolvedValue(undefined);
+
+      await expect(
+        service.deleteMessageById('m1', { id: 'u1', role: 'USER' }),
+      ).resolves.toEqual({ deleted: true, id: 'm1', channelKey: 'general' });
+      expect(permissions.assert).toHaveBeenCalledWith(
+        { id: 'u1', role: 'USER' },
+        'message.read',
+        'general',
+      );
+      expect(prisma.message.update).toHaveBeenCalledWith({
+        where: { id: 'm1' },
+        data: {
+          deletedAt: expect.any(Date) as Date,
+          deletedById: 'u1',
+          deletionReason: undefined,
+        },
+      });
+      expect(deleted).toHaveBeenCalledWith(
+        expect.objectContaining({ channelKey: 'general', messageId: 'm1' }),
+      );
+      expect(audit.record).not.toHaveBeenCalled();
+    });
+
+    it('deletes foreign messages with message.delete.any', async () => {
+      permissions.assert.mockResolvedValue(undefined);
+      prisma.message.findUnique.mockResolvedValue({
+        id: 'm1',
+        channelKey: 'general',
+        authorId: 'u2',
+        deletedAt: null,
+      });
+      const moderator = { id: 'u1', role: 'MODERATOR' as const };
+
+      await expect(service.deleteMessageById('m1', moderator)).resolves.toEqual(
+        { deleted: true, id: 'm1', channelKey: 'general' },
+      );
+      expect(permissions.assert).toHaveBeenCalledWith(
+        moderator,
+        'message.delete.any',
+        'general',
+      );
+      expect(audit.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actor: moderator,
+          action: 'message.delete',
+          target: { type: 'message', id: 'm1', channelKey: 'general' },
+        }),
+      );
+    });
+
+    it('rejects deletion of foreign messages without permission', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        id: 'm1',
+        channelKey: 'general',
+        authorId: 'u2',
+        deletedAt: null,
+      });
+
+      await expect(
+        service.deleteMessageById('m1', { id: 'u1', role: 'USER' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('lists deleted messages as placeholders without content', async () => {
+      prisma.message.findMany.mockResolvedValue([
+        { id: 'm2', content: 'visible', deletedAt: null },
+        { id: 'm1', content: 'secret', deletedAt: new Date() },
+      ]);
+
+      const { messages } = await service.listMessages({
+        channelKey: 'general',
+        take: 10,
+      });
+
+      expect(messages.map((m) => m.content)).toEqual(['visible', null]);
+    });
+  });
+
+  describe('history', () => {
+    const at = (ms: number) => new Date(ms);
+    const message = (id: string, ms: number) => ({
+      id,
+      content: id,
+      createdAt: at(ms),
+      deletedAt: null,
+    });
+
+    it('pages backwards from the newest message', async () => {
+      prisma.message.findMany.mockResolvedValue([
+        message('m3', 3000),
+        message('m2', 2000),
+        message('m1', 1000),
+      ]);
+
+      const page = await service.listMessages({
+        channelKey: 'general',
+        take: 2,
+      });
+
+      expect(prisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { channelKey: 'general', parentId: null },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: 3,
+        }),
+      );
+      expect(page.messages.map((m) => m.id)).toEqual(['m3', 'm2']);
+      expect(page).toMatchObject({
+        prevCursor: 'm2',
+        nextCursor: null,
+        hasMore: true,
+      });
+    });
+
+    it('pages forwards after an anchor in ascending order', async () => {
+      prisma.message.findFirst
+        .mockResolvedValueOnce(message('m1', 1000))
+        .mockResolvedValueOnce({ id: 'm0' });
+      prisma.message.findMany.mockResolvedValue([message('m2', 2000)]);
+
+      const page = await service.listMessages({
+        channelKey: 'general',
+        take: 2,
+        after: 'm1',
+        order: 'asc',
+      });
+
+      expect(prisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        }),
+      );
+      expect(page.messages.map((m) => m.id)).toEqual(['m2']);
+      expect(page).toMatchObject({
+        prevCursor: 'm2',
+        nextCursor: null,
+        hasMore: false,
+      });
+    });
+
+    it('lists the messages around an anchor', async () => {
+      prisma.message.findFirst.mockResolvedValue(message('m3', 3000));
+      prisma.message.findMany
+        .mockResolvedValueOnce([message('m2', 2000), message('m1', 1000)])
+        .mockResolvedValueOnce([message('m4', 4000)]);
+
+      const page = await service.listMessages({
+        channelKey: 'general',
+        take: 4,
+        around: 'm3',
+        order: 'asc',
+      });
+
+      expect(page.messages.map((m) => m.id)).toEqual(['m2', 'm3', 'm4']);
+      expect(page).toMatchObject({
+        prevCursor: 'm2',
+        nextCursor: null,
+        hasMore: true,
+      });
+    });
+
+    it('rejects combined anchors, replies and anchors from other channels', async () => {
+      await expect(
+        service.listMessages({
+          channelKey: 'general',
+          take: 10,
+          before: 'm1',
+          after: 'm2',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+
+      prisma.message.findFirst.mockResolvedValue({
+        ...message('r1', 1000),
+        parentId: 'm1',
+      });
+      await expect(
+        service.listMessages({ channelKey: 'general', take: 10, after: 'r1' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.message.findMany).not.toHaveBeenCalled();
+
+      prisma.message.findFirst.mockResolvedValue(null);
+      await expect(
+        service.listMessages({ channelKey: 'general', take: 10, around: 'x' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('replay', () => {
+    afterEach(() => {
+      delete process.env.REPLAY_MAX_MESSAGES;
+    });
+
+    it('replays messages after an anchor message in chronological order', async () => {
+      const anchorAt = new Date(1000);
+      prisma.message.findFirst.mockResolvedValue({
+        id: 'm1',
+        createdAt: anchorAt,
+      });
+      prisma.message.findMany.mockResolvedValue([{ id: 'm3' }, { id: 'm2' }]);
+
+      const replay = await service.listMessagesSince({
+        channelKey: 'general',
+        since: 'm1',
+      });
+
+      expect(replay).toEqual({
+        messages: [{ id: 'm2' }, { id: 'm3' }],
+        truncated: false,
+        limit: 100,
+      });
+      expect(prisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { channelKey: 'general', deletedAt: null },
+              {
+                OR: [
+                  { createdAt: { gt: anchorAt } },
+                  { createdAt: anchorAt, id: { gt: 'm1' } },
+                ],
+              },
+            ],
+          },
+          take: 101,
+        }),
+      );
+    });
+
+    it('keeps the newest messages when the gap exceeds the limit', async () => {
+      process.env.REPLAY_MAX_MESSAGES = '2';
+      prisma.message.findFirst.mockResolvedValue(null);
+      prisma.message.findMany.mockResolvedValue([
+        { id: 'm5' },
+        { id: 'm4' },
+        { id: 'm3' },
+      ]);
+
+      const replay = await service.listMessagesSince({
+        channelKey: 'general',
+        since: '2026-01-01T00:00:00Z',
+      });
+
+      expect(replay.messages).toEqual([{ id: 'm4' }, { id: 'm5' }]);
+      expect(replay.truncated).toBe(true);
+    });
+
+    it('accepts epoch milliseconds as anchors', async () => {
+      prisma.message.findFirst.mockResolvedValue(null);
+      prisma.message.findMany.mockResolvedValue([]);
+
+      await service.listMessagesSince({
+        channelKey: 'general',
+        since: '1700000000000',
+      });
+
+      expect(prisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { channelKey: 'general', deletedAt: null },
+              { createdAt: { gt: new Date(1700000000000) } },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('rejects anchors that are neither message ids nor timestamps', async () => {
+      prisma.message.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.listMessagesSince({ channelKey: 'general', since: 'nope' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('threads', () => {
+    const reply = {
+      channelKey: 'general',
+      authorId: 'u1',
+      authorRole: 'USER' as const,
+      content: 'reply',
+    };
+
+    it('attaches replies to replies to the thread root', async () => {
+      const threads = jest.fn();
+      module.get(EventsService).on('thread.updated').subscribe(threads);
+      const lastReplyAt = new Date();
+      prisma.message.findUnique.mockResolvedValue({
+        id: 'r1',
+        channelKey: 'general',
+        parentId: 'root',
+        deletedAt: null,
+      });
+      prisma.message.create.mockResolvedValue({
+        id: 'r2',
+        createdAt: lastReplyAt,
+      });
+      prisma.message.update.mockResolvedValue({
+        id: 'root',
+        replyCount: 2,
+        lastReplyAt,
+      });
+
+      await service.createMessage({ ...reply, parentId: 'r1' });
+
+      expect(prisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { ...reply, links: [], mentions: [], parentId: 'root' },
+        }),
+      );
+      expect(threads).toHaveBeenCalledWith({
+        channelKey: 'general',
+        parentId: 'root',
+        replyCount: 2,
+        lastReplyAt,
+      });
+      expect(notifications.notifyMentions).toHaveBeenCalledWith({
+        id: 'r2',
+        createdAt: lastReplyAt,
+      });
+    });
+
+    it('pages replies by creation time, then id', async () => {
+      const user = { id: 'u1', role: 'USER' as const };
+      prisma.message.findUnique.mockResolvedValue({ channelKey: 'general' });
+      permissions.assert.mockResolvedValue(undefined);
+      prisma.message.findMany.mockResolvedValue([]);
+
+      await service.listReplies({
+        parentId: 'root',
+        user,
+        take: 20,
+        cursor: 'r5',
+      });
+
+      expect(permissions.assert).toHaveBeenCalledWith(
+        user,
+        'message.read',
+        'general',
+      );
+      expect(prisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { parentId: 'root' },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: 20,
+          cursor: { id: 'r5' },
+          skip: 1,
+        }),
+      );
+    });
+
+    it('claims attachments of the new message', async () => {
+      const stored = { id: 'm1', authorId: 'u1', attachments: [{ id: 'a1' }] };
+      prisma.message.create.mockResolvedValue({ ...stored, attachments: [] });
+      prisma.message.findUniqueOrThrow.mockResolvedValue(stored);
+
+      await expect(
+        service.createMessage({ ...reply, attachmentIds: ['a1'] }),
+      ).resolves.toBe(stored);
+      expect(pipeline.process).toHaveBeenCalledWith(
+        expect.objectContaining({ attachmentCount: 1 }),
+      );
+      expect(attachments.claim).toHaveBeenCalledWith(prisma, {
+        messageId: 'm1',
+        uploaderId: 'u1',
+        ids: ['a1'],
+      });
+    });
+
+    it('rejects parents from other channels', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        id: 'p1',
+        channelKey: 'support',
+        parentId: null,
+        deletedAt: null,
+      });
+
+      await expect(
+        service.createMessage({ ...reply, parentId: 'p1' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(prisma.message.create).not.toHaveBeenCalled();
     });
-  }
-
-  /**
-   * Asserts that a user role has access to the specified channel.
-   *
-   * Throws a ForbiddenException if access is denied.
-   *
-   * @param channel Channel identifier
-   * @param role User role
-   */
-  assertChannelAccess(channel: ChannelKey, role: 'ADMIN' | 'USER') {
-    // Restrict support channel access to administrators only
-    if (channel === 'support' && role !== 'ADMIN') {
-      throw new ForbiddenException('No access to support channel');
-    }
-  }
-}
+  });
+});
@@ -1,15 +1,69 @@
 import {
+  BadRequestException,
   ForbiddenException,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import { ReactionsService } from '../reactions/reactions.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { MessagePipelineService } from '../message-pipeline/message-pipeline.service';
+import { AuditService } from '../audit/audit.service';
+import {
+  ATTACHMENT_SELECT,
+  AttachmentsService,
+} from '../attachments/attachments.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { parseDateFilter } from '../common/query-params';
 
 //Allowed user roles within the messaging domain.
-type Role = 'USER' | 'ADMIN';
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//Channel identifier (slug of a database-backed channel).
+type ChannelKey = string;
+
+//User descriptor used for access decisions.
+type MessageUser = { id: string; role: Role };
+
+//Fields returned for every message read through this service.
+const MESSAGE_SELECT = {
+  id: true,
+  channelKey: true,
+  authorId: true,
+  authorRole: true,
+  content: true,
+  links: true,
+  mentions: true,
+  createdAt: true,
+  editedAt: true,
+  deletedAt: true,
+  deletedById: true,
+  deletionReason: true,
+  parentId: true,
+  replyCount: true,
+  lastReplyAt: true,
+  attachments: { select: ATTACHMENT_SELECT, orderBy: { createdAt: 'asc' } },
+} as const;
+
+//Order of listed history pages (`desc`: newest first).
+export type HistoryOrder = 'asc' | 'desc';
+
+//Message as read with MESSAGE_SELECT.
+type HistoryMessage = Prisma.MessageGetPayload<{
+  select: typeof MESSAGE_SELECT;
+}>;
+
+//Largest page of listed history messages.
+const MAX_HISTORY_PAGE_SIZE = 100;
 
-//Supported message channel identifiers.
-type ChannelKey = 'general' | 'support';
+//Default time window (in seconds) in which authors may edit their messages.
+const DEFAULT_EDIT_WINDOW_SECONDS = 15 * 60;
+
+//Default maximum number of messages replayed when a client rejoins.
+const DEFAULT_REPLAY_LIMIT = 100;
 
 /**
  * Service responsible for message-related business logic.
@@ -23,38 +77,70 @@ export class MessagesService {
    * Creates a new MessagesService.
    *
    * @param prisma Prisma service used for database access
+   * @param channels Channels service providing channel access policies
+   * @param events Event bus used to announce message changes
+   * @param reactions Reactions service providing aggregated reaction counts
+   * @param permissions Service resolving effective permissions
+   * @param pipeline Pipeline processing message content before it is stored
+   * @param audit Audit log recording moderation actions
+   * @param attachments Attachments service claiming uploaded files
+   * @param notifications Service notifying mentioned users
    */
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private channels: ChannelsService,
+    private events: EventsService,
+    private reactions: ReactionsService,
+    private permissions: PermissionsService,
+    private pipeline: MessagePipelineService,
+    private audit: AuditService,
+    private attachments: AttachmentsService,
+    private notifications: NotificationsService,
+  ) {}
 
   /**
    * Asserts that a user has access to a given channel.
    *
-   * Throws a ForbiddenException if the role is not allowed
-   * to access the specified channel.
+   * Reads the channel's access policy from the database and throws
+   * a NotFoundException for unknown channels or a ForbiddenException
+   * if the user is not allowed to access the specified channel.
    *
    * @param channel Channel identifier
-   * @param role User role
+   * @param user User requesting access
+   * @returns The accessed channel
    */
-  assertChannelAccess(channel: ChannelKey, role: Role) {
-    // Restrict support channel access to admins only
-    if (channel === 'support' && role !== 'ADMIN') {
-      throw new ForbiddenException('No access to support channel');
-    }
+  async assertChannelAccess(channel: ChannelKey, user: MessageUser) {
+    return this.channels.assertAccess(channel, user);
   }
 
   /**
-   * Asserts that the given role belongs to an administrator.
+   * Asserts that a user may post new messages into a given channel.
    *
-   * @param role User role
+   * In addition to the access policy, archived channels are rejected.
+   *
+   * @param channel Channel identifier
+   * @param user User requesting access
+   * @returns The accessed channel
    */
-  assertAdmin(role: Role) {
-    // Enforce admin-only access
-    if (role !== 'ADMIN') throw new ForbiddenException('ADMIN only');
+  async assertChannelWritable(channel: ChannelKey, user: MessageUser) {
+    const found = await this.assertChannelAccess(channel, user);
+    this.channels.assertWritable(found);
+    return found;
   }
 
   /**
    * Creates and persists a new message.
    *
+   * The content is run through the message pipeline first, which may
+   * rewrite it, detect links and mentions, or reject the message.
+   * If `parentId` is given, the message is stored as reply in the thread
+   * of that message. Replies to replies are attached to the thread root.
+   * Posting a reply updates the thread summary of the root message and
+   * emits a `thread.updated` domain event. `attachmentIds` attaches files
+   * the author uploaded before; messages with attachments may have empty
+   * content. Once stored, a `message.created` domain event is emitted and
+   * mentioned users are notified.
+   *
    * @param input Message creation payload
    * @returns The persisted message with selected fields
    */
@@ -63,91 +149,781 @@ export class MessagesService {
     authorId: string;
     authorRole: Role;
     content: string;
+    parentId?: string;
+    attachmentIds?: string[];
   }) {
-    // Persist message to the database
-    return this.prisma.message.create({
-      data: input,
-      select: {
-        id: true,
-        channelKey: true,
-        authorId: true,
-        authorRole: true,
-        content: true,
-        createdAt: true,
-      },
+    const { parentId, attachmentIds, ...rest } = input;
+    const ids = this.attachments.normalizeIds(attachmentIds);
+
+    // Filter the content and extract links and mentions
+    const data = {
+      ...rest,
+      ...(await this.pipeline.process({
+        channelKey: rest.channelKey,
+        author: { id: rest.authorId, role: rest.authorRole },
+        content: rest.content,
+        attachmentCount: ids.length,
+      })),
+    };
+
+    // Persist top-level messages directly
+    if (!parentId) {
+      const message =
+        ids.length === 0
+          ? await this.prisma.message.create({
+              data,
+              select: MESSAGE_SELECT,
+            })
+          : await this.prisma.$transaction((tx) =>
+              this.insertMessage(tx, data, ids),
+            );
+
+      await this.announceCreated(message);
+      return message;
+    }
+
+    // The parent must be a visible message of the same channel
+    const parent = await this.prisma.message.findUnique({
+      where: { id: parentId },
+      select: { id: true, channelKey: true, parentId: true, deletedAt: true },
+    });
+    if (!parent || parent.deletedAt || parent.channelKey !== data.channelKey) {
+      throw new NotFoundException('Parent message not found');
+    }
+
+    // Threads are flat: always attach to the root message
+    const rootId = parent.parentId ?? parent.id;
+
+    const { reply, thread } = await this.prisma.$transaction(async (tx) => {
+      const reply = await this.insertMessage(
+        tx,
+        { ...data, parentId: rootId },
+        ids,
+      );
+
+      // Keep the thread summary on the root message up to date
+      const thread = await tx.message.update({
+        where: { id: rootId },
+        data: {
+          replyCount: { increment: 1 },
+          lastReplyAt: reply.createdAt,
+        },
+        select: { id: true, replyCount: true, lastReplyAt: true },
+      });
+
+      return { reply, thread };
+    });
+
+    // Announce the updated thread summary to realtime consumers
+    this.events.publish('thread.updated', {
+      channelKey: data.channelKey,
+      parentId: thread.id,
+      replyCount: thread.replyCount,
+      lastReplyAt: thread.lastReplyAt,
     });
+
+    await this.announceCreated(reply);
+    return reply;
+  }
+
+  /**
+   * Stores a message and attaches uploaded files to it.
+   *
+   * Runs inside a transaction, so a failed claim rolls the message back.
+   *
+   * @param tx Transaction client
+   * @param data Message data
+   * @param attachmentIds Validated attachment ids
+   * @returns The persisted message with selected fields
+   */
+  private async insertMessage(
+    tx: Prisma.TransactionClient,
+    data: Prisma.MessageUncheckedCreateInput,
+    attachmentIds: string[],
+  ) {
+    const message = await tx.message.create({
+      data,
+      select: MESSAGE_SELECT,
+    });
+    if (attachmentIds.length === 0) return message;
+
+    await this.attachments.claim(tx, {
+      messageId: message.id,
+      uploaderId: message.authorId,
+      ids: attachmentIds,
+    });
+
+    // Read the message again to include the claimed attachments
+    return tx.message.findUniqueOrThrow({
+      where: { id: message.id },
+      select: MESSAGE_SELECT,
+    });
+  }
+
+  /**
+   * Announces a new message and notifies the users it mentions.
+   *
+   * @param message Stored message
+   */
+  private async announceCreated(message: HistoryMessage) {
+    this.events.publish('message.created', {
+      channelKey: message.channelKey,
+      message,
+    });
+    await this.notifications.notifyMentions(message);
+  }
+
+  /**
+   * Replaces the content of soft-deleted messages with a placeholder.
+   *
+   * Tombstones keep their id and timestamps so that threads and
+   * pagination stay intact, but never expose the removed content or
+   * attachments.
+   *
+   * @param message Message as read from the database
+   * @returns The message, with content removed if it was deleted
+   */
+  private redact<T extends { content: string; deletedAt: Date | null }>(
+    message: T,
+  ): Omit<T, 'content'> & { content: string | null } {
+    return message.deletedAt
+      ? { ...message, content: null, attachments: [] }
+      : message;
+  }
+
+  /**
+   * Redacts deleted messages and attaches aggregated reaction counts.
+   *
+   * @param messages Messages read with `MESSAGE_SELECT`
+   * @returns Messages ready to be returned to clients
+   */
+  private async present<
+    T extends { id: string; content: string; deletedAt: Date | null },
+  >(messages: T[]) {
+    const reactions = await this.reactions.summarize(
+      messages.map((message) => message.id),
+    );
+
+    return messages.map((message) => ({
+      ...this.redact(message),
+      reactions: reactions.get(message.id) ?? [],
+    }));
   }
 
   /**
    * Lists messages for a given channel with pagination support.
    *
-   * Messages are returned in reverse chronological order.
+   * Only top-level messages are listed; replies are available through
+   * `listReplies`. Pages are anchored at a message: `before` (or the legacy
+   * `cursor`) lists older messages, `after` newer ones and `around` the
+   * anchor itself with the messages next to it. Without anchor, `desc`
+   * starts at the newest and `asc` at the oldest message. `from` / `to`
+   * restrict the listing to a time window. Deleted messages are returned as
+   * placeholders without content. Each message carries its aggregated
+   * reaction counts.
+   *
+   * `prevCursor` / `nextCursor` are the ids to pass as `before` / `after`
+   * for the adjacent pages and are null once the start / end of the
+   * history is reached. `hasMore` tells whether the requested direction
+   * has further messages.
    *
-   * @param params Query parameters including channel and pagination info
-   * @returns List of messages
+   * @param params Query parameters including channel, anchors and order
+   * @returns Page of messages in the requested order and paging cursors
    */
   async listMessages(params: {
     channelKey: ChannelKey;
     take: number;
     cursor?: string;
+    before?: string;
+    after?: string;
+    around?: string;
+    from?: string;
+    to?: string;
+    order?: HistoryOrder;
+  }) {
+    const { channelKey, take, after, around } = params;
+    const before = params.before ?? params.cursor;
+    const order = params.order ?? 'desc';
+
+    if ([before, after, around].filter(Boolean).length > 1) {
+      throw new BadRequestException(
+        'Only one of before, after and around is allowed',
+      );
+    }
+    if (order !== 'asc' && order !== 'desc') {
+      throw new BadRequestException('Invalid order');
+    }
+    if (!Number.isInteger(take) || take < 1 || take > MAX_HISTORY_PAGE_SIZE) {
+      throw new BadRequestException('Invalid page size');
+    }
+
+    // Top-level messages of the channel within the time window
+    const from = parseDateFilter(params.from);
+    const to = parseDateFilter(params.to);
+    const scope: Prisma.MessageWhereInput = {
+      channelKey,
+      parentId: null,
+      ...(from || to
+        ? {
+            createdAt: {
+              ...(from ? { gte: from } : {}),
+              ...(to ? { lte: to } : {}),
+            },
+          }
+        : {}),
+    };
+
+    const anchorId = before ?? after ?? around;
+    const anchor = anchorId
+      ? await this.findHistoryAnchor(channelKey, anchorId)
+      : null;
+
+    let messages: HistoryMessage[];
+    let hasOlder: boolean;
+    let hasNewer: boolean;
+    let hasMore: boolean;
+
+    if (anchor && around) {
+      // Split the page around the anchor, which is always included
+      const olderTake = Math.floor((take - 1) / 2);
+      const older = await this.readHistory(scope, anchor, 'older', olderTake);
+      const newer = await this.readHistory(
+        scope,
+        anchor,
+        'newer',
+        take - 1 - olderTake,
+      );
+
+      messages = [...older.messages, anchor, ...newer.messages];
+      hasOlder = older.hasMore;
+      hasNewer = newer.hasMore;
+      hasMore = hasOlder || hasNewer;
+    } else {
+      const direction =
+        after || (!before && order === 'asc') ? 'newer' : 'older';
+      const page = await this.readHistory(scope, anchor, direction, take);
+      messages = page.messages;
+      hasMore = page.hasMore;
+
+      // Look past the page boundary opposite to the paging direction
+      const boundary =
+        direction === 'older'
+          ? (messages[messages.length - 1] ?? anchor)
+          : (messages[0] ?? anchor);
+      const beyond = boundary
+        ? await this.prisma.message.findFirst({
+            where: {
+              AND: [
+                scope,
+                this.keysetWhere(
+                  boundary,
+                  direction === 'older' ? 'newer' : 'older',
+                ),
+              ],
+            },
+            select: { id: true },
+          })
+        : null;
+
+      hasOlder = direction === 'older' ? hasMore : !!beyond;
+      hasNewer = direction === 'newer' ? hasMore : !!beyond;
+    }
+
+    const oldest = messages[0] ?? anchor;
+    const newest = messages[messages.length - 1] ?? anchor;
+
+    return {
+      // Hide the content of deleted messages and attach reactions
+      messages: await this.present(
+        order === 'desc' ? [...messages].reverse() : messages,
+      ),
+      prevCursor: hasOlder && oldest ? oldest.id : null,
+      nextCursor: hasNewer && newest ? newest.id : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Reads one page of top-level messages next to a position.
+   *
+   * Reads one message more than requested to detect further messages.
+   *
+   * @param scope Channel and time window filter
+   * @param anchor Position to read from (null starts at the respective end)
+   * @param direction Whether older or newer messages are read
+   * @param take Number of messages to read
+   * @returns Messages in chronological order and whether more exist
+   */
+  private async readHistory(
+    scope: Prisma.MessageWhereInput,
+    anchor: HistoryMessage | null,
+    direction: 'older' | 'newer',
+    take: number,
+  ) {
+    const sort = direction === 'older' ? 'desc' : 'asc';
+    const rows = await this.prisma.message.findMany({
+      where: anchor
+        ? { AND: [scope, this.keysetWhere(anchor, direction)] }
+        : scope,
+      orderBy: [{ createdAt: sort }, { id: sort }],
+      take: take + 1,
+      select: MESSAGE_SELECT,
+    });
+
+    const messages = rows.slice(0, take);
+    return {
+      messages: direction === 'older' ? messages.reverse() : messages,
+      hasMore: rows.length > take,
+    };
+  }
+
+  /**
+   * Builds the filter matching messages older or newer than a message.
+   *
+   * Messages are ordered by creation time, then id, so messages created
+   * in the same millisecond page consistently.
+   *
+   * @param position Message to compare with
+   * @param direction Whether older or newer messages match
+   * @returns Prisma where fragment
+   */
+  private keysetWhere(
+    position: { id: string; createdAt: Date },
+    direction: 'older' | 'newer',
+  ): Prisma.MessageWhereInput {
+    const op = direction === 'older' ? 'lt' : 'gt';
+    return {
+      OR: [
+        { createdAt: { [op]: position.createdAt } },
+        { createdAt: position.createdAt, id: { [op]: position.id } },
+      ],
+    };
+  }
+
+  /**
+   * Loads the anchor message of a history query.
+   *
+   * Throws a NotFoundException if the message is not part of the channel
+   * and a BadRequestException for replies, which are not part of the
+   * channel history.
+   *
+   * @param channelKey Channel identifier
+   * @param id Anchor message id
+   * @returns The anchor message
+   */
+  private async findHistoryAnchor(channelKey: ChannelKey, id: string) {
+    const message = await this.prisma.message.findFirst({
+      where: { id, channelKey },
+      select: MESSAGE_SELECT,
+    });
+    if (!message) throw new NotFoundException('Anchor message not found');
+    if (message.parentId) {
+      throw new BadRequestException('Replies cannot be history anchors');
+    }
+
+    return message;
+  }
+
+  /**
+   * Lists the replies in the thread of a message with pagination support.
+   *
+   * Replies are listed newest first, ordered by creation time, then id,
+   * so replies created in the same millisecond page consistently. `cursor`
+   * is the id of the last reply of the previous page.
+   *
+   * @param params Thread root, requesting user and pagination info
+   * @returns List of replies
+   */
+  async listReplies(params: {
+    parentId: string;
+    user: MessageUser;
+    take: number;
+    cursor?: string;
   }) {
-    const { channelKey, take, cursor } = params;
+    const { parentId, user, take, cursor } = params;
+
+    // Ensure the thread root exists
+    const parent = await this.prisma.message.findUnique({
+      where: { id: parentId },
+      select: { channelKey: true },
+    });
+    if (!parent) throw new NotFoundException('Message not found');
 
-    // Query messages with optional cursor-based pagination
-    return this.prisma.message.findMany({
-      where: { channelKey },
-      orderBy: { createdAt: 'desc' },
+    // Replies inherit the access policy and overrides of their channel
+    await this.permissions.assert(user, 'message.read', parent.channelKey);
+
+    // Query replies with optional cursor-based pagination
+    const replies = await this.prisma.message.findMany({
+      where: { parentId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
       take,
       ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
-      select: {
-        id: true,
-        channelKey: true,
-        authorId: true,
-        authorRole: true,
-        content: true,
-        createdAt: true,
-      },
+      select: MESSAGE_SELECT,
+    });
+
+    // Hide the content of deleted replies and attach reactions
+    return this.present(replies);
+  }
+
+  /**
+   * Returns the configured maximum number of replayed messages.
+   *
+   * Read from `REPLAY_MAX_MESSAGES`, defaulting to 100.
+   *
+   * @returns Replay limit
+   */
+  private getReplayLimit(): number {
+    const limit = Number(process.env.REPLAY_MAX_MESSAGES);
+    return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_REPLAY_LIMIT;
+  }
+
+  /**
+   * Resolves a replay anchor to the filter matching the messages after it.
+   *
+   * The anchor is either the id of a message in the channel or a
+   * timestamp (ISO string or epoch milliseconds). Message anchors compare
+   * by creation time, then id, so messages created in the same millisecond
+   * are not lost.
+   *
+   * @param channelKey Channel identifier
+   * @param since Message id or timestamp
+   * @returns Prisma where fragment matching the replayed messages
+   */
+  private async resolveSince(
+    channelKey: ChannelKey,
+    since: string | number,
+  ): Promise<Prisma.MessageWhereInput> {
+    if (typeof since === 'string') {
+      const anchor = await this.prisma.message.findFirst({
+        where: { id: since, channelKey },
+        select: { id: true, createdAt: true },
+      });
+      if (anchor) return this.keysetWhere(anchor, 'newer');
+    }
+
+    // Fall back to interpreting the anchor as timestamp
+    const timestamp = parseDateFilter(String(since));
+    if (!timestamp) throw new BadRequestException('Invalid since anchor');
+
+    return { createdAt: { gt: timestamp } };
+  }
+
+  /**
+   * Lists the messages posted into a channel after an anchor.
+   *
+   * Used to replay missed traffic to reconnecting clients. Includes replies
+   * (as delivered live via `message.new`) but no deleted messages. If more
+   * messages than the replay limit were missed, only the newest ones are
+   * returned and `truncated` is set.
+   *
+   * @param params Channel and replay anchor (message id or timestamp)
+   * @returns Missed messages in chronological order
+   */
+  async listMessagesSince(params: {
+    channelKey: ChannelKey;
+    since: string | number;
+  }) {
+    const { channelKey } = params;
+    const since = await this.resolveSince(channelKey, params.since);
+    const limit = this.getReplayLimit();
+
+    // Read one message more than the limit to detect truncation
+    const messages = await this.prisma.message.findMany({
+      where: { AND: [{ channelKey, deletedAt: null }, since] },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      select: MESSAGE_SELECT,
     });
+
+    return {
+      messages: messages.slice(0, limit).reverse(),
+      truncated: messages.length > limit,
+      limit,
+    };
   }
 
   /**
-   * Deletes all messages belonging to a specific channel.
+   * Soft-deletes all visible messages belonging to a specific channel.
    *
-   * Intended for administrative or maintenance operations.
+   * Callers enforce `channel.flush`. The flush is recorded in the audit
+   * log; its `deletedAt` identifies the flushed messages.
+   * Emits a `channel.flushed` domain event.
    *
    * @param channelKey Channel identifier
+   * @param actor User performing the flush
+   * @param reason Optional reason stored with the deleted messages
    * @returns Summary of deleted messages
    */
-  async flushChannel(channelKey: ChannelKey) {
-    // Delete all messages in the given channel
-    const result = await this.prisma.message.deleteMany({
-      where: { channelKey },
+  async flushChannel(
+    channelKey: ChannelKey,
+    actor: MessageUser,
+    reason?: string,
+  ) {
+    const deletedAt = new Date();
+
+    // Mark all visible messages in the given channel as deleted
+    const result = await this.prisma.message.updateMany({
+      where: { channelKey, deletedAt: null },
+      data: { deletedAt, deletedById: actor.id, deletionReason: reason },
+    });
+
+    await this.audit.record({
+      actor,
+      action: 'channel.flush',
+      target: { type: 'channel', id: channelKey, channelKey },
+      after: { deleted: result.count, deletedAt, reason: reason ?? null },
+    });
+
+    // Announce the flush to realtime consumers
+    this.events.publish('channel.flushed', {
+      channelKey,
+      deleted: result.count,
+      deletedAt,
     });
 
     return { deleted: result.count, channelKey };
   }
 
   /**
-   * Deletes a single message by its identifier.
+   * Soft-deletes a single message by its identifier.
    *
-   * Throws a NotFoundException if the message does not exist.
+   * Authors may delete their own messages; users holding
+   * `message.delete.any` in the channel may delete any message.
+   * Throws a NotFoundException if the message does not exist or is
+   * already deleted. Deletions of foreign messages are recorded in the
+   * audit log. Emits a `message.deleted` domain event.
    *
    * @param id Message identifier
+   * @param actor User performing the deletion
+   * @param reason Optional reason stored with the deleted message
    * @returns Deletion result metadata
    */
-  async deleteMessageById(id: string) {
+  async deleteMessageById(id: string, actor: MessageUser, reason?: string) {
     // Check whether the message exists
     const existing = await this.prisma.message.findUnique({
       where: { id },
-      select: { id: true, channelKey: true },
+      select: MESSAGE_SELECT,
     });
 
-    // Fail if message does not exist
-    if (!existing) throw new NotFoundException('Message not found');
+    // Fail if message does not exist or is already deleted
+    if (!existing || existing.deletedAt) {
+      throw new NotFoundException('Message not found');
+    }
+
+    // Foreign messages require moderation rights in the channel; authors
+    // must still be able to read it
+    if (existing.authorId !== actor.id) {
+      await this.permissions.assert(
+        actor,
+        'message.delete.any',
+        existing.channelKey,
+      );
+    } else {
+      await this.permissions.assert(actor, 'message.read', existing.channelKey);
+    }
 
-    // Delete the message
-    await this.prisma.message.delete({ where: { id } });
+    // Mark the message as deleted
+    const deletedAt = new Date();
+    await this.prisma.message.update({
+      where: { id },
+      data: { deletedAt, deletedById: actor.id, deletionReason: reason },
+    });
+
+    // Deleting someone else's message is a moderation action
+    if (existing.authorId !== actor.id) {
+      await this.audit.record({
+        actor,
+        action: 'message.delete',
+        target: { type: 'message', id, channelKey: existing.channelKey },
+        before: existing,
+        after: { deletedAt, deletedById: actor.id, reason: reason ?? null },
+      });
+    }
+
+    // Announce the deletion to realtime consumers
+    this.events.publish('message.deleted', {
+      channelKey: existing.channelKey,
+      messageId: id,
+      deletedAt,
+      deletedById: actor.id,
+    });
 
     return { deleted: true, id, channelKey: existing.channelKey };
   }
+
+  /**
+   * Restores a soft-deleted message.
+   *
+   * Callers enforce `message.restore`. The restore is recorded in the
+   * audit log. Emits a `message.restored` domain event.
+   *
+   * @param id Message identifier
+   * @param actor User restoring the message
+   * @returns The restored message with selected fields
+   */
+  async restoreMessage(id: string, actor: MessageUser) {
+    const existing = await this.prisma.message.findUnique({
+      where: { id },
+      select: MESSAGE_SELECT,
+    });
+    if (!existing) throw new NotFoundException('Message not found');
+
+    // Nothing to restore for visible messages
+    if (!existing.deletedAt) {
+      throw new BadRequestException('Message is not deleted');
+    }
+
+    const restored = await this.prisma.message.update({
+      where: { id },
+      data: { deletedAt: null, deletedById: null, deletionReason: null },
+      select: MESSAGE_SELECT,
+    });
+
+    await this.audit.record({
+      actor,
+      action: 'message.restore',
+      target: { type: 'message', id, channelKey: restored.channelKey },
+      before: existing,
+      after: restored,
+    });
+
+    // Announce the restored message to realtime consumers
+    this.events.publish('message.restored', {
+      channelKey: restored.channelKey,
+      message: restored,
+    });
+
+    return restored;
+  }
+
+  /**
+   * Returns the configured edit window in milliseconds.
+   *
+   * Read from `MESSAGE_EDIT_WINDOW_SECONDS`, defaulting to 15 minutes.
+   *
+   * @returns Edit window in milliseconds
+   */
+  private getEditWindowMs(): number {
+    const seconds = Number(process.env.MESSAGE_EDIT_WINDOW_SECONDS);
+    return (
+      (Number.isFinite(seconds) && seconds >= 0
+        ? seconds
+        : DEFAULT_EDIT_WINDOW_SECONDS) * 1000
+    );
+  }
+
+  /**
+   * Edits the content of a message and stores the previous revision.
+   *
+   * Authors may edit their own messages within the configured edit window;
+   * users holding `message.edit.any` in the channel may edit any message
+   * at any time. The new content is run through the message pipeline.
+   * Edits of foreign messages are recorded in the audit log. Emits a
+   * `message.updated` domain event on success.
+   *
+   * @param input Message id, editing user and new content
+   * @returns The updated message with selected fields
+   */
+  async editMessage(input: { id: string; user: MessageUser; content: string }) {
+    const { id, user } = input;
+
+    const existing = await this.prisma.message.findUnique({
+      where: { id },
+      select: MESSAGE_SELECT,
+    });
+
+    // Deleted messages cannot be edited
+    if (!existing || existing.deletedAt) {
+      throw new NotFoundException('Message not found');
+    }
+
+    // The editor must still be able to post into the channel
+    await this.assertChannelWritable(existing.channelKey, user);
+
+    const canEditAny = await this.permissions.can(
+      user,
+      'message.edit.any',
+      existing.channelKey,
+    );
+
+    // Only the author (or a user allowed to edit any message) may edit
+    if (existing.authorId !== user.id && !canEditAny) {
+      throw new ForbiddenException('Only the author can edit this message');
+    }
+
+    // Authors are limited to the configured edit window
+    if (
+      !canEditAny &&
+      Date.now() - existing.createdAt.getTime() > this.getEditWindowMs()
+    ) {
+      throw new ForbiddenException('Edit window has expired');
+    }
+
+    // Filter the content and extract links and mentions
+    const processed = await this.pipeline.process({
+      channelKey: existing.channelKey,
+      author: user,
+      content: input.content,
+      attachmentCount: existing.attachments.length,
+    });
+
+    // Nothing to do if the content did not change
+    if (existing.content === processed.content) return existing;
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Keep the previous content as revision
+      await tx.messageRevision.create({
+        data: { messageId: id, content: existing.content, editedById: user.id },
+      });
+
+      return tx.message.update({
+        where: { id },
+        data: { ...processed, editedAt: new Date() },
+        select: MESSAGE_SELECT,
+      });
+    });
+
+    // Editing someone else's message is a moderation action
+    if (existing.authorId !== user.id) {
+      await this.audit.record({
+        actor: user,
+        action: 'message.edit',
+        target: { type: 'message', id, channelKey: updated.channelKey },
+        before: existing,
+        after: updated,
+      });
+    }
+
+    // Announce the change to realtime consumers
+    this.events.publish('message.updated', {
+      channelKey: updated.channelKey,
+      message: updated,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Lists the revision history of a message.
+   *
+   * Revisions are returned in chronological order (oldest first).
+   *
+   * @param id Message identifier
+   * @returns The message and its previous revisions
+   */
+  async listRevisions(id: string) {
+    const message = await this.prisma.message.findUnique({
+      where: { id },
+      select: MESSAGE_SELECT,
+    });
+    if (!message) throw new NotFoundException('Message not found');
+
+    const revisions = await this.prisma.messageRevision.findMany({
+      where: { messageId: id },
+      orderBy: { editedAt: 'asc' },
+      select: { id: true, content: true, editedById: true, editedAt: true },
+    });
+
+    return { message, revisions };
+  }
 }
@@ -0,0 +1,32 @@
+import { IsInt, IsOptional, IsString, Length, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for banning a user from a channel.
+ *
+ * This DTO validates the request body of the
+ * `POST /messages/ban?channel=` endpoint.
+ */
+export class BanUserDto {
+  /**
+   * ID of the user to ban (JWT `sub` of that user).
+   */
+  @IsString()
+  @Length(1, 200)
+  userId!: string;
+
+  /**
+   * Optional duration of the ban in seconds (permanent if omitted).
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  durationSeconds?: number;
+
+  /**
+   * Optional reason shown to the channel.
+   */
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  reason?: string;
+}
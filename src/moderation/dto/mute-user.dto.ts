@@ -0,0 +1,31 @@
+import { IsInt, IsOptional, IsString, Length, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for muting a user in a channel.
+ *
+ * This DTO validates the request body of the
+ * `POST /messages/mute?channel=` endpoint.
+ */
+export class MuteUserDto {
+  /**
+   * ID of the user to mute (JWT `sub` of that user).
+   */
+  @IsString()
+  @Length(1, 200)
+  userId!: string;
+
+  /**
+   * Duration of the mute in seconds.
+   */
+  @IsInt()
+  @Min(1)
+  durationSeconds!: number;
+
+  /**
+   * Optional reason shown to the channel.
+   */
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  reason?: string;
+}
@@ -0,0 +1,17 @@
+import { IsInt, Max, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for the slow mode of a channel.
+ *
+ * This DTO validates the request body of the
+ * `PUT /messages/slow-mode?channel=` endpoint.
+ */
+export class SlowModeDto {
+  /**
+   * Minimum interval between two posts of a user (0 disables slow mode).
+   */
+  @IsInt()
+  @Min(0)
+  @Max(21600)
+  seconds!: number;
+}
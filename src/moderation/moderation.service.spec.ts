@@ -0,0 +1,193 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ModerationService } from './moderation.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('ModerationService', () => {
+  let prisma: {
+    channel: { update: jest.Mock; findUniqueOrThrow: jest.Mock };
+    channelSanction: {
+      create: jest.Mock;
+      findFirst: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    message: { findFirst: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let channels: { findBySlugOrFail: jest.Mock; findMembership: jest.Mock };
+  let permissions: { can: jest.Mock };
+  let audit: { record: jest.Mock };
+  let events: EventsService;
+  let service: ModerationService;
+
+  const moderator = { id: 'mod', role: 'MODERATOR' as const };
+  const user = { id: 'u1', role: 'USER' as const };
+
+  beforeEach(() => {
+    prisma = {
+      channel: {
+        update: jest.fn(),
+        findUniqueOrThrow: jest.fn().mockResolvedValue({ slowModeSeconds: 0 }),
+      },
+      channelSanction: {
+        create: jest.fn((args: { data: object }) => ({
+          id: 's1',
+          ...args.data,
+        })),
+        findFirst: jest.fn().mockResolvedValue(null),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      message: { findFirst: jest.fn().mockResolvedValue(null) },
+      $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(prisma)),
+    };
+    channels = {
+      findBySlugOrFail: jest.fn().mockResolvedValue({
+        id: 'c1',
+        slug: 'general',
+        slowModeSeconds: 0,
+      }),
+      findMembership: jest.fn().mockResolvedValue(null),
+    };
+    permissions = { can: jest.fn().mockResolvedValue(false) };
+    events = new EventsService();
+    audit = { record: jest.fn() };
+
+    service = new ModerationService(
+      prisma as unknown as PrismaService,
+      channels as unknown as ChannelsService,
+      events,
+      permissions as unknown as PermissionsService,
+      audit as unknown as AuditService,
+    );
+  });
+
+  it('mutes users for a duration and announces it', async () => {
+    const moderated = jest.fn();
+    events.on('channel.moderated').subscribe(moderated);
+
+    const mute = await service.mute('general', moderator, {
+      userId: 'u1',
+      durationSeconds: 60,
+      reason: 'spam',
+    });
+
+    expect(prisma.channelSanction.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          userId: 'u1',
+          type: 'MUTE',
+        }) as object,
+      }),
+    );
+    expect(mute).toMatchObject({ type: 'MUTE', channelKey: 'general' });
+    expect(moderated).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channelKey: 'general',
+        action: 'user.muted',
+        userId: 'u1',
+        actorId: 'mod',
+        reason: 'spam',
+      }),
+    );
+  });
+
+  it('stores bans without duration as permanent', async () => {
+    const ban = await service.ban('general', moderator, { userId: 'u1' });
+
+    expect(ban.expiresAt).toBeNull();
+  });
+
+  it('rejects invalid durations and self-sanctions', async () => {
+    await expect(
+      service.mute('general', moderator, { userId: 'u1', durationSeconds: 0 }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.ban('general', moderator, { userId: 'mod' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('only sanctions users of a lower rank', async () => {
+    // Channel owner
+    channels.findMembership.mockImplementation((_channelId, userId) =>
+      Promise.resolve(userId === 'owner' ? { role: 'OWNER' } : null),
+    );
+    await expect(
+      service.ban('general', moderator, { userId: 'owner' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+
+    // Global moderator, known from their last message
+    prisma.message.findFirst.mockResolvedValueOnce({ authorRole: 'MODERATOR' });
+    await expect(
+      service.mute('general', moderator, {
+        userId: 'mod2',
+        durationSeconds: 60,
+      }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(prisma.channelSanction.create).not.toHaveBeenCalled();
+
+    // Channel roles count as well
+    await expect(
+      service.ban('general', { id: 'owner', role: 'USER' }, { userId: 'u1' }),
+    ).resolves.toMatchObject({ type: 'BAN' });
+  });
+
+  it('fails to lift sanctions that are not active', async () => {
+    await expect(
+      service.unban('general', moderator, 'u1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('rejects posts of muted and banned users', async () => {
+    prisma.channelSanction.findFirst.mockImplementation(
+      (args: { where: { type: string } }) =>
+        args.where.type === 'MUTE' ? { id: 's1' } : null,
+    );
+
+    await expect(service.assertCanPost('general', user)).rejects.toThrow(
+      'Muted in this channel',
+    );
+    await expect(
+      service.assertNotBanned('general', 'u1'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('enforces the slow mode interval except for moderators', async () => {
+    prisma.channel.findUniqueOrThrow.mockResolvedValue({ slowModeSeconds: 30 });
+    prisma.message.findFirst.mockResolvedValue({
+      createdAt: new Date(Date.now() - 10_000),
+    });
+
+    await expect(service.assertCanPost('general', user)).rejects.toThrow(
+      ForbiddenException,
+    );
+
+    permissions.can.mockResolvedValue(true);
+    await expect(
+      service.assertCanPost('general', moderator),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects slow mode intervals out of range', async () => {
+    await expect(
+      service.setSlowMode('general', moderator, -1),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.setSlowMode('general', moderator, 10),
+    ).resolves.toEqual({ channelKey: 'general', slowModeSeconds: 10 });
+    expect(audit.record).toHaveBeenCalledTimes(1);
+    expect(audit.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'channel.slowmode',
+        before: { slowModeSeconds: 0 },
+        after: { slowModeSeconds: 10 },
+      }),
+    );
+  });
+});
@@ -0,0 +1,487 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ChannelMemberRole,
+  ChannelsService,
+} from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { ModerationEvent } from '../events/domain-events';
+import { AuditService } from '../audit/audit.service';
+
+//Allowed user roles within the moderation domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//Channel identifier (slug of a database-backed channel).
+type ChannelKey = string;
+
+//User descriptor used for moderation decisions.
+type ModerationUser = { id: string; role: Role };
+
+//Kind of a channel sanction.
+type SanctionType = 'MUTE' | 'BAN';
+
+//Rank of global and channel roles; sanctions require a higher rank.
+const RANKS: Record<Role | ChannelMemberRole, number> = {
+  USER: 0,
+  MEMBER: 0,
+  MODERATOR: 1,
+  OWNER: 2,
+  ADMIN: 3,
+};
+
+//Longest slow mode interval (6 hours).
+const MAX_SLOW_MODE_SECONDS = 6 * 60 * 60;
+
+//Fields returned for every sanction read through this service.
+const SANCTION_SELECT = {
+  id: true,
+  userId: true,
+  type: true,
+  reason: true,
+  createdById: true,
+  createdAt: true,
+  expiresAt: true,
+} as const;
+
+/**
+ * Service responsible for channel moderation.
+ *
+ * Moderators can mute users (read-only for a duration), ban users (no
+ * access, optionally for a duration) and enable slow mode (minimum
+ * interval between two posts of a user). Sanctions are persisted and
+ * active until they expire or are lifted. Users can only be sanctioned by
+ * actors of a higher global or channel rank. Every action is announced as
+ * `channel.moderated` domain event.
+ */
+@Injectable()
+export class ModerationService {
+  /**
+   * Creates a new ModerationService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param channels Channels service used to resolve channels
+   * @param events Event bus used to announce moderation actions
+   * @param permissions Service resolving slow mode exemptions
+   * @param audit Audit log recording moderation actions
+   */
+  constructor(
+    private prisma: PrismaService,
+    private channels: ChannelsService,
+    private events: EventsService,
+    private permissions: PermissionsService,
+    private audit: AuditService,
+  ) {}
+
+  /**
+   * Mutes a user in a channel for a duration.
+   *
+   * Replaces an active mute of the user in that channel.
+   *
+   * @param channelKey Channel identifier
+   * @param actor Moderator issuing the mute
+   * @param input Muted user, duration in seconds and optional reason
+   * @returns The created sanction
+   */
+  async mute(
+    channelKey: ChannelKey,
+    actor: ModerationUser,
+    input: { userId: string; durationSeconds: number; reason?: string },
+  ) {
+    this.assertDuration(input.durationSeconds);
+
+    return this.sanction(channelKey, actor, 'MUTE', {
+      ...input,
+      expiresAt: new Date(Date.now() + input.durationSeconds * 1000),
+    });
+  }
+
+  /**
+   * Bans a user from a channel, permanently or for a duration.
+   *
+   * Replaces an active ban of the user in that channel. Connected sockets
+   * of the user are removed from the channel room by the gateway.
+   *
+   * @param channelKey Channel identifier
+   * @param actor Moderator issuing the ban
+   * @param input Banned user, optional duration in seconds and reason
+   * @returns The created sanction
+   */
+  async ban(
+    channelKey: ChannelKey,
+    actor: ModerationUser,
+    input: { userId: string; durationSeconds?: number; reason?: string },
+  ) {
+    if (input.durationSeconds !== undefined) {
+      this.assertDuration(input.durationSeconds);
+    }
+
+    return this.sanction(channelKey, actor, 'BAN', {
+      ...input,
+      expiresAt:
+        input.durationSeconds !== undefined
+          ? new Date(Date.now() + input.durationSeconds * 1000)
+          : null,
+    });
+  }
+
+  /**
+   * Lifts the active mute of a user in a channel.
+   *
+   * Throws a NotFoundException if the user is not muted.
+   *
+   * @param channelKey Channel identifier
+   * @param actor Moderator lifting the mute
+   * @param userId Muted user
+   * @returns Lift result metadata
+   */
+  async unmute(channelKey: ChannelKey, actor: ModerationUser, userId: string) {
+    return this.lift(channelKey, actor, 'MUTE', userId);
+  }
+
+  /**
+   * Lifts the active ban of a user in a channel.
+   *
+   * Throws a NotFoundException if the user is not banned.
+   *
+   * @param channelKey Channel identifier
+   * @param actor Moderator lifting the ban
+   * @param userId Banned user
+   * @returns Lift result metadata
+   */
+  async unban(channelKey: ChannelKey, actor: ModerationUser, userId: string) {
+    return this.lift(channelKey, actor, 'BAN', userId);
+  }
+
+  /**
+   * Sets the slow mode interval of a channel.
+   *
+   * @param channelKey Channel identifier
+   * @param actor Moderator changing the slow mode
+   * @param seconds Minimum interval between posts (0 disables slow mode)
+   * @returns The channel key and the new interval
+   */
+  async setSlowMode(
+    channelKey: ChannelKey,
+    actor: ModerationUser,
+    seconds: number,
+  ) {
+    if (
+      !Number.isInteger(seconds) ||
+      seconds < 0 ||
+      seconds > MAX_SLOW_MODE_SECONDS
+    ) {
+      throw new BadRequestException('Invalid slow mode interval');
+    }
+
+    const channel = await this.channels.findBySlugOrFail(channelKey);
+
+    await this.prisma.channel.update({
+      where: { slug: channelKey },
+      data: { slowModeSeconds: seconds },
+    });
+
+    await this.audit.record({
+      actor,
+      action: 'channel.slowmode',
+      target: { type: 'channel', id: channelKey, channelKey },
+      before: { slowModeSeconds: channel.slowModeSeconds },
+      after: { slowModeSeconds: seconds },
+    });
+
+    this.publish({
+      channelKey,
+      action: 'slowmode.updated',
+      actorId: actor.id,
+      slowModeSeconds: seconds,
+    });
+
+    return { channelKey, slowModeSeconds: seconds };
+  }
+
+  /**
+   * Asserts that a user is not banned from a channel.
+   *
+   * Throws a ForbiddenException for banned users.
+   *
+   * @param channelKey Channel identifier
+   * @param userId User to check
+   */
+  async assertNotBanned(channelKey: ChannelKey, userId: string) {
+    const channel = await this.channels.findBySlugOrFail(channelKey);
+
+    if (await this.findActive(channel.id, userId, 'BAN')) {
+      throw new ForbiddenException('Banned from this channel');
+    }
+  }
+
+  /**
+   * Asserts that a user may post into a channel right now.
+   *
+   * Rejects banned and muted users, and posts within the slow mode
+   * interval of the user's previous post. Holders of `user.mute` in the
+   * channel are exempt from slow mode.
+   *
+   * @param channelKey Channel identifier
+   * @param user Posting user
+   */
+  async assertCanPost(channelKey: ChannelKey, user: ModerationUser) {
+    const channel = await this.channels.findBySlugOrFail(channelKey);
+
+    if (await this.findActive(channel.id, user.id, 'BAN')) {
+      throw new ForbiddenException('Banned from this channel');
+    }
+    if (await this.findActive(channel.id, user.id, 'MUTE')) {
+      throw new ForbiddenException('Muted in this channel');
+    }
+
+    const { slowModeSeconds } = await this.prisma.channel.findUniqueOrThrow({
+      where: { id: channel.id },
+      select: { slowModeSeconds: true },
+    });
+    if (slowModeSeconds <= 0) return;
+    if (await this.permissions.can(user, 'user.mute', channelKey)) return;
+
+    // Deleted messages count as well, so deleting does not skip the wait
+    const last = await this.prisma.message.findFirst({
+      where: { channelKey, authorId: user.id },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+    const waitMs = last
+      ? last.createdAt.getTime() + slowModeSeconds * 1000 - Date.now()
+      : 0;
+
+    if (waitMs > 0) {
+      throw new ForbiddenException(
+        `Slow mode is enabled, retry in ${Math.ceil(waitMs / 1000)}s`,
+      );
+    }
+  }
+
+  /**
+   * Replaces the active sanction of a user and announces the new one.
+   *
+   * @param channelKey Channel identifier
+   * @param actor Moderator issuing the sanction
+   * @param type Kind of sanction
+   * @param input Sanctioned user, end of the sanction and optional reason
+   * @returns The created sanction
+   */
+  private async sanction(
+    channelKey: ChannelKey,
+    actor: ModerationUser,
+    type: SanctionType,
+    input: { userId: string; expiresAt: Date | null; reason?: string },
+  ) {
+    if (typeof input.userId !== 'string' || !input.userId) {
+      throw new BadRequestException('Missing userId');
+    }
+    if (input.userId === actor.id) {
+      throw new BadRequestException('Cannot sanction yourself');
+    }
+
+    const channel = await this.channels.findBySlugOrFail(channelKey);
+    await this.assertOutranks(channel.id, actor, input.userId);
+
+    const now = new Date();
+    const previous = await this.findActive(channel.id, input.userId, type);
+
+    const sanction = await this.prisma.$transaction(async (tx) => {
+      // At most one active sanction of each type per user and channel
+      await tx.channelSanction.updateMany({
+        where: {
+          channelId: channel.id,
+          userId: input.userId,
+          type,
+          ...this.activeWhere(now),
+        },
+        data: { liftedAt: now, liftedById: actor.id },
+      });
+
+      return tx.channelSanction.create({
+        data: {
+          channelId: channel.id,
+          userId: input.userId,
+          type,
+          reason: input.reason ?? null,
+          createdById: actor.id,
+          expiresAt: input.expiresAt,
+        },
+        select: SANCTION_SELECT,
+      });
+    });
+
+    this.publish({
+      channelKey,
+      action: type === 'MUTE' ? 'user.muted' : 'user.banned',
+      actorId: actor.id,
+      userId: input.userId,
+      until: sanction.expiresAt,
+      reason: sanction.reason,
+    });
+
+    await this.audit.record({
+      actor,
+      action: type === 'MUTE' ? 'user.mute' : 'user.ban',
+      target: { type: 'user', id: input.userId, channelKey },
+      before: previous ?? undefined,
+      after: sanction,
+    });
+
+    return { ...sanction, channelKey };
+  }
+
+  /**
+   * Asserts that an actor outranks the user to be sanctioned.
+   *
+   * The rank of a user is the higher one of their global role and their
+   * channel role. Users are not stored, so the global role of the target
+   * is the one they last posted with (USER if they never posted).
+   * Throws a ForbiddenException for targets of equal or higher rank.
+   *
+   * @param channelId Channel primary key
+   * @param actor Moderator issuing the sanction
+   * @param userId User to sanction
+   */
+  private async assertOutranks(
+    channelId: string,
+    actor: ModerationUser,
+    userId: string,
+  ) {
+    const last = await this.prisma.message.findFirst({
+      where: { authorId: userId },
+      orderBy: { createdAt: 'desc' },
+      select: { authorRole: true },
+    });
+
+    const actorRank = await this.rankOf(channelId, actor);
+    const targetRank = await this.rankOf(channelId, {
+      id: userId,
+      role: last?.authorRole ?? 'USER',
+    });
+
+    if (targetRank >= actorRank) {
+      throw new ForbiddenException(
+        'Cannot sanction users of equal or higher rank',
+      );
+    }
+  }
+
+  /**
+   * Resolves the rank of a user in a channel.
+   *
+   * @param channelId Channel primary key
+   * @param user User with their global role
+   * @returns The higher one of the global and the channel rank
+   */
+  private async rankOf(channelId: string, user: ModerationUser) {
+    const membership = await this.channels.findMembership(channelId, user.id);
+
+    return Math.max(RANKS[user.role], membership ? RANKS[membership.role] : 0);
+  }
+
+  /**
+   * Lifts the active sanction of a user and announces it.
+   *
+   * @param channelKey Channel identifier
+   * @param actor Moderator lifting the sanction
+   * @param type Kind of sanction
+   * @param userId Sanctioned user
+   * @returns Lift result metadata
+   */
+  private async lift(
+    channelKey: ChannelKey,
+    actor: ModerationUser,
+    type: SanctionType,
+    userId: string,
+  ) {
+    const channel = await this.channels.findBySlugOrFail(channelKey);
+    const now = new Date();
+
+    const active = await this.findActive(channel.id, userId, type);
+    const { count } = await this.prisma.channelSanction.updateMany({
+      where: { channelId: channel.id, userId, type, ...this.activeWhere(now) },
+      data: { liftedAt: now, liftedById: actor.id },
+    });
+    if (count === 0) {
+      throw new NotFoundException(
+        type === 'MUTE' ? 'User is not muted' : 'User is not banned',
+      );
+    }
+
+    await this.audit.record({
+      actor,
+      action: type === 'MUTE' ? 'user.unmute' : 'user.unban',
+      target: { type: 'user', id: userId, channelKey },
+      before: active ?? undefined,
+      after: { liftedAt: now, liftedById: actor.id },
+    });
+
+    this.publish({
+      channelKey,
+      action: type === 'MUTE' ? 'user.unmuted' : 'user.unbanned',
+      actorId: actor.id,
+      userId,
+    });
+
+    return { lifted: true, channelKey, userId };
+  }
+
+  /**
+   * Loads the active sanction of a user.
+   *
+   * @param channelId Channel primary key
+   * @param userId User identifier
+   * @param type Kind of sanction
+   * @returns The sanction or null if none is active
+   */
+  private async findActive(
+    channelId: string,
+    userId: string,
+    type: SanctionType,
+  ) {
+    return this.prisma.channelSanction.findFirst({
+      where: { channelId, userId, type, ...this.activeWhere(new Date()) },
+      select: SANCTION_SELECT,
+    });
+  }
+
+  /**
+   * Builds the filter matching sanctions that are neither lifted nor expired.
+   *
+   * @param now Reference time
+   * @returns Prisma where fragment
+   */
+  private activeWhere(now: Date) {
+    return {
+      liftedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    };
+  }
+
+  /**
+   * Validates a sanction duration.
+   *
+   * @param seconds Duration in seconds
+   */
+  private assertDuration(seconds: number) {
+    if (!Number.isInteger(seconds) || seconds < 1) {
+      throw new BadRequestException('Invalid duration');
+    }
+  }
+
+  /**
+   * Publishes a `channel.moderated` domain event.
+   *
+   * @param event Event payload without timestamp
+   */
+  private publish(event: Omit<ModerationEvent, 'at'>) {
+    this.events.publish('channel.moderated', { ...event, at: new Date() });
+  }
+}
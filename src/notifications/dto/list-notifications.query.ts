@@ -0,0 +1,36 @@
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for listing notifications.
+ *
+ * This DTO validates and describes the supported query parameters
+ * for the `GET /me/notifications` endpoint.
+ */
+export class ListNotificationsQueryDto {
+  /**
+   * Optional filter returning unread notifications only (`true`).
+   */
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  unread?: string;
+
+  /**
+   * Optional pagination cursor.
+   *
+   * Represents the ID of the last notification from the previous page.
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  /**
+   * Optional number of notifications to return.
+   *
+   * Must be between 1 and 100 if provided.
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  take?: number;
+}
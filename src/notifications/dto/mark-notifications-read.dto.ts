@@ -0,0 +1,20 @@
+import { ArrayMaxSize, IsArray, IsOptional, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for marking notifications as read.
+ *
+ * This DTO validates the request body of the
+ * `POST /me/notifications/read` endpoint.
+ */
+export class MarkNotificationsReadDto {
+  /**
+   * Optional IDs of the read notifications.
+   *
+   * Defaults to all unread notifications of the user.
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  ids?: string[];
+}
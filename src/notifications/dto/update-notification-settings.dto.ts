@@ -0,0 +1,15 @@
+import { IsBoolean } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for the notification settings of a channel.
+ *
+ * This DTO validates the request body of the
+ * `PUT /channels/:slug/notifications` endpoint.
+ */
+export class UpdateNotificationSettingsDto {
+  /**
+   * Whether notifications of the channel are muted.
+   */
+  @IsBoolean()
+  muted!: boolean;
+}
@@ -0,0 +1,97 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { ListNotificationsQueryDto } from './dto/list-notifications.query';
+import { MarkNotificationsReadDto } from './dto/mark-notifications-read.dto';
+import { UpdateNotificationSettingsDto } from './dto/update-notification-settings.dto';
+import type { RequestUser } from '../auth/request-user';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+
+/**
+ * HTTP controller for mention notifications.
+ *
+ * New notifications are pushed in realtime to the personal room of the
+ * notified user (`notification.new`).
+ */
+@Controller()
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+export class NotificationsController {
+  /**
+   * Creates a new NotificationsController.
+   *
+   * @param notifications Service providing notification logic
+   */
+  constructor(private readonly notifications: NotificationsService) {}
+
+  /**
+   * Lists the notifications of the authenticated user, newest first.
+   *
+   * @param q Unread filter and pagination parameters
+   * @param user Authenticated user
+   * @returns One page of notifications, the next cursor and the unread count
+   */
+  @Get('me/notifications')
+  async list(
+    @Query() q: ListNotificationsQueryDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.notifications.list(user, {
+      unread: q.unread === 'true',
+      cursor: q.cursor,
+      take: q.take,
+    });
+  }
+
+  /**
+   * Marks notifications of the authenticated user as read.
+   *
+   * @param dto Optional notification ids (all unread if omitted)
+   * @param user Authenticated user
+   * @returns Number of marked notifications and the read timestamp
+   */
+  @Post('me/notifications/read')
+  async markRead(
+    @Body() dto: MarkNotificationsReadDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.notifications.markRead(user, dto?.ids);
+  }
+
+  /**
+   * Lists the channels whose notifications the authenticated user muted.
+   *
+   * @param user Authenticated user
+   * @returns Slugs of the muted channels
+   */
+  @Get('me/notifications/mutes')
+  async mutes(@CurrentUser() user: RequestUser) {
+    return this.notifications.listMutedChannels(user);
+  }
+
+  /**
+   * Mutes or unmutes the notifications of a channel.
+   *
+   * @param slug Channel slug
+   * @param dto New notification setting
+   * @param user Authenticated user
+   * @returns The notification setting of the channel
+   */
+  @Put('channels/:slug/notifications')
+  async updateSettings(
+    @Param('slug') slug: string,
+    @Body() dto: UpdateNotificationSettingsDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.notifications.setChannelMuted(slug, user, dto?.muted);
+  }
+}
@@ -0,0 +1,192 @@
+import { BadRequestException } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { EventsService } from '../events/events.service';
+
+describe('NotificationsService', () => {
+  let prisma: {
+    channel: { findUnique: jest.Mock };
+    notification: {
+      createManyAndReturn: jest.Mock;
+      findMany: jest.Mock;
+      groupBy: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    notificationMute: {
+      findMany: jest.Mock;
+      upsert: jest.Mock;
+      deleteMany: jest.Mock;
+    };
+  };
+  let channels: { findBySlugOrFail: jest.Mock };
+  let permissions: { assert: jest.Mock; can: jest.Mock };
+  let events: EventsService;
+  let service: NotificationsService;
+
+  const user = { id: 'u1', role: 'USER' as const };
+  const message = {
+    id: 'm1',
+    channelKey: 'general',
+    authorId: 'u1',
+    content: 'hi',
+    mentions: [] as string[],
+    parentId: null,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    prisma = {
+      channel: { findUnique: jest.fn().mockResolvedValue({ id: 'c1' }) },
+      notification: {
+        createManyAndReturn: jest.fn(({ data }: { data: object[] }) =>
+          Promise.resolve(data.map((row, i) => ({ id: `n${i}`, ...row }))),
+        ),
+        findMany: jest.fn().mockResolvedValue([]),
+        groupBy: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      notificationMute: {
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+    };
+    channels = {
+      findBySlugOrFail: jest
+        .fn()
+        .mockResolvedValue({ id: 'c1', slug: 'general' }),
+    };
+    permissions = {
+      assert: jest.fn(),
+      can: jest.fn((_user: unknown, _permission: string, slug: string) =>
+        Promise.resolve(slug === 'general'),
+      ),
+    };
+    events = new EventsService();
+
+    service = new NotificationsService(
+      prisma as unknown as PrismaService,
+      channels as unknown as ChannelsService,
+      permissions as unknown as PermissionsService,
+      events,
+    );
+  });
+
+  /** Returns the rows of the last created notifications. */
+  const created = () =>
+    (
+      prisma.notification.createManyAndReturn.mock.calls.at(-1) as [
+        { data: { userId: string; type: string }[] },
+      ]
+    )[0].data.map(({ userId, type }) => [userId, type]);
+
+  it('notifies mentioned users except the author', async () => {
+    const published = jest.fn();
+    events.on('notification.created').subscribe(published);
+
+    await service.notifyMentions({ ...message, mentions: ['u2', 'u1'] });
+
+    expect(created()).toEqual([['u2', 'MENTION']]);
+    expect(published).toHaveBeenCalledWith({
+      userId: 'u2',
+      notification: expect.objectContaining({
+        id: 'n0',
+        channelKey: 'general',
+        message: expect.objectContaining({
+          id: 'm1',
+          content: 'hi',
+        }) as unknown,
+      }) as unknown,
+    });
+  });
+
+  it('notifies members and readers of the channel for @channel', async () => {
+    prisma.channel.findUnique.mockResolvedValue({
+      id: 'c1',
+      members: [{ userId: 'u1' }, { userId: 'u2' }],
+      readStates: [{ userId: 'u3' }],
+    });
+
+    await service.notifyMentions({ ...message, mentions: ['channel', 'u3'] });
+
+    expect(created()).toEqual([
+      ['u2', 'CHANNEL_MENTION'],
+      ['u3', 'MENTION'],
+    ]);
+  });
+
+  it('skips users who muted the channel', async () => {
+    prisma.notificationMute.findMany.mockResolvedValue([{ userId: 'u2' }]);
+
+    await service.notifyMentions({ ...message, mentions: ['u2'] });
+
+    expect(prisma.notificationMute.findMany).toHaveBeenCalledWith({
+      where: { channelId: 'c1', userId: { in: ['u2'] } },
+      select: { userId: true },
+    });
+    expect(prisma.notification.createManyAndReturn).not.toHaveBeenCalled();
+  });
+
+  it('never fails the message when notifying fails', async () => {
+    prisma.notification.createManyAndReturn.mockRejectedValue(
+      new Error('db down'),
+    );
+
+    await expect(
+      service.notifyMentions({ ...message, mentions: ['u2'] }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('lists only notifications of readable channels', async () => {
+    prisma.notification.findMany.mockResolvedValue([
+      { id: 'n1', channelKey: 'general' },
+      { id: 'n2', channelKey: 'support' },
+    ]);
+    prisma.notification.groupBy.mockResolvedValue([
+      { channelKey: 'general', _count: { _all: 3 } },
+      { channelKey: 'support', _count: { _all: 2 } },
+    ]);
+
+    await expect(service.list(user, { take: '2' })).resolves.toEqual({
+      notifications: [{ id: 'n1', channelKey: 'general' }],
+      nextCursor: 'n2',
+      unreadCount: 3,
+    });
+    expect(prisma.notification.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: 'u1', message: { deletedAt: null } },
+      }),
+    );
+  });
+
+  it('marks only notifications of the user as read', async () => {
+    await service.markRead(user, ['n1']);
+
+    expect(prisma.notification.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'u1', readAt: null, id: { in: ['n1'] } },
+      data: { readAt: expect.any(Date) as unknown },
+    });
+    await expect(service.markRead(user, 'n1')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('mutes and unmutes channels after checking access', async () => {
+    await expect(
+      service.setChannelMuted('general', user, true),
+    ).resolves.toEqual({ channelKey: 'general', muted: true });
+    expect(permissions.assert).toHaveBeenCalledWith(
+      user,
+      'message.read',
+      'general',
+    );
+    expect(prisma.notificationMute.upsert).toHaveBeenCalled();
+
+    await service.setChannelMuted('general', user, false);
+    expect(prisma.notificationMute.deleteMany).toHaveBeenCalledWith({
+      where: { channelId: 'c1', userId: 'u1' },
+    });
+  });
+});
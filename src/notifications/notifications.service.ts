@@ -0,0 +1,335 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { NotificationType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { EventsService } from '../events/events.service';
+import { parseTake } from '../common/query-params';
+
+//Allowed user roles within the notifications domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//User descriptor used for access decisions.
+type NotifiedUser = { id: string; role: Role };
+
+//Message a notification is created for.
+type MentioningMessage = {
+  id: string;
+  channelKey: string;
+  authorId: string;
+  content: string;
+  mentions: string[];
+  parentId: string | null;
+  createdAt: Date;
+};
+
+//Mention token addressing every user of a channel.
+const CHANNEL_MENTION = 'channel';
+
+//Default and largest number of notifications per page.
+const PAGE_SIZE = { defaultSize: 50, maxSize: 100 };
+
+//Largest number of notifications marked as read by id at once.
+const MAX_MARK_READ_IDS = 100;
+
+//Fields returned for every notification read through this service.
+const NOTIFICATION_SELECT = {
+  id: true,
+  userId: true,
+  type: true,
+  channelKey: true,
+  messageId: true,
+  actorId: true,
+  createdAt: true,
+  readAt: true,
+} as const;
+
+//Fields of the message attached to listed notifications.
+const NOTIFIED_MESSAGE_SELECT = {
+  id: true,
+  authorId: true,
+  content: true,
+  parentId: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Service responsible for mention notifications.
+ *
+ * Messages mentioning users (`@userId`) or the whole channel (`@channel`)
+ * create one notification per addressed user, except for the author and
+ * users who muted the channel. `@channel` addresses the channel members and
+ * every user who has a read pointer in the channel. Access to the channel
+ * is checked when notifications are delivered and listed, since roles are
+ * only known from the access tokens of connected users.
+ */
+@Injectable()
+export class NotificationsService {
+  /**
+   * Logger of the notifications service.
+   */
+  private readonly logger = new Logger(NotificationsService.name);
+
+  /**
+   * Creates a new NotificationsService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param channels Channels service providing channel access policies
+   * @param permissions Service resolving `message.read` per channel
+   * @param events Event bus used to announce new notifications
+   */
+  constructor(
+    private prisma: PrismaService,
+    private channels: ChannelsService,
+    private permissions: PermissionsService,
+    private events: EventsService,
+  ) {}
+
+  /**
+   * Creates the notifications of a new message.
+   *
+   * Emits a `notification.created` domain event per notified user.
+   * Failures are logged and never affect the stored message.
+   *
+   * @param message Stored message with its detected mentions
+   */
+  async notifyMentions(message: MentioningMessage) {
+    if (message.mentions.length === 0) return;
+
+    try {
+      const recipients = await this.resolveRecipients(message);
+      if (recipients.size === 0) return;
+
+      const notifications = await this.prisma.notification.createManyAndReturn({
+        data: [...recipients].map(([userId, type]) => ({
+          userId,
+          type,
+          messageId: message.id,
+          channelKey: message.channelKey,
+          actorId: message.authorId,
+        })),
+        skipDuplicates: true,
+        select: NOTIFICATION_SELECT,
+      });
+
+      const snapshot = {
+        id: message.id,
+        authorId: message.authorId,
+        content: message.content,
+        parentId: message.parentId,
+        createdAt: message.createdAt,
+      };
+      for (const notification of notifications) {
+        this.events.publish('notification.created', {
+          userId: notification.userId,
+          notification: { ...notification, message: snapshot },
+        });
+      }
+    } catch (e) {
+      this.logger.warn(
+        `Failed to notify mentions of message ${message.id}: ${(e as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Resolves the users notified about a message.
+   *
+   * Direct mentions take precedence over `@channel`. The author and users
+   * who muted the channel are never notified.
+   *
+   * @param message Stored message with its detected mentions
+   * @returns Notification type per notified user
+   */
+  private async resolveRecipients(
+    message: MentioningMessage,
+  ): Promise<Map<string, NotificationType>> {
+    const mentionsChannel = message.mentions.includes(CHANNEL_MENTION);
+
+    const channel = await this.prisma.channel.findUnique({
+      where: { slug: message.channelKey },
+      select: {
+        id: true,
+        ...(mentionsChannel
+          ? {
+              members: { select: { userId: true } },
+              readStates: { select: { userId: true } },
+            }
+          : {}),
+      },
+    });
+    if (!channel) return new Map();
+
+    const recipients = new Map<string, NotificationType>();
+    for (const { userId } of [
+      ...(channel.members ?? []),
+      ...(channel.readStates ?? []),
+    ]) {
+      recipients.set(userId, 'CHANNEL_MENTION');
+    }
+    for (const userId of message.mentions) {
+      if (userId !== CHANNEL_MENTION) recipients.set(userId, 'MENTION');
+    }
+    recipients.delete(message.authorId);
+    if (recipients.size === 0) return recipients;
+
+    // Skip users who muted the channel
+    const mutes = await this.prisma.notificationMute.findMany({
+      where: { channelId: channel.id, userId: { in: [...recipients.keys()] } },
+      select: { userId: true },
+    });
+    for (const { userId } of mutes) recipients.delete(userId);
+
+    return recipients;
+  }
+
+  /**
+   * Lists the notifications of a user, newest first.
+   *
+   * Notifications of deleted messages and of channels the user can no
+   * longer read are left out.
+   *
+   * @param user Authenticated user
+   * @param params Unread filter and pagination info
+   * @returns One page of notifications, the next cursor and the unread count
+   */
+  async list(
+    user: NotifiedUser,
+    params: { unread?: boolean; take?: number | string; cursor?: string },
+  ) {
+    const take = parseTake(params.take, PAGE_SIZE);
+    const where = {
+      userId: user.id,
+      message: { deletedAt: null },
+      ...(params.unread ? { readAt: null } : {}),
+    };
+
+    const rows = await this.prisma.notification.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take,
+      ...(params.cursor ? { cursor: { id: params.cursor }, skip: 1 } : {}),
+      select: {
+        ...NOTIFICATION_SELECT,
+        message: { select: NOTIFIED_MESSAGE_SELECT },
+      },
+    });
+
+    const unread = await this.prisma.notification.groupBy({
+      by: ['channelKey'],
+      where: { ...where, readAt: null },
+      _count: { _all: true },
+    });
+
+    const readable = await this.readableChannels(user, [
+      ...rows.map((row) => row.channelKey),
+      ...unread.map((group) => group.channelKey),
+    ]);
+
+    return {
+      notifications: rows.filter((row) => readable.has(row.channelKey)),
+      nextCursor: rows.length === take ? rows[rows.length - 1].id : null,
+      unreadCount: unread
+        .filter((group) => readable.has(group.channelKey))
+        .reduce((sum, group) => sum + group._count._all, 0),
+    };
+  }
+
+  /**
+   * Marks notifications of a user as read.
+   *
+   * Without ids all unread notifications of the user are marked.
+   *
+   * @param user Authenticated user
+   * @param ids Optional notification ids
+   * @returns Number of marked notifications and the read timestamp
+   */
+  async markRead(user: NotifiedUser, ids?: unknown) {
+    if (
+      ids !== undefined &&
+      (!Array.isArray(ids) ||
+        ids.length > MAX_MARK_READ_IDS ||
+        ids.some((id) => typeof id !== 'string'))
+    ) {
+      throw new BadRequestException('Invalid notification ids');
+    }
+
+    const readAt = new Date();
+    const { count } = await this.prisma.notification.updateMany({
+      where: {
+        userId: user.id,
+        readAt: null,
+        ...(ids ? { id: { in: ids as string[] } } : {}),
+      },
+      data: { readAt },
+    });
+
+    return { updated: count, readAt };
+  }
+
+  /**
+   * Mutes or unmutes the notifications of a channel for a user.
+   *
+   * @param slug Channel slug
+   * @param user Authenticated user
+   * @param muted Whether notifications of the channel are muted
+   * @returns The notification setting of the channel
+   */
+  async setChannelMuted(slug: string, user: NotifiedUser, muted: boolean) {
+    if (typeof muted !== 'boolean') {
+      throw new BadRequestException('Invalid muted flag');
+    }
+    await this.permissions.assert(user, 'message.read', slug);
+    const channel = await this.channels.findBySlugOrFail(slug);
+
+    const where = { channelId: channel.id, userId: user.id };
+    if (muted) {
+      await this.prisma.notificationMute.upsert({
+        where: { channelId_userId: where },
+        create: where,
+        update: {},
+      });
+    } else {
+      await this.prisma.notificationMute.deleteMany({ where });
+    }
+
+    return { channelKey: channel.slug, muted };
+  }
+
+  /**
+   * Lists the channels whose notifications a user muted.
+   *
+   * @param user Authenticated user
+   * @returns Slugs of the muted channels
+   */
+  async listMutedChannels(user: NotifiedUser) {
+    const mutes = await this.prisma.notificationMute.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'asc' },
+      select: { channel: { select: { slug: true } } },
+    });
+
+    return { channels: mutes.map((mute) => mute.channel.slug) };
+  }
+
+  /**
+   * Resolves which of the given channels a user can read.
+   *
+   * @param user Authenticated user
+   * @param channelKeys Channel slugs (may contain duplicates)
+   * @returns Slugs of the readable channels
+   */
+  private async readableChannels(
+    user: NotifiedUser,
+    channelKeys: string[],
+  ): Promise<Set<string>> {
+    const unique = [...new Set(channelKeys)];
+    const readable = await Promise.all(
+      unique.map((channelKey) =>
+        this.permissions.can(user, 'message.read', channelKey),
+      ),
+    );
+
+    return new Set(unique.filter((_, index) => readable[index]));
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  BadRequestException,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { PermissionsService } from './permissions.service';
+import {
+  PermissionRequirement,
+  RequirePermission,
+} from './require-permission.decorator';
+
+describe('PermissionsGuard', () => {
+  let permissions: { assert: jest.Mock; channelOfMessage: jest.Mock };
+  let guard: PermissionsGuard;
+
+  const user = { id: 'u1', role: 'USER' };
+
+  const handlerWith = (requirement?: PermissionRequirement) => {
+    const handler = () => undefined;
+    if (requirement) {
+      RequirePermission(requirement.permission, requirement.scope)(
+        handler,
+        'handler',
+        { value: handler },
+      );
+    }
+    return handler;
+  };
+
+  const httpContext = (req: object, handler: () => void) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => handler,
+      switchToHttp: () => ({ getRequest: () => req }),
+    }) as unknown as ExecutionContext;
+
+  const wsContext = (data: object, handler: () => void) =>
+    ({
+      getType: () => 'ws',
+      getHandler: () => handler,
+      switchToWs: () => ({
+        getClient: () => ({ data: { user } }),
+        getData: () => data,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    permissions = {
+      assert: jest.fn().mockResolvedValue(undefined),
+      channelOfMessage: jest.fn(),
+    };
+    guard = new PermissionsGuard(
+      new Reflector(),
+      permissions as unknown as PermissionsService,
+    );
+  });
+
+  it('passes handlers without requirement', async () => {
+    await expect(
+      guard.canActivate(httpContext({}, handlerWith())),
+    ).resolves.toBe(true);
+    expect(permissions.assert).not.toHaveBeenCalled();
+  });
+
+  it('checks HTTP requirements within the requested channel', async () => {
+    const handler = handlerWith({
+      permission: 'channel.flush',
+      scope: { channel: 'query.channel' },
+    });
+
+    await guard.canActivate(
+      httpContext({ user, query: { channel: 'general' } }, handler),
+    );
+
+    expect(permissions.assert).toHaveBeenCalledWith(
+      user,
+      'channel.flush',
+      'general',
+    );
+  });
+
+  it('resolves the channel of targeted messages', async () => {
+    permissions.channelOfMessage.mockResolvedValue('support');
+    const handler = handlerWith({
+      permission: 'message.restore',
+      scope: { message: 'params.id' },
+    });
+
+    await guard.canActivate(
+      httpContext({ user, params: { id: 'm1' } }, handler),
+    );
+
+    expect(permissions.channelOfMessage).toHaveBeenCalledWith('m1');
+    expect(permissions.assert).toHaveBeenCalledWith(
+      user,
+      'message.restore',
+      'support',
+    );
+  });
+
+  it('reads websocket scopes from the event payload', async () => {
+    const handler = handlerWith({
+      permission: 'message.send',
+      scope: { channel: 'body.channel' },
+    });
+
+    await guard.canActivate(wsContext({ channel: 'general' }, handler));
+
+    expect(permissions.assert).toHaveBeenCalledWith(
+      user,
+      'message.send',
+      'general',
+    );
+  });
+
+  it('rejects requests without user or scope value', async () => {
+    const handler = handlerWith({
+      permission: 'message.read',
+      scope: { channel: 'query.channel' },
+    });
+
+    await expect(
+      guard.canActivate(httpContext({ query: {} }, handler)),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(
+      guard.canActivate(httpContext({ user, query: {} }, handler)),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsService } from './permissions.service';
+import {
+  PERMISSION_KEY,
+  PermissionRequirement,
+  PermissionScope,
+} from './require-permission.decorator';
+import {
+  getScopedRequest,
+  readRequestPath,
+  ScopedRequest,
+} from './request-scope';
+
+/**
+ * Guard enforcing `@RequirePermission()` on routes and websocket handlers.
+ *
+ * Must run after authentication (`JwtAuthGuard` for HTTP, the handshake
+ * middleware for websockets). Handlers without requirement pass through.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  /**
+   * Creates a new PermissionsGuard.
+   *
+   * @param reflector Reader for handler metadata
+   * @param permissions Service resolving effective permissions
+   */
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissions: PermissionsService,
+  ) {}
+
+  /**
+   * Checks the permission requirement of the handler.
+   *
+   * @param context Execution context of the request or websocket event
+   * @returns Always true; denied requests throw instead
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requirement = this.reflector.get<PermissionRequirement | undefined>(
+      PERMISSION_KEY,
+      context.getHandler(),
+    );
+    if (!requirement) return true;
+
+    const request = getScopedRequest(context);
+    if (!request.user) throw new UnauthorizedException('UNAUTHORIZED');
+
+    const channelKey = await this.resolveChannel(requirement.scope, request);
+    await this.permissions.assert(
+      request.user,
+      requirement.permission,
+      channelKey,
+    );
+
+    return true;
+  }
+
+  /**
+   * Resolves the channel a requirement is scoped to.
+   *
+   * @param scope Scope of the requirement
+   * @param request Request values
+   * @returns Channel key or undefined for global requirements
+   */
+  private async resolveChannel(
+    scope: PermissionScope | undefined,
+    request: ScopedRequest,
+  ): Promise<string | undefined> {
+    if (!scope) return undefined;
+    if ('channel' in scope) return readRequestPath(request, scope.channel);
+
+    return this.permissions.channelOfMessage(
+      readRequestPath(request, scope.message),
+    );
+  }
+}
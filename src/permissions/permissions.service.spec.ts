@@ -0,0 +1,94 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { PermissionsService } from './permissions.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PermissionsService', () => {
+  let prisma: {
+    channel: { findUnique: jest.Mock };
+    channelMember: { findUnique: jest.Mock };
+    message: { findUnique: jest.Mock };
+  };
+  let service: PermissionsService;
+
+  const publicChannel = {
+    id: 'c1',
+    visibility: 'PUBLIC',
+    allowedRoles: [],
+    permissionOverrides: {},
+  };
+
+  beforeEach(() => {
+    prisma = {
+      channel: { findUnique: jest.fn().mockResolvedValue(publicChannel) },
+      channelMember: { findUnique: jest.fn().mockResolvedValue(null) },
+      message: { findUnique: jest.fn() },
+    };
+    service = new PermissionsService(prisma as unknown as PrismaService);
+  });
+
+  it('grants the role defaults within accessible channels', async () => {
+    const user = { id: 'u1', role: 'USER' as const };
+
+    await expect(service.can(user, 'message.send', 'general')).resolves.toBe(
+      true,
+    );
+    await expect(
+      service.can(user, 'message.delete.any', 'general'),
+    ).resolves.toBe(false);
+    await expect(
+      service.can(
+        { id: 'u2', role: 'MODERATOR' },
+        'message.delete.any',
+        'general',
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('grants administrators every permission', async () => {
+    await expect(
+      service.can({ id: 'a1', role: 'ADMIN' }, 'channel.flush', 'general'),
+    ).resolves.toBe(true);
+  });
+
+  it('replaces role defaults with channel overrides', async () => {
+    prisma.channel.findUnique.mockResolvedValue({
+      ...publicChannel,
+      permissionOverrides: { roles: { USER: ['message.read'] } },
+    });
+
+    await expect(
+      service.assert(
+        { id: 'u1', role: 'USER' },
+        'message.send',
+        'announcements',
+      ),
+    ).rejects.toThrow('Missing permission: message.send');
+  });
+
+  it('adds the permissions of channel roles', async () => {
+    prisma.channelMember.findUnique.mockResolvedValue({ role: 'OWNER' });
+
+    await expect(
+      service.can({ id: 'u1', role: 'USER' }, 'channel.rename', 'general'),
+    ).resolves.toBe(true);
+  });
+
+  it('denies channel permissions without channel access', async () => {
+    prisma.channel.findUnique.mockResolvedValue({
+      ...publicChannel,
+      visibility: 'PRIVATE',
+    });
+
+    await expect(
+      service.assert({ id: 'u1', role: 'USER' }, 'message.read', 'secret'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('rejects unknown channels', async () => {
+    prisma.channel.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.resolve({ id: 'u1', role: 'USER' }, 'missing'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import type { Role } from '../auth/request-user';
+import { canAccessChannel } from '../channels/channel-policy';
+import {
+  ALL_PERMISSIONS,
+  CHANNEL_ROLE_PERMISSIONS,
+  isChannelPermission,
+  parsePermissionOverrides,
+  Permission,
+  ROLE_PERMISSIONS,
+} from './permissions';
+
+//User descriptor used for permission decisions.
+type PermissionUser = { id: string; role: Role };
+
+//Effective permissions of a user, optionally within a channel.
+export type PermissionGrant = {
+  /** Whether the channel policy grants access (always true without channel) */
+  accessible: boolean;
+
+  /** Granted permissions */
+  permissions: ReadonlySet<Permission>;
+};
+
+//Channel fields required to evaluate permissions.
+const CHANNEL_SELECT = {
+  id: true,
+  visibility: true,
+  allowedRoles: true,
+  permissionOverrides: true,
+} as const;
+
+/**
+ * Service resolving the effective permissions of users.
+ *
+ * Global roles grant a default permission set. Within a channel, the
+ * channel-scoped part of that set can be replaced by the channel's
+ * overrides, and channel roles (owner, moderator, member) add their own
+ * permissions. Users without access to a channel hold no channel-scoped
+ * permissions there. Administrators hold every permission.
+ */
+@Injectable()
+export class PermissionsService {
+  /**
+   * Creates a new PermissionsService.
+   *
+   * @param prisma Prisma service used for database access
+   */
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Resolves the effective permissions of a user.
+   *
+   * Throws a NotFoundException for unknown channels.
+   *
+   * @param user User to evaluate
+   * @param channelKey Optional channel the permissions apply to
+   * @returns Access flag and granted permissions
+   */
+  async resolve(
+    user: PermissionUser,
+    channelKey?: string,
+  ): Promise<PermissionGrant> {
+    const base = ROLE_PERMISSIONS[user.role] ?? [];
+    if (channelKey === undefined) {
+      return { accessible: true, permissions: new Set(base) };
+    }
+
+    const channel = await this.prisma.channel.findUnique({
+      where: { slug: channelKey },
+      select: CHANNEL_SELECT,
+    });
+    if (!channel) throw new NotFoundException('Channel not found');
+
+    // Administrators hold every permission in every channel
+    if (user.role === 'ADMIN') {
+      return { accessible: true, permissions: new Set(ALL_PERMISSIONS) };
+    }
+
+    const membership = await this.prisma.channelMember.findUnique({
+      where: { channelId_userId: { channelId: channel.id, userId: user.id } },
+      select: { role: true },
+    });
+
+    // Without access only global permissions remain
+    const global = base.filter((p) => !isChannelPermission(p));
+    const accessible = canAccessChannel(channel, user, !!membership);
+    if (!accessible) return { accessible, permissions: new Set(global) };
+
+    // Channel overrides replace the defaults of a role
+    const overrides = parsePermissionOverrides(channel.permissionOverrides);
+    const roleGrants =
+      overrides?.roles?.[user.role] ?? base.filter(isChannelPermission);
+    const memberGrants = membership
+      ? (overrides?.members?.[membership.role] ??
+        CHANNEL_ROLE_PERMISSIONS[membership.role])
+      : [];
+
+    return {
+      accessible,
+      permissions: new Set([...global, ...roleGrants, ...memberGrants]),
+    };
+  }
+
+  /**
+   * Checks whether a user holds a permission.
+   *
+   * @param user User to evaluate
+   * @param permission Required permission
+   * @param channelKey Optional channel the permission applies to
+   * @returns Whether the permission is granted
+   */
+  async can(
+    user: PermissionUser,
+    permission: Permission,
+    channelKey?: string,
+  ): Promise<boolean> {
+    const grant = await this.resolve(user, channelKey);
+    return grant.permissions.has(permission);
+  }
+
+  /**
+   * Asserts that a user holds a permission.
+   *
+   * Throws a ForbiddenException if the user cannot access the channel or
+   * lacks the permission.
+   *
+   * @param user User to evaluate
+   * @param permission Required permission
+   * @param channelKey Optional channel the permission applies to
+   */
+  async assert(
+    user: PermissionUser,
+    permission: Permission,
+    channelKey?: string,
+  ): Promise<void> {
+    const grant = await this.resolve(user, channelKey);
+
+    if (!grant.accessible) {
+      throw new ForbiddenException(`No access to ${channelKey} channel`);
+    }
+    if (!grant.permissions.has(permission)) {
+      throw new ForbiddenException(`Missing permission: ${permission}`);
+    }
+  }
+
+  /**
+   * Looks up the channel of a message.
+   *
+   * @param messageId Message identifier
+   * @returns Channel key of the message
+   */
+  async channelOfMessage(messageId: string): Promise<string> {
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: { channelKey: true },
+    });
+    if (!message) throw new NotFoundException('Message not found');
+
+    return message.channelKey;
+  }
+}
@@ -0,0 +1,172 @@
+import type { Role } from '../auth/request-user';
+
+/**
+ * Catalogue of permissions and their default grants.
+ *
+ * Global roles (from the access token) and channel roles (from channel
+ * memberships) map to permission sets. Channel-scoped permissions can be
+ * overridden per channel; global permissions cannot.
+ */
+
+//Permissions evaluated within a single channel (overridable per channel).
+export const CHANNEL_PERMISSIONS = [
+  'message.read',
+  'message.send',
+  'message.edit.any',
+  'message.delete.any',
+  'message.restore',
+  'message.revisions.read',
+  'channel.flush',
+  'channel.rename',
+  'channel.archive',
+  'channel.permissions.manage',
+  'channel.configure',
+  'channel.slowmode',
+  'user.mute',
+  'user.ban',
+] as const;
+
+//Permissions independent of any channel.
+export const GLOBAL_PERMISSIONS = [
+  'channel.create',
+  'channel.create.private',
+  'user.sessions.revoke',
+  'report.manage',
+  'audit.read',
+  'webhook.manage',
+] as const;
+
+//Permission identifier.
+export type Permission =
+  | (typeof CHANNEL_PERMISSIONS)[number]
+  | (typeof GLOBAL_PERMISSIONS)[number];
+
+//Channel-scoped permission identifier.
+export type ChannelPermission = (typeof CHANNEL_PERMISSIONS)[number];
+
+//Role of a user within a single channel.
+export type ChannelRole = 'OWNER' | 'MODERATOR' | 'MEMBER';
+
+//Per-channel replacement of the channel-scoped permissions of a role.
+export type PermissionOverrides = {
+  /** Replacements for global roles (ADMIN cannot be overridden) */
+  roles?: Partial<Record<Exclude<Role, 'ADMIN'>, ChannelPermission[]>>;
+
+  /** Replacements for channel roles */
+  members?: Partial<Record<ChannelRole, ChannelPermission[]>>;
+};
+
+//Every known permission.
+export const ALL_PERMISSIONS: readonly Permission[] = [
+  ...CHANNEL_PERMISSIONS,
+  ...GLOBAL_PERMISSIONS,
+];
+
+//Permissions granted by global roles (ADMIN holds every permission).
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  USER: ['message.read', 'message.send', 'channel.create.private'],
+  MODERATOR: [
+    'message.read',
+    'message.send',
+    'message.delete.any',
+    'message.restore',
+    'message.revisions.read',
+    'channel.slowmode',
+    'user.mute',
+    'user.ban',
+    'channel.create.private',
+    'report.manage',
+  ],
+  ADMIN: ALL_PERMISSIONS,
+};
+
+//Additional permissions granted by channel roles within their channel.
+export const CHANNEL_ROLE_PERMISSIONS: Record<
+  ChannelRole,
+  readonly ChannelPermission[]
+> = {
+  OWNER: [
+    'message.delete.any',
+    'message.restore',
+    'message.revisions.read',
+    'channel.rename',
+    'channel.configure',
+    'channel.slowmode',
+    'user.mute',
+    'user.ban',
+  ],
+  MODERATOR: ['message.delete.any', 'message.revisions.read', 'user.mute'],
+  MEMBER: [],
+};
+
+/**
+ * Checks whether a value is a channel-scoped permission.
+ *
+ * @param value Value to check
+ * @returns True for channel-scoped permissions
+ */
+export function isChannelPermission(
+  value: unknown,
+): value is ChannelPermission {
+  return CHANNEL_PERMISSIONS.includes(value as ChannelPermission);
+}
+
+/**
+ * Parses per-channel permission overrides.
+ *
+ * @param value Raw overrides (e.g. request body or stored JSON)
+ * @returns Parsed overrides or null if the value is malformed
+ */
+export function parsePermissionOverrides(
+  value: unknown,
+): PermissionOverrides | null {
+  if (!isRecord(value)) return null;
+
+  const roles = parseRoleMap(value.roles, ['USER', 'MODERATOR']);
+  const members = parseRoleMap(value.members, ['OWNER', 'MODERATOR', 'MEMBER']);
+  if (roles === null || members === null) return null;
+
+  // Keep only the keys that were given
+  return {
+    ...(value.roles !== undefined ? { roles } : {}),
+    ...(value.members !== undefined ? { members } : {}),
+  };
+}
+
+/**
+ * Parses a map of roles to channel permissions.
+ *
+ * @param value Raw map (undefined is treated as empty)
+ * @param roles Allowed keys
+ * @returns Parsed map or null if it is malformed
+ */
+function parseRoleMap<R extends string>(
+  value: unknown,
+  roles: readonly R[],
+): Partial<Record<R, ChannelPermission[]>> | null {
+  if (value === undefined) return {};
+  if (!isRecord(value)) return null;
+
+  const parsed: Partial<Record<R, ChannelPermission[]>> = {};
+  for (const [role, permissions] of Object.entries(value)) {
+    if (!roles.includes(role as R)) return null;
+    if (
+      !Array.isArray(permissions) ||
+      !permissions.every(isChannelPermission)
+    ) {
+      return null;
+    }
+    parsed[role as R] = [...new Set(permissions)];
+  }
+  return parsed;
+}
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value Value to check
+ * @returns True for non-array objects
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
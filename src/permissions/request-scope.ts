@@ -0,0 +1,59 @@
+import { BadRequestException, ExecutionContext } from '@nestjs/common';
+import { Socket } from 'socket.io';
+import type { RequestUser } from '../auth/request-user';
+import type { RequestPath } from './require-permission.decorator';
+
+//Request values a scope can be read from.
+export type ScopedRequest = {
+  params?: unknown;
+  query?: unknown;
+  body?: unknown;
+  user?: RequestUser;
+};
+
+/**
+ * Normalizes HTTP requests and websocket events.
+ *
+ * For websocket events the payload is exposed as `body` and the user is
+ * read from the socket.
+ *
+ * @param context Execution context
+ * @returns Request values and the authenticated user
+ */
+export function getScopedRequest(context: ExecutionContext): ScopedRequest {
+  if (context.getType() === 'ws') {
+    const ws = context.switchToWs();
+    const client = ws.getClient<Socket>();
+    return {
+      body: ws.getData<unknown>(),
+      user: (client.data as { user?: RequestUser }).user,
+    };
+  }
+
+  return context.switchToHttp().getRequest<ScopedRequest>();
+}
+
+/**
+ * Reads a required string value from the request.
+ *
+ * Throws a BadRequestException if the value is missing.
+ *
+ * @param request Request values
+ * @param path Location of the value
+ * @returns The value
+ */
+export function readRequestPath(
+  request: ScopedRequest,
+  path: RequestPath,
+): string {
+  const [source, key] = path.split('.') as [
+    'params' | 'query' | 'body',
+    string,
+  ];
+  const value = (request[source] as Record<string, unknown> | undefined)?.[key];
+
+  if (typeof value !== 'string' || !value) {
+    throw new BadRequestException(`Missing ${key}`);
+  }
+  return value;
+}
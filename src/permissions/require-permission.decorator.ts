@@ -0,0 +1,40 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from './permissions';
+
+//Metadata key holding the permission requirement of a handler.
+export const PERMISSION_KEY = 'permission';
+
+//Location of a value in the request (`body` is the payload for websockets).
+export type RequestPath = `${'params' | 'query' | 'body'}.${string}`;
+
+//Where the channel a permission applies to is read from.
+export type PermissionScope =
+  | { channel: RequestPath }
+  | { message: RequestPath };
+
+//Permission requirement stored on a handler.
+export type PermissionRequirement = {
+  permission: Permission;
+  scope?: PermissionScope;
+};
+
+/**
+ * Requires a permission for an HTTP route or websocket handler.
+ *
+ * Enforced by `PermissionsGuard`. With a scope, the permission is
+ * evaluated within a channel, read directly from the request
+ * (`{ channel: 'query.channel' }`) or from the message a request targets
+ * (`{ message: 'params.id' }`).
+ *
+ * @param permission Required permission
+ * @param scope Optional channel scope
+ * @returns Method decorator
+ */
+export const RequirePermission = (
+  permission: Permission,
+  scope?: PermissionScope,
+) =>
+  SetMetadata<string, PermissionRequirement>(PERMISSION_KEY, {
+    permission,
+    scope,
+  });
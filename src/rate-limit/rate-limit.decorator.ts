@@ -0,0 +1,32 @@
+import { SetMetadata } from '@nestjs/common';
+import type { RequestPath } from '../permissions/require-permission.decorator';
+
+//Metadata key holding the rate limit of a handler.
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+//Named set of token buckets a request draws from.
+export type RateLimitPolicy = 'message' | 'api';
+
+//Rate limit stored on a handler.
+export type RateLimitRequirement = {
+  policy: RateLimitPolicy;
+
+  /** Location of the channel key for per-channel buckets */
+  channel?: RequestPath;
+};
+
+/**
+ * Applies a rate limit policy to an HTTP route or websocket handler.
+ *
+ * Enforced by `RateLimitGuard`. HTTP routes without this decorator use the
+ * `api` policy; websocket handlers without it are not limited.
+ *
+ * @param policy Policy to apply
+ * @param channel Optional location of the channel key (e.g. `body.channel`)
+ * @returns Method decorator
+ */
+export const RateLimit = (policy: RateLimitPolicy, channel?: RequestPath) =>
+  SetMetadata<string, RateLimitRequirement>(RATE_LIMIT_KEY, {
+    policy,
+    channel,
+  });
@@ -0,0 +1,75 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RateLimit } from './rate-limit.decorator';
+import { RateLimitedException } from './rate-limited.exception';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitService } from './rate-limit.service';
+
+describe('RateLimitGuard', () => {
+  let rateLimits: { consume: jest.Mock };
+  let guard: RateLimitGuard;
+
+  const user = { id: 'u1', role: 'USER' };
+
+  const handler = (decorate?: MethodDecorator) => {
+    const fn = () => undefined;
+    decorate?.(fn, 'handler', { value: fn });
+    return fn;
+  };
+
+  const httpContext = (fn: () => void, res = { setHeader: jest.fn() }) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => fn,
+      switchToHttp: () => ({
+        getRequest: () => ({ user }),
+        getResponse: () => res,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const wsContext = (fn: () => void, data: object) =>
+    ({
+      getType: () => 'ws',
+      getHandler: () => fn,
+      switchToWs: () => ({
+        getClient: () => ({ data: { user } }),
+        getData: () => data,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    rateLimits = { consume: jest.fn().mockResolvedValue(undefined) };
+    guard = new RateLimitGuard(
+      new Reflector(),
+      rateLimits as unknown as RateLimitService,
+    );
+  });
+
+  it('applies the api policy to undecorated routes', async () => {
+    await expect(guard.canActivate(httpContext(handler()))).resolves.toBe(true);
+    expect(rateLimits.consume).toHaveBeenCalledWith('api', 'u1', undefined);
+  });
+
+  it('leaves undecorated websocket handlers unlimited', async () => {
+    await guard.canActivate(wsContext(handler(), {}));
+    expect(rateLimits.consume).not.toHaveBeenCalled();
+  });
+
+  it('limits decorated websocket handlers per channel', async () => {
+    const fn = handler(RateLimit('message', 'body.channel'));
+
+    await guard.canActivate(wsContext(fn, { channel: 'general' }));
+
+    expect(rateLimits.consume).toHaveBeenCalledWith('message', 'u1', 'general');
+  });
+
+  it('sets Retry-After on limited HTTP requests', async () => {
+    const res = { setHeader: jest.fn() };
+    rateLimits.consume.mockRejectedValue(new RateLimitedException(1500));
+
+    await expect(
+      guard.canActivate(httpContext(handler(), res)),
+    ).rejects.toBeInstanceOf(RateLimitedException);
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', 2);
+  });
+});
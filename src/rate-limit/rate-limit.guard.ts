@@ -0,0 +1,74 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import {
+  getScopedRequest,
+  readRequestPath,
+} from '../permissions/request-scope';
+import { RATE_LIMIT_KEY, RateLimitRequirement } from './rate-limit.decorator';
+import { RateLimitedException } from './rate-limited.exception';
+import { RateLimitService } from './rate-limit.service';
+
+/**
+ * Guard enforcing rate limits on routes and websocket handlers.
+ *
+ * HTTP routes use the `api` policy unless decorated with `@RateLimit()`;
+ * websocket handlers are only limited when decorated. Must run after
+ * authentication, since buckets are kept per user. Rejected HTTP requests
+ * carry a `Retry-After` header.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  /**
+   * Creates a new RateLimitGuard.
+   *
+   * @param reflector Reader for handler metadata
+   * @param rateLimits Service consuming tokens
+   */
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimits: RateLimitService,
+  ) {}
+
+  /**
+   * Consumes a token for the request.
+   *
+   * @param context Execution context of the request or websocket event
+   * @returns Always true; limited requests throw instead
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const http = context.getType() === 'http';
+    const requirement =
+      this.reflector.get<RateLimitRequirement | undefined>(
+        RATE_LIMIT_KEY,
+        context.getHandler(),
+      ) ?? (http ? { policy: 'api' } : undefined);
+    if (!requirement) return true;
+
+    // Unauthenticated requests are rejected by the auth layer
+    const request = getScopedRequest(context);
+    if (!request.user) return true;
+
+    const channelKey = requirement.channel
+      ? readRequestPath(request, requirement.channel)
+      : undefined;
+
+    try {
+      await this.rateLimits.consume(
+        requirement.policy,
+        request.user.id,
+        channelKey,
+      );
+    } catch (e) {
+      if (http && e instanceof RateLimitedException) {
+        context
+          .switchToHttp()
+          .getResponse<Response>()
+          .setHeader('Retry-After', Math.ceil(e.retryAfterMs / 1000));
+      }
+      throw e;
+    }
+
+    return true;
+  }
+}
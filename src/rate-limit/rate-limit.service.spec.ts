@@ -0,0 +1,123 @@
+import { EventsService } from '../events/events.service';
+import { RateLimitedException } from './rate-limited.exception';
+import { RateLimitService } from './rate-limit.service';
+import { MemoryRateLimitStore, takeToken } from './rate-limit.store';
+
+describe('RateLimitService', () => {
+  let events: EventsService;
+  let service: RateLimitService;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    process.env.RATE_LIMIT_MESSAGE_BURST = '2';
+    process.env.RATE_LIMIT_MESSAGE_PER_SECOND = '1';
+    events = new EventsService();
+    service = new RateLimitService(events);
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    jest.restoreAllMocks();
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith('RATE_LIMIT_')) delete process.env[key];
+    }
+  });
+
+  it('allows bursts and refills at the sustained rate', async () => {
+    await service.consume('message', 'u1');
+    await service.consume('message', 'u1');
+
+    const denied = service.consume('message', 'u1');
+    await expect(denied).rejects.toBeInstanceOf(RateLimitedException);
+    await expect(denied).rejects.toMatchObject({ retryAfterMs: 1000 });
+
+    now += 1000;
+    await expect(service.consume('message', 'u1')).resolves.toBeUndefined();
+  });
+
+  it('keeps separate buckets per user', async () => {
+    await service.consume('message', 'u1');
+    await service.consume('message', 'u1');
+
+    await expect(service.consume('message', 'u2')).resolves.toBeUndefined();
+  });
+
+  it('limits channels across all senders', async () => {
+    process.env.RATE_LIMIT_CHANNEL_BURST = '2';
+
+    await service.consume('message', 'u1', 'general');
+    await service.consume('message', 'u2', 'general');
+
+    await expect(
+      service.consume('message', 'u3', 'general'),
+    ).rejects.toBeInstanceOf(RateLimitedException);
+    await expect(
+      service.consume('message', 'u3', 'random'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('mutes users after repeated violations', async () => {
+    process.env.RATE_LIMIT_MUTE_AFTER = '2';
+    process.env.RATE_LIMIT_MUTE_SECONDS = '60';
+    const muted = jest.fn();
+    events.on('user.rate_limit.muted').subscribe(muted);
+
+    await service.consume('message', 'u1');
+    await service.consume('message', 'u1');
+    await expect(service.consume('message', 'u1')).rejects.toMatchObject({
+      mutedUntil: undefined,
+    });
+    await expect(service.consume('message', 'u1')).rejects.toMatchObject({
+      retryAfterMs: 60_000,
+      mutedUntil: new Date(now + 60_000),
+    });
+    expect(muted).toHaveBeenCalledWith({
+      userId: 'u1',
+      mutedUntil: new Date(now + 60_000),
+      violations: 2,
+    });
+
+    // Refilled buckets do not lift the mute
+    now += 30_000;
+    await expect(service.consume('message', 'u1')).rejects.toMatchObject({
+      retryAfterMs: 30_000,
+    });
+
+    now += 30_000;
+    await expect(service.consume('message', 'u1')).resolves.toBeUndefined();
+  });
+
+  it('limits API requests independently of messages', async () => {
+    process.env.RATE_LIMIT_API_BURST = '1';
+
+    await service.consume('api', 'u1');
+    await expect(service.consume('api', 'u1')).rejects.toBeInstanceOf(
+      RateLimitedException,
+    );
+    await expect(service.consume('message', 'u1')).resolves.toBeUndefined();
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('resets counters once their window elapsed', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await expect(store.increment('k', 1000, 0)).resolves.toBe(1);
+    await expect(store.increment('k', 1000, 500)).resolves.toBe(2);
+    await expect(store.increment('k', 1000, 1000)).resolves.toBe(1);
+
+    await store.close();
+  });
+
+  it('never refills buckets beyond their capacity', () => {
+    const bucket = { capacity: 3, refillPerSecond: 1 };
+
+    expect(takeToken(0, 60_000, bucket)).toEqual({
+      allowed: true,
+      retryAfterMs: 0,
+      tokens: 2,
+    });
+  });
+});
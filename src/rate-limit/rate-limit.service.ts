@@ -0,0 +1,212 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { EventsService } from '../events/events.service';
+import type { RateLimitPolicy } from './rate-limit.decorator';
+import { RateLimitedException } from './rate-limited.exception';
+import {
+  BucketConfig,
+  MemoryRateLimitStore,
+  RateLimitStore,
+  RedisRateLimitStore,
+  resolveStoreKind,
+} from './rate-limit.store';
+
+//Defaults of the configurable limits (burst size, tokens per second).
+const DEFAULT_MESSAGE_BUCKET: BucketConfig = {
+  capacity: 5,
+  refillPerSecond: 1,
+};
+const DEFAULT_CHANNEL_BUCKET: BucketConfig = {
+  capacity: 30,
+  refillPerSecond: 10,
+};
+const DEFAULT_API_BUCKET: BucketConfig = { capacity: 60, refillPerSecond: 10 };
+
+//Defaults of the automatic mute.
+const DEFAULT_MUTE_AFTER_VIOLATIONS = 5;
+const DEFAULT_VIOLATION_WINDOW_SECONDS = 60;
+const DEFAULT_MUTE_SECONDS = 300;
+
+/**
+ * Token bucket rate limiting for websocket events and HTTP requests.
+ *
+ * The `message` policy draws from a bucket per user and, for channel
+ * messages, a bucket per channel. The `api` policy draws from a bucket per
+ * user. Users repeatedly exceeding their message limit within a window are
+ * muted for a while. State lives in memory, or in Redis when
+ * `RATE_LIMIT_STORE=redis` so limits hold across instances.
+ */
+@Injectable()
+export class RateLimitService implements OnModuleInit, OnModuleDestroy {
+  /**
+   * Logger of the rate limiter.
+   */
+  private readonly logger = new Logger(RateLimitService.name);
+
+  /**
+   * Store holding buckets, violation counters and mutes.
+   */
+  private store: RateLimitStore = new MemoryRateLimitStore();
+
+  /**
+   * Creates a new RateLimitService.
+   *
+   * @param events Domain event bus used to announce automatic mutes
+   */
+  constructor(private readonly events: EventsService) {}
+
+  /**
+   * Connects the configured store.
+   */
+  async onModuleInit() {
+    const kind = resolveStoreKind(process.env.RATE_LIMIT_STORE);
+    if (kind === 'redis') {
+      await this.store.close();
+      this.store = await RedisRateLimitStore.connect((e) =>
+        this.logger.error(e.message),
+      );
+    }
+
+    this.logger.log(`Using ${kind} rate limit store`);
+  }
+
+  /**
+   * Releases the store on shutdown.
+   */
+  async onModuleDestroy() {
+    await this.store.close();
+  }
+
+  /**
+   * Reads a bucket configuration from the environment.
+   *
+   * @param name Variable prefix (e.g. `RATE_LIMIT_MESSAGE`)
+   * @param fallback Defaults for unset or invalid values
+   * @returns Burst size and sustained rate
+   */
+  private getBucket(name: string, fallback: BucketConfig): BucketConfig {
+    const burst = Number(process.env[`${name}_BURST`]);
+    const rate = Number(process.env[`${name}_PER_SECOND`]);
+    return {
+      capacity:
+        Number.isFinite(burst) && burst >= 1 ? burst : fallback.capacity,
+      refillPerSecond:
+        Number.isFinite(rate) && rate > 0 ? rate : fallback.refillPerSecond,
+    };
+  }
+
+  /**
+   * Reads a positive number from the environment.
+   *
+   * @param name Variable name
+   * @param fallback Default for unset or invalid values
+   * @returns The configured value
+   */
+  private getNumber(name: string, fallback: number): number {
+    const raw = Number(process.env[name]);
+    return Number.isFinite(raw) && raw > 0 ? raw : fallback;
+  }
+
+  /**
+   * Consumes a token for a request.
+   *
+   * Throws a RateLimitedException if a bucket is empty or the user is
+   * muted.
+   *
+   * @param policy Policy of the request
+   * @param userId Requesting user
+   * @param channelKey Optional channel of the request (`message` policy)
+   */
+  async consume(
+    policy: RateLimitPolicy,
+    userId: string,
+    channelKey?: string,
+  ): Promise<void> {
+    const now = Date.now();
+
+    if (policy === 'api') {
+      const api = await this.store.take(
+        `api:user:${userId}`,
+        this.getBucket('RATE_LIMIT_API', DEFAULT_API_BUCKET),
+        now,
+      );
+      if (!api.allowed) throw new RateLimitedException(api.retryAfterMs);
+      return;
+    }
+
+    // Muted users cannot send until the mute ends
+    const mutedUntil = await this.store.getUntil(`muted:${userId}`, now);
+    if (mutedUntil !== null) {
+      throw new RateLimitedException(mutedUntil - now, new Date(mutedUntil));
+    }
+
+    // Per-user limit; repeated violations lead to a mute
+    const user = await this.store.take(
+      `message:user:${userId}`,
+      this.getBucket('RATE_LIMIT_MESSAGE', DEFAULT_MESSAGE_BUCKET),
+      now,
+    );
+    if (!user.allowed) {
+      const until = await this.recordViolation(userId, now);
+      throw until
+        ? new RateLimitedException(until - now, new Date(until))
+        : new RateLimitedException(user.retryAfterMs);
+    }
+
+    // Per-channel limit shared by all senders
+    if (channelKey !== undefined) {
+      const channel = await this.store.take(
+        `message:channel:${channelKey}`,
+        this.getBucket('RATE_LIMIT_CHANNEL', DEFAULT_CHANNEL_BUCKET),
+        now,
+      );
+      if (!channel.allowed) {
+        throw new RateLimitedException(channel.retryAfterMs);
+      }
+    }
+  }
+
+  /**
+   * Counts a violation and mutes the user once the threshold is reached.
+   *
+   * Publishes a `user.rate_limit.muted` domain event when a mute starts.
+   *
+   * @param userId Violating user
+   * @param now Current time (epoch ms)
+   * @returns End of the mute or null if the user was not muted
+   */
+  private async recordViolation(
+    userId: string,
+    now: number,
+  ): Promise<number | null> {
+    const violations = await this.store.increment(
+      `violations:${userId}`,
+      this.getNumber(
+        'RATE_LIMIT_VIOLATION_WINDOW_SECONDS',
+        DEFAULT_VIOLATION_WINDOW_SECONDS,
+      ) * 1000,
+      now,
+    );
+    const threshold = this.getNumber(
+      'RATE_LIMIT_MUTE_AFTER',
+      DEFAULT_MUTE_AFTER_VIOLATIONS,
+    );
+    if (violations < threshold) return null;
+
+    const until =
+      now +
+      this.getNumber('RATE_LIMIT_MUTE_SECONDS', DEFAULT_MUTE_SECONDS) * 1000;
+    await this.store.setUntil(`muted:${userId}`, until, now);
+
+    this.events.publish('user.rate_limit.muted', {
+      userId,
+      mutedUntil: new Date(until),
+      violations,
+    });
+    return until;
+  }
+}
@@ -0,0 +1,348 @@
+import { createClient } from 'redis';
+
+//Supported rate limit store backends.
+export type RateLimitStoreKind = 'memory' | 'redis';
+
+//Token bucket parameters.
+export type BucketConfig = {
+  /** Maximum number of tokens (burst size) */
+  capacity: number;
+
+  /** Tokens added per second (sustained rate) */
+  refillPerSecond: number;
+};
+
+//Outcome of taking a token from a bucket.
+export type BucketResult = {
+  allowed: boolean;
+
+  /** Milliseconds until a token is available again (0 if allowed) */
+  retryAfterMs: number;
+};
+
+/**
+ * Persistence of token buckets, violation counters and mutes.
+ *
+ * All operations must be atomic per key, so that concurrent requests
+ * (possibly on different instances) never take the same token twice.
+ */
+export interface RateLimitStore {
+  /**
+   * Takes a token from a bucket.
+   *
+   * @param key Bucket key
+   * @param bucket Bucket parameters
+   * @param now Current time (epoch ms)
+   * @returns Whether a token was available
+   */
+  take(key: string, bucket: BucketConfig, now: number): Promise<BucketResult>;
+
+  /**
+   * Increments a counter that resets once its window elapsed.
+   *
+   * @param key Counter key
+   * @param windowMs Window length, started by the first increment
+   * @param now Current time (epoch ms)
+   * @returns Counter value after the increment
+   */
+  increment(key: string, windowMs: number, now: number): Promise<number>;
+
+  /**
+   * Stores a deadline.
+   *
+   * @param key Deadline key
+   * @param until Deadline (epoch ms)
+   * @param now Current time (epoch ms)
+   */
+  setUntil(key: string, until: number, now: number): Promise<void>;
+
+  /**
+   * Reads a deadline that has not passed yet.
+   *
+   * @param key Deadline key
+   * @param now Current time (epoch ms)
+   * @returns The deadline or null if unset or elapsed
+   */
+  getUntil(key: string, now: number): Promise<number | null>;
+
+  /**
+   * Releases resources of the store.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Reads the configured store backend from `RATE_LIMIT_STORE`.
+ *
+ * @param value Raw configuration value
+ * @returns The store backend, `memory` if not configured
+ */
+export function resolveStoreKind(value?: string): RateLimitStoreKind {
+  const kind = (value ?? '').trim().toLowerCase() || 'memory';
+  if (kind === 'memory' || kind === 'redis') return kind;
+  throw new Error(`Unsupported RATE_LIMIT_STORE: ${value}`);
+}
+
+/**
+ * Computes the state of a token bucket after refilling and taking a token.
+ *
+ * @param tokens Tokens before the refill
+ * @param elapsedMs Time since the last update
+ * @param bucket Bucket parameters
+ * @returns Remaining tokens and the outcome
+ */
+export function takeToken(
+  tokens: number,
+  elapsedMs: number,
+  bucket: BucketConfig,
+): BucketResult & { tokens: number } {
+  const perMs = bucket.refillPerSecond / 1000;
+  const available = Math.min(
+    bucket.capacity,
+    tokens + Math.max(0, elapsedMs) * perMs,
+  );
+
+  if (available >= 1) {
+    return { allowed: true, retryAfterMs: 0, tokens: available - 1 };
+  }
+  return {
+    allowed: false,
+    retryAfterMs: perMs > 0 ? Math.ceil((1 - available) / perMs) : Infinity,
+    tokens: available,
+  };
+}
+
+/**
+ * Time after which an idle bucket is full again and can be forgotten.
+ *
+ * @param bucket Bucket parameters
+ * @returns Idle time in milliseconds
+ */
+function idleMs(bucket: BucketConfig): number {
+  return bucket.refillPerSecond > 0
+    ? Math.ceil((bucket.capacity / bucket.refillPerSecond) * 1000)
+    : 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Store keeping all state in the memory of the current process.
+ *
+ * Limits are enforced per instance only.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  /**
+   * Buckets with their token count, last update and expiry.
+   */
+  private readonly buckets = new Map<
+    string,
+    { tokens: number; updatedAt: number; expiresAt: number }
+  >();
+
+  /**
+   * Counters and deadlines with their expiry.
+   */
+  private readonly values = new Map<
+    string,
+    { value: number; expiresAt: number }
+  >();
+
+  /**
+   * Periodic removal of expired entries.
+   */
+  private readonly sweeper = setInterval(() => this.sweep(Date.now()), 60_000);
+
+  /**
+   * Creates a new MemoryRateLimitStore.
+   */
+  constructor() {
+    this.sweeper.unref();
+  }
+
+  take(key: string, bucket: BucketConfig, now: number) {
+    const state = this.buckets.get(key);
+    const result = state
+      ? takeToken(state.tokens, now - state.updatedAt, bucket)
+      : takeToken(bucket.capacity, 0, bucket);
+
+    this.buckets.set(key, {
+      tokens: result.tokens,
+      updatedAt: now,
+      expiresAt: now + idleMs(bucket),
+    });
+    return Promise.resolve({
+      allowed: result.allowed,
+      retryAfterMs: result.retryAfterMs,
+    });
+  }
+
+  increment(key: string, windowMs: number, now: number) {
+    const entry = this.values.get(key);
+    const active = entry && entry.expiresAt > now ? entry : null;
+    const value = (active?.value ?? 0) + 1;
+
+    this.values.set(key, {
+      value,
+      expiresAt: active?.expiresAt ?? now + windowMs,
+    });
+    return Promise.resolve(value);
+  }
+
+  setUntil(key: string, until: number, now: number) {
+    if (until > now) this.values.set(key, { value: until, expiresAt: until });
+    return Promise.resolve();
+  }
+
+  getUntil(key: string, now: number) {
+    const entry = this.values.get(key);
+    return Promise.resolve(entry && entry.expiresAt > now ? entry.value : null);
+  }
+
+  close() {
+    clearInterval(this.sweeper);
+    return Promise.resolve();
+  }
+
+  /**
+   * Removes expired buckets, counters and deadlines.
+   *
+   * @param now Current time (epoch ms)
+   */
+  private sweep(now: number) {
+    for (const [key, state] of this.buckets) {
+      if (state.expiresAt <= now) this.buckets.delete(key);
+    }
+    for (const [key, entry] of this.values) {
+      if (entry.expiresAt <= now) this.values.delete(key);
+    }
+  }
+}
+
+/**
+ * Creates a Redis client for the given server.
+ *
+ * @param url Redis server URL
+ * @returns Unconnected client
+ */
+function createRedisClient(url: string) {
+  return createClient({ url });
+}
+
+//Redis client used by the shared store.
+type RedisClient = ReturnType<typeof createRedisClient>;
+
+//Atomic token bucket update; mirrors `takeToken()`.
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local perMs = tonumber(ARGV[2]) / 1000
+local now = tonumber(ARGV[3])
+local ttl = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * perMs)
+local allowed = 0
+local retry = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+elseif perMs > 0 then
+  retry = math.ceil((1 - tokens) / perMs)
+else
+  retry = -1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], ttl)
+return { allowed, retry }
+`;
+
+/**
+ * Store sharing state between instances through Redis.
+ *
+ * Reads the server from `REDIS_URL`; keys are prefixed with
+ * `RATE_LIMIT_PREFIX` (default `rate-limit`).
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  /**
+   * Creates a new RedisRateLimitStore.
+   *
+   * @param client Connected Redis client
+   * @param prefix Key prefix
+   */
+  constructor(
+    private readonly client: RedisClient,
+    private readonly prefix = process.env.RATE_LIMIT_PREFIX || 'rate-limit',
+  ) {}
+
+  /**
+   * Connects to the Redis server configured by `REDIS_URL`.
+   *
+   * @param onError Handler for connection errors
+   * @returns Connected store
+   */
+  static async connect(
+    onError: (e: Error) => void,
+  ): Promise<RedisRateLimitStore> {
+    const url = process.env.REDIS_URL;
+    if (!url) throw new Error('REDIS_URL is not set');
+
+    const client = createRedisClient(url);
+    client.on('error', onError);
+    await client.connect();
+
+    return new RedisRateLimitStore(client);
+  }
+
+  async take(key: string, bucket: BucketConfig, now: number) {
+    const [allowed, retry] = (await this.client.eval(TAKE_SCRIPT, {
+      keys: [this.key(key)],
+      arguments: [
+        String(bucket.capacity),
+        String(bucket.refillPerSecond),
+        String(now),
+        String(idleMs(bucket)),
+      ],
+    })) as [number, number];
+
+    return {
+      allowed: allowed === 1,
+      retryAfterMs: retry < 0 ? Infinity : retry,
+    };
+  }
+
+  async increment(key: string, windowMs: number) {
+    const [value] = (await this.client
+      .multi()
+      .incr(this.key(key))
+      .pExpire(this.key(key), windowMs, 'NX')
+      .exec()) as unknown as [number, number];
+
+    return value;
+  }
+
+  async setUntil(key: string, until: number, now: number) {
+    if (until <= now) return;
+    await this.client.set(this.key(key), String(until), {
+      expiration: { type: 'PX', value: until - now },
+    });
+  }
+
+  async getUntil(key: string, now: number) {
+    const value = await this.client.get(this.key(key));
+    const until = value ? Number(value) : NaN;
+    return until > now ? until : null;
+  }
+
+  async close() {
+    await this.client.quit();
+  }
+
+  /**
+   * Prefixes a key.
+   *
+   * @param key Unprefixed key
+   * @returns Redis key
+   */
+  private key(key: string): string {
+    return `${this.prefix}:${key}`;
+  }
+}
@@ -0,0 +1,30 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Raised when a rate limit or an automatic mute rejects a request.
+ *
+ * Answered with **429** over HTTP and acknowledged with
+ * `{ ok: false, error: 'rate_limited', retryAfterMs }` over websockets.
+ */
+export class RateLimitedException extends HttpException {
+  /**
+   * Creates a new RateLimitedException.
+   *
+   * @param retryAfterMs Milliseconds until the request may be retried
+   * @param mutedUntil End of the automatic mute, if the user is muted
+   */
+  constructor(
+    readonly retryAfterMs: number,
+    readonly mutedUntil?: Date,
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: 'rate_limited',
+        retryAfterMs,
+        ...(mutedUntil ? { mutedUntil } : {}),
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
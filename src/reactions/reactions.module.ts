@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ReactionsService } from './reactions.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ChannelsModule } from '../channels/channels.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+@Module({
+  imports: [PrismaModule, ChannelsModule, PermissionsModule],
+  providers: [ReactionsService],
+  exports: [ReactionsService],
+})
+export class ReactionsModule {}
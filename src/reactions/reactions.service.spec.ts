@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ReactionsService } from './reactions.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import { PermissionsService } from '../permissions/permissions.service';
+
+describe('ReactionsService', () => {
+  let service: ReactionsService;
+  let events: EventsService;
+  let permissions: { assert: jest.Mock };
+  let channels: { findBySlugOrFail: jest.Mock; assertWritable: jest.Mock };
+  let prisma: {
+    message: { findUnique: jest.Mock };
+    reaction: {
+      createMany: jest.Mock;
+      deleteMany: jest.Mock;
+      count: jest.Mock;
+      groupBy: jest.Mock;
+    };
+  };
+
+  const user = { id: 'u1', role: 'USER' as const };
+
+  beforeEach(async () => {
+    permissions = { assert: jest.fn() };
+    channels = {
+      findBySlugOrFail: jest.fn().mockResolvedValue({ archivedAt: null }),
+      assertWritable: jest.fn(),
+    };
+
+    prisma = {
+      message: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ channelKey: 'general', deletedAt: null }),
+      },
+      reaction: {
+        createMany: jest.fn(),
+        deleteMany: jest.fn(),
+        count: jest.fn().mockResolvedValue(1),
+        groupBy: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReactionsService,
+        EventsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ChannelsService, useValue: channels },
+        { provide: PermissionsService, useValue: permissions },
+      ],
+    }).compile();
+
+    service = module.get<ReactionsService>(ReactionsService);
+    events = module.get<EventsService>(EventsService);
+  });
+
+  it('adds a reaction idempotently and announces the new count', async () => {
+    const updated = jest.fn();
+    events.on('reaction.updated').subscribe(updated);
+
+    await expect(
+      service.addReaction({ messageId: 'm1', user, emoji: ' 👍 ' }),
+    ).resolves.toEqual({
+      channelKey: 'general',
+      messageId: 'm1',
+      userId: 'u1',
+      emoji: '👍',
+      count: 1,
+    });
+    expect(permissions.assert).toHaveBeenCalledWith(
+      user,
+      'message.read',
+      'general',
+    );
+    expect(prisma.reaction.createMany).toHaveBeenCalledWith({
+      data: [{ messageId: 'm1', userId: 'u1', emoji: '👍' }],
+      skipDuplicates: true,
+    });
+    expect(updated).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects invalid emojis', async () => {
+    await expect(
+      service.addReaction({ messageId: 'm1', user, emoji: 'two words' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.reaction.createMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects reactions to deleted messages', async () => {
+    prisma.message.findUnique.mockResolvedValue({
+      channelKey: 'general',
+      deletedAt: new Date(),
+    });
+
+    await expect(
+      service.removeReaction({ messageId: 'm1', user, emoji: '👍' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('aggregates counts per message in order of first use', async () => {
+    prisma.reaction.groupBy.mockResolvedValue([
+      {
+        messageId: 'm1',
+        emoji: '🎉',
+        _count: { _all: 1 },
+        _min: { createdAt: new Date(2000) },
+      },
+      {
+        messageId: 'm1',
+        emoji: '👍',
+        _count: { _all: 3 },
+        _min: { createdAt: new Date(1000) },
+      },
+    ]);
+
+    const summaries = await service.summarize(['m1', 'm2']);
+
+    expect(summaries.get('m1')).toEqual([
+      { emoji: '👍', count: 3 },
+      { emoji: '🎉', count: 1 },
+    ]);
+    expect(summaries.get('m2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import { PermissionsService } from '../permissions/permissions.service';
+
+//Allowed user roles within the reaction domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//User descriptor used for access decisions.
+type ReactionUser = { id: string; role: Role };
+
+//Aggregated reaction count for a single emoji.
+export type ReactionSummary = { emoji: string; count: number };
+
+//Maximum length of an emoji (grapheme sequences or `:shortcode:`).
+const MAX_EMOJI_LENGTH = 32;
+
+/**
+ * Service responsible for emoji reactions on channel messages.
+ *
+ * Applies the same access rules as posting messages and announces
+ * every change through the `reaction.updated` domain event.
+ */
+@Injectable()
+export class ReactionsService {
+  /**
+   * Creates a new ReactionsService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param channels Channels service providing channel access policies
+   * @param events Event bus used to announce reaction changes
+   * @param permissions Service resolving `message.read` per channel
+   */
+  constructor(
+    private prisma: PrismaService,
+    private channels: ChannelsService,
+    private events: EventsService,
+    private permissions: PermissionsService,
+  ) {}
+
+  /**
+   * Validates and normalizes an emoji.
+   *
+   * @param emoji Raw emoji input
+   * @returns The trimmed emoji
+   */
+  private normalizeEmoji(emoji: unknown): string {
+    const value = typeof emoji === 'string' ? emoji.trim() : '';
+    if (!value || value.length > MAX_EMOJI_LENGTH || /\s/.test(value)) {
+      throw new BadRequestException('Invalid emoji');
+    }
+    return value;
+  }
+
+  /**
+   * Loads a visible message and checks that the user may react to it.
+   *
+   * @param messageId Message identifier
+   * @param user Reacting user
+   * @returns The message's channel key
+   */
+  private async assertCanReact(messageId: string, user: ReactionUser) {
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: { channelKey: true, deletedAt: true },
+    });
+    if (!message || message.deletedAt) {
+      throw new NotFoundException('Message not found');
+    }
+
+    // The message must be readable and the channel not archived
+    await this.permissions.assert(user, 'message.read', message.channelKey);
+    const channel = await this.channels.findBySlugOrFail(message.channelKey);
+    this.channels.assertWritable(channel);
+
+    return message.channelKey;
+  }
+
+  /**
+   * Adds a reaction of a user to a message.
+   *
+   * Adding an existing reaction again has no effect.
+   *
+   * @param input Message id, reacting user and emoji
+   * @returns The updated count for the emoji
+   */
+  async addReaction(input: {
+    messageId: string;
+    user: ReactionUser;
+    emoji: string;
+  }) {
+    const emoji = this.normalizeEmoji(input.emoji);
+    const channelKey = await this.assertCanReact(input.messageId, input.user);
+
+    // Insert the reaction unless it already exists
+    await this.prisma.reaction.createMany({
+      data: [{ messageId: input.messageId, userId: input.user.id, emoji }],
+      skipDuplicates: true,
+    });
+
+    return this.announce(channelKey, input.messageId, input.user.id, emoji);
+  }
+
+  /**
+   * Removes a reaction of a user from a message.
+   *
+   * Removing a missing reaction has no effect.
+   *
+   * @param input Message id, reacting user and emoji
+   * @returns The updated count for the emoji
+   */
+  async removeReaction(input: {
+    messageId: string;
+    user: ReactionUser;
+    emoji: string;
+  }) {
+    const emoji = this.normalizeEmoji(input.emoji);
+    const channelKey = await this.assertCanReact(input.messageId, input.user);
+
+    await this.prisma.reaction.deleteMany({
+      where: { messageId: input.messageId, userId: input.user.id, emoji },
+    });
+
+    return this.announce(channelKey, input.messageId, input.user.id, emoji);
+  }
+
+  /**
+   * Counts the reactions for an emoji and emits `reaction.updated`.
+   *
+   * @param channelKey Channel of the message
+   * @param messageId Message identifier
+   * @param userId User who changed the reaction
+   * @param emoji Emoji whose count changed
+   * @returns The updated count for the emoji
+   */
+  private async announce(
+    channelKey: string,
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ) {
+    const count = await this.prisma.reaction.count({
+      where: { messageId, emoji },
+    });
+
+    const update = { channelKey, messageId, userId, emoji, count };
+    this.events.publish('reaction.updated', update);
+
+    return update;
+  }
+
+  /**
+   * Aggregates reaction counts for a set of messages.
+   *
+   * @param messageIds Message identifiers
+   * @returns Reaction summaries keyed by message id
+   */
+  async summarize(
+    messageIds: string[],
+  ): Promise<Map<string, ReactionSummary[]>> {
+    const summaries = new Map<string, ReactionSummary[]>();
+    if (!messageIds.length) return summaries;
+
+    const groups = await this.prisma.reaction.groupBy({
+      by: ['messageId', 'emoji'],
+      where: { messageId: { in: messageIds } },
+      _count: { _all: true },
+      _min: { createdAt: true },
+    });
+
+    // Order emojis by first use so the client rendering stays stable
+    groups.sort(
+      (a, b) =>
+        (a._min.createdAt?.getTime() ?? 0) - (b._min.createdAt?.getTime() ?? 0),
+    );
+
+    for (const group of groups) {
+      const list = summaries.get(group.messageId) ?? [];
+      list.push({ emoji: group.emoji, count: group._count._all });
+      summaries.set(group.messageId, list);
+    }
+
+    return summaries;
+  }
+}
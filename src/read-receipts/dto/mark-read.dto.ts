@@ -0,0 +1,18 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for marking a channel as read.
+ *
+ * This DTO validates the request body of the
+ * `POST /channels/:slug/read` endpoint.
+ */
+export class MarkReadDto {
+  /**
+   * Optional ID of the last read message.
+   *
+   * Defaults to the newest message of the channel.
+   */
+  @IsOptional()
+  @IsString()
+  messageId?: string;
+}
@@ -0,0 +1,26 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReadReceiptsController } from './read-receipts.controller';
+import { ReadReceiptsService } from './read-receipts.service';
+import { AuthService } from '../auth/auth.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+describe('ReadReceiptsController', () => {
+  let controller: ReadReceiptsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ReadReceiptsController],
+      providers: [
+        { provide: ReadReceiptsService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<ReadReceiptsController>(ReadReceiptsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
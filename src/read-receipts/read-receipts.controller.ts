@@ -0,0 +1,56 @@
+import { Body, Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import { ReadReceiptsService } from './read-receipts.service';
+import { MarkReadDto } from './dto/mark-read.dto';
+import type { RequestUser } from '../auth/request-user';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+
+/**
+ * HTTP controller for read receipts and unread counts.
+ *
+ * Read pointers can also be moved over the websocket gateway
+ * (`channel.read`).
+ */
+@Controller()
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+export class ReadReceiptsController {
+  /**
+   * Creates a new ReadReceiptsController.
+   *
+   * @param readReceipts Service providing read receipt logic
+   */
+  constructor(private readonly readReceipts: ReadReceiptsService) {}
+
+  /**
+   * Marks a channel as read up to a message.
+   *
+   * @param slug Channel slug
+   * @param dto Optional last read message
+   * @param user Authenticated user
+   * @returns The current read pointer
+   */
+  @Post('channels/:slug/read')
+  async markRead(
+    @Param('slug') slug: string,
+    @Body() dto: MarkReadDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.readReceipts.markRead({
+      channelKey: slug,
+      user,
+      messageId: dto?.messageId,
+    });
+  }
+
+  /**
+   * Returns the unread counts of the authenticated user.
+   *
+   * @param user Authenticated user
+   * @returns The unread counts per channel
+   */
+  @Get('me/unread')
+  async unread(@CurrentUser() user: RequestUser) {
+    return this.readReceipts.getUnreadCounts(user);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ReadReceiptsService } from './read-receipts.service';
+import { ReadReceiptsController } from './read-receipts.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { ChannelsModule } from '../channels/channels.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule, ChannelsModule, PermissionsModule],
+  controllers: [ReadReceiptsController],
+  providers: [ReadReceiptsService],
+  exports: [ReadReceiptsService],
+})
+export class ReadReceiptsModule {}
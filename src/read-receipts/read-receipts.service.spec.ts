@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ReadReceiptsService } from './read-receipts.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import { PermissionsService } from '../permissions/permissions.service';
+
+describe('ReadReceiptsService', () => {
+  let service: ReadReceiptsService;
+  let events: EventsService;
+  let permissions: { assert: jest.Mock };
+  let channels: { findBySlugOrFail: jest.Mock; listChannels: jest.Mock };
+  let prisma: {
+    message: { findFirst: jest.Mock; count: jest.Mock };
+    channelReadState: {
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      upsert: jest.Mock;
+    };
+  };
+
+  const user = { id: 'u1', role: 'USER' as const };
+
+  beforeEach(async () => {
+    permissions = { assert: jest.fn() };
+    channels = {
+      findBySlugOrFail: jest
+        .fn()
+        .mockResolvedValue({ id: 'c1', slug: 'general' }),
+      listChannels: jest.fn(),
+    };
+
+    prisma = {
+      message: { findFirst: jest.fn(), count: jest.fn() },
+      channelReadState: {
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        upsert: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReadReceiptsService,
+        EventsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ChannelsService, useValue: channels },
+        { provide: PermissionsService, useValue: permissions },
+      ],
+    }).compile();
+
+    service = module.get<ReadReceiptsService>(ReadReceiptsService);
+    events = module.get<EventsService>(EventsService);
+  });
+
+  describe('markRead', () => {
+    const message = { id: 'm2', createdAt: new Date(2000) };
+
+    it('advances the pointer and announces the receipt', async () => {
+      const read = jest.fn();
+      events.on('message.read').subscribe(read);
+      prisma.message.findFirst.mockResolvedValue(message);
+      prisma.channelReadState.upsert.mockResolvedValue({
+        lastReadMessageId: 'm2',
+        lastReadAt: message.createdAt,
+      });
+
+      await expect(
+        service.markRead({ channelKey: 'general', user }),
+      ).resolves.toEqual({
+        channelKey: 'general',
+        lastReadMessageId: 'm2',
+        lastReadAt: message.createdAt,
+      });
+      expect(read).toHaveBeenCalledTimes(1);
+    });
+
+    it('never moves the pointer backwards', async () => {
+      prisma.message.findFirst.mockResolvedValue(message);
+      prisma.channelReadState.findUnique.mockResolvedValue({
+        lastReadMessageId: 'm3',
+        lastReadAt: new Date(3000),
+      });
+
+      const state = await service.markRead({
+        channelKey: 'general',
+        user,
+        messageId: 'm2',
+      });
+
+      expect(state.lastReadMessageId).toBe('m3');
+      expect(prisma.channelReadState.upsert).not.toHaveBeenCalled();
+    });
+
+    it('rejects messages outside the channel', async () => {
+      prisma.message.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.markRead({ channelKey: 'general', user, messageId: 'x' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  it('counts unread messages after the read pointer', async () => {
+    const lastReadAt = new Date(1000);
+    channels.listChannels.mockResolvedValue([
+      { id: 'c1', slug: 'general' },
+      { id: 'c2', slug: 'random' },
+    ]);
+    prisma.channelReadState.findMany.mockResolvedValue([
+      { channelId: 'c1', lastReadMessageId: 'm1', lastReadAt },
+    ]);
+    prisma.message.count.mockResolvedValueOnce(2).mockResolvedValueOnce(5);
+
+    await expect(service.getUnreadCounts(user)).resolves.toEqual({
+      total: 7,
+      channels: [
+        {
+          channelKey: 'general',
+          unread: 2,
+          lastReadMessageId: 'm1',
+          lastReadAt,
+        },
+        {
+          channelKey: 'random',
+          unread: 5,
+          lastReadMessageId: null,
+          lastReadAt: null,
+        },
+      ],
+    });
+    expect(prisma.message.count).toHaveBeenCalledWith({
+      where: {
+        channelKey: 'general',
+        parentId: null,
+        deletedAt: null,
+        authorId: { not: 'u1' },
+        createdAt: { gt: lastReadAt },
+      },
+    });
+  });
+});
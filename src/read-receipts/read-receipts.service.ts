@@ -0,0 +1,171 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelsService } from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import { PermissionsService } from '../permissions/permissions.service';
+
+//Allowed user roles within the read receipt domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//User descriptor used for access decisions.
+type ReaderUser = { id: string; role: Role };
+
+//Fields returned for every read pointer read through this service.
+const READ_STATE_SELECT = {
+  lastReadMessageId: true,
+  lastReadAt: true,
+} as const;
+
+/**
+ * Service responsible for read receipts and unread counts.
+ *
+ * Keeps one read pointer per user and channel. Only top-level messages
+ * are tracked, matching what `GET /messages` lists.
+ */
+@Injectable()
+export class ReadReceiptsService {
+  /**
+   * Creates a new ReadReceiptsService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param channels Channels service providing channel access policies
+   * @param events Event bus used to announce read receipts
+   * @param permissions Service resolving `message.read` per channel
+   */
+  constructor(
+    private prisma: PrismaService,
+    private channels: ChannelsService,
+    private events: EventsService,
+    private permissions: PermissionsService,
+  ) {}
+
+  /**
+   * Whether read receipts are broadcast to the other channel members.
+   *
+   * Enabled unless `READ_RECEIPT_BROADCASTS` is set to `false`.
+   *
+   * @returns Whether `message.read` events are published
+   */
+  private broadcastsEnabled(): boolean {
+    return process.env.READ_RECEIPT_BROADCASTS !== 'false';
+  }
+
+  /**
+   * Marks a channel as read up to a message.
+   *
+   * Without a message id the newest message of the channel is used.
+   * The pointer only moves forward; marking an older message is a no-op.
+   * Emits a `message.read` domain event when the pointer advanced.
+   *
+   * @param input Channel key, reading user and optional message id
+   * @returns The current read pointer of the user
+   */
+  async markRead(input: {
+    channelKey: string;
+    user: ReaderUser;
+    messageId?: string;
+  }) {
+    const { channelKey, user } = input;
+    await this.permissions.assert(user, 'message.read', channelKey);
+    const channel = await this.channels.findBySlugOrFail(channelKey);
+
+    // Resolve the message the pointer should move to
+    const message = await this.prisma.message.findFirst({
+      where: {
+        channelKey,
+        parentId: null,
+        ...(input.messageId ? { id: input.messageId } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, createdAt: true },
+    });
+    if (!message) throw new NotFoundException('Message not found');
+
+    const where = {
+      channelId_userId: { channelId: channel.id, userId: user.id },
+    };
+    const current = await this.prisma.channelReadState.findUnique({
+      where,
+      select: READ_STATE_SELECT,
+    });
+
+    // Never move the pointer backwards
+    if (current && current.lastReadAt >= message.createdAt) {
+      return { channelKey, ...current };
+    }
+
+    const state = await this.prisma.channelReadState.upsert({
+      where,
+      create: {
+        channelId: channel.id,
+        userId: user.id,
+        lastReadMessageId: message.id,
+        lastReadAt: message.createdAt,
+      },
+      update: {
+        lastReadMessageId: message.id,
+        lastReadAt: message.createdAt,
+      },
+      select: READ_STATE_SELECT,
+    });
+
+    // Let other members show "seen by"
+    if (this.broadcastsEnabled()) {
+      this.events.publish('message.read', {
+        channelKey,
+        userId: user.id,
+        messageId: state.lastReadMessageId,
+        readAt: new Date(),
+      });
+    }
+
+    return { channelKey, ...state };
+  }
+
+  /**
+   * Counts unread messages in all channels accessible to a user.
+   *
+   * Deleted messages, replies and the user's own messages are not counted.
+   * Channels the user has never read count all their messages.
+   *
+   * @param user User requesting the counts
+   * @returns Total and per-channel unread counts
+   */
+  async getUnreadCounts(user: ReaderUser) {
+    const channels = await this.channels.listChannels(user);
+
+    const states = await this.prisma.channelReadState.findMany({
+      where: { userId: user.id },
+      select: { channelId: true, ...READ_STATE_SELECT },
+    });
+    const byChannel = new Map(states.map((state) => [state.channelId, state]));
+
+    // Count newer messages per channel using the [channelKey, createdAt] index
+    const counts = await Promise.all(
+      channels.map(async (channel) => {
+        const state = byChannel.get(channel.id);
+        const unread = await this.prisma.message.count({
+          where: {
+            channelKey: channel.slug,
+            parentId: null,
+            deletedAt: null,
+            authorId: { not: user.id },
+            ...(state ? { createdAt: { gt: state.lastReadAt } } : {}),
+          },
+        });
+
+        return {
+          channelKey: channel.slug,
+          unread,
+          lastReadMessageId: state?.lastReadMessageId ?? null,
+          lastReadAt: state?.lastReadAt ?? null,
+        };
+      }),
+    );
+
+    return {
+      total: counts.reduce((sum, entry) => sum + entry.unread, 0),
+      channels: counts,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { Server } from 'socket.io';
+import { PresenceService, RoomSocket } from './presence.service';
+
+//In-memory stand-in for the sockets of a Socket.IO cluster.
+class FakeCluster {
+  readonly sockets: RoomSocket[] = [];
+
+  socket(id: string, userId: string): RoomSocket {
+    const socket: RoomSocket = {
+      id,
+      rooms: new Set([id]),
+      data: { user: { id: userId } },
+      join: (room: string) => socket.rooms.add(room),
+      leave: (room: string) => socket.rooms.delete(room),
+    };
+    this.sockets.push(socket);
+    return socket;
+  }
+
+  drop(socket: RoomSocket) {
+    this.sockets.splice(this.sockets.indexOf(socket), 1);
+    socket.rooms.clear();
+  }
+
+  asServer(): Server {
+    return {
+      in: (room: string) => ({
+        fetchSockets: () =>
+          Promise.resolve(this.sockets.filter((s) => s.rooms.has(room))),
+      }),
+    } as unknown as Server;
+  }
+}
+
+describe('PresenceService', () => {
+  let presence: PresenceService;
+  let cluster: FakeCluster;
+
+  beforeEach(() => {
+    cluster = new FakeCluster();
+    presence = new PresenceService();
+    presence.attach(cluster.asServer());
+  });
+
+  it('aggregates the status across all sockets of a user', async () => {
+    const s1 = cluster.socket('s1', 'u1');
+    const s2 = cluster.socket('s2', 'u1');
+
+    await expect(presence.connect(s1, 'u1')).resolves.toEqual({
+      userId: 'u1',
+      status: 'online',
+      changed: true,
+    });
+    expect((await presence.connect(s2, 'u1')).changed).toBe(false);
+
+    // One online socket keeps the user online
+    expect((await presence.setStatus(s1, 'u1', 'away')).changed).toBe(false);
+    await expect(presence.setStatus(s2, 'u1', 'away')).resolves.toEqual({
+      userId: 'u1',
+      status: 'away',
+      changed: true,
+    });
+
+    cluster.drop(s1);
+    expect((await presence.disconnect(s1, 'u1'))?.status).toBe('away');
+    cluster.drop(s2);
+    expect((await presence.disconnect(s2, 'u1'))?.status).toBe('offline');
+  });
+
+  it('tracks channel presence per user rather than per socket', async () => {
+    const s1 = cluster.socket('s1', 'u1');
+    const s2 = cluster.socket('s2', 'u1');
+    const s3 = cluster.socket('s3', 'u2');
+    for (const socket of [s1, s2]) await presence.connect(socket, 'u1');
+    await presence.connect(s3, 'u2');
+
+    expect(await presence.joinChannel(s1, 'u1', 'general')).toBe(true);
+    expect(await presence.joinChannel(s2, 'u1', 'general')).toBe(false);
+    await presence.joinChannel(s3, 'u2', 'general');
+
+    await expect(presence.listChannelMembers('general')).resolves.toEqual([
+      { userId: 'u1', status: 'online' },
+      { userId: 'u2', status: 'online' },
+    ]);
+    await expect(presence.channelsOf('u1')).resolves.toEqual(['general']);
+
+    // The user stays present while another socket is in the room
+    expect(await presence.leaveChannel(s1, 'u1', 'general')).toBe(false);
+    cluster.drop(s2);
+    expect((await presence.disconnect(s2, 'u1'))?.channelsLeft).toEqual([
+      'general',
+    ]);
+    await expect(presence.listChannelMembers('general')).resolves.toEqual([
+      { userId: 'u2', status: 'online' },
+    ]);
+  });
+
+  it('ignores sockets that never connected', async () => {
+    const socket = cluster.socket('s1', 'u1');
+
+    await expect(presence.disconnect(socket, 'u1')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+import { Injectable } from '@nestjs/common';
+import { Server } from 'socket.io';
+import { userRoom } from './rooms';
+
+//Presence status of a single socket as reported by the client.
+export type SocketStatus = 'online' | 'away';
+
+//Aggregated presence status of a user across all of their sockets.
+export type PresenceStatus = SocketStatus | 'offline';
+
+//Change of a user's aggregated status.
+export type PresenceChange = {
+  userId: string;
+  status: PresenceStatus;
+  changed: boolean;
+};
+
+//Local or remote socket as seen by the presence queries.
+type PresenceSocket = {
+  id: string;
+  rooms: Set<string>;
+  data: { user?: { id: string }; status?: SocketStatus };
+};
+
+//Socket that can join and leave rooms (local or remote).
+export type RoomSocket = PresenceSocket & {
+  join(room: string): unknown;
+  leave(room: string): unknown;
+};
+
+/**
+ * Presence of users across all sockets of the Socket.IO cluster.
+ *
+ * State is read from the sockets themselves (`socket.data.status` and
+ * their rooms) through `fetchSockets()`, so with a cross-instance adapter
+ * presence reflects the sockets of every instance. A user is `online`
+ * while at least one socket is online, `away` while all of their sockets
+ * are away and `offline` once the last socket disconnects.
+ */
+@Injectable()
+export class PresenceService {
+  /**
+   * Socket.IO server used for cluster-wide socket queries.
+   */
+  private server!: Server;
+
+  /**
+   * Channel rooms of the sockets connected to this instance.
+   *
+   * Socket.IO clears the rooms of a socket before `handleDisconnect` runs,
+   * so they are tracked here to announce the channels a user left.
+   */
+  private readonly localChannels = new Map<string, Set<string>>();
+
+  /**
+   * Attaches the Socket.IO server once the gateway is initialized.
+   *
+   * @param server Socket.IO server
+   */
+  attach(server: Server) {
+    this.server = server;
+  }
+
+  /**
+   * Aggregates the status of a user from their sockets.
+   *
+   * @param sockets All sockets of the user
+   * @returns Aggregated presence status
+   */
+  private aggregate(sockets: PresenceSocket[]): PresenceStatus {
+    if (!sockets.length) return 'offline';
+    return sockets.some((socket) => socket.data.status !== 'away')
+      ? 'online'
+      : 'away';
+  }
+
+  /**
+   * Fetches all sockets of a user across the cluster.
+   *
+   * @param userId User identifier
+   * @returns Sockets in the user's personal room
+   */
+  private async fetchUserSockets(userId: string): Promise<PresenceSocket[]> {
+    return this.server.in(userRoom(userId)).fetchSockets();
+  }
+
+  /**
+   * Computes the aggregated status of a user.
+   *
+   * @param userId User identifier
+   * @returns Aggregated presence status
+   */
+  async getStatus(userId: string): Promise<PresenceStatus> {
+    return this.aggregate(await this.fetchUserSockets(userId));
+  }
+
+  /**
+   * Runs a mutation and reports whether it changed the user's status.
+   *
+   * @param userId User identifier
+   * @param mutate Mutation of the user's sockets
+   * @returns The resulting status change
+   */
+  private async track(
+    userId: string,
+    mutate: () => unknown,
+  ): Promise<PresenceChange> {
+    const before = await this.getStatus(userId);
+    await mutate();
+    const status = await this.getStatus(userId);
+
+    return { userId, status, changed: before !== status };
+  }
+
+  /**
+   * Registers a newly authenticated socket in its user's personal room.
+   *
+   * @param socket Connected socket
+   * @param userId Owner of the socket
+   * @returns The resulting status change of the user
+   */
+  async connect(socket: RoomSocket, userId: string): Promise<PresenceChange> {
+    return this.track(userId, async () => {
+      socket.data.status = 'online';
+      this.localChannels.set(socket.id, new Set());
+      await socket.join(userRoom(userId));
+    });
+  }
+
+  /**
+   * Removes a disconnected socket.
+   *
+   * @param socket Disconnected socket (already removed from all rooms)
+   * @param userId Owner of the socket
+   * @returns The status change and the channels the user is no longer
+   *   present in, or null for sockets that never authenticated
+   */
+  async disconnect(socket: PresenceSocket, userId: string) {
+    const channels = this.localChannels.get(socket.id);
+    if (!channels) return null;
+    this.localChannels.delete(socket.id);
+
+    const remaining = await this.fetchUserSockets(userId);
+    const before = this.aggregate([...remaining, socket]);
+    const status = this.aggregate(remaining);
+
+    // Channels no other socket of the user is present in
+    const channelsLeft = [...channels].filter(
+      (channelKey) => !remaining.some((other) => other.rooms.has(channelKey)),
+    );
+
+    return { userId, status, changed: before !== status, channelsLeft };
+  }
+
+  /**
+   * Sets the client-reported status of a socket.
+   *
+   * @param socket Socket reporting its status
+   * @param userId Owner of the socket
+   * @param status New socket status
+   * @returns The resulting status change
+   */
+  async setStatus(
+    socket: PresenceSocket,
+    userId: string,
+    status: SocketStatus,
+  ): Promise<PresenceChange> {
+    return this.track(userId, () => {
+      socket.data.status = status;
+    });
+  }
+
+  /**
+   * Joins a socket into a channel room.
+   *
+   * @param socket Socket joining the channel
+   * @param userId Owner of the socket
+   * @param channelKey Channel room name
+   * @returns Whether the user was not present in the channel before
+   */
+  async joinChannel(socket: RoomSocket, userId: string, channelKey: string) {
+    const entered = !(await this.isInChannel(userId, channelKey));
+
+    await socket.join(channelKey);
+    this.localChannels.get(socket.id)?.add(channelKey);
+
+    return entered;
+  }
+
+  /**
+   * Removes a (local or remote) socket from a channel room.
+   *
+   * @param socket Socket leaving the channel
+   * @param userId Owner of the socket
+   * @param channelKey Channel room name
+   * @returns Whether the user is no longer present in the channel
+   */
+  async leaveChannel(socket: RoomSocket, userId: string, channelKey: string) {
+    await socket.leave(channelKey);
+    this.localChannels.get(socket.id)?.delete(channelKey);
+
+    return !(await this.isInChannel(userId, channelKey));
+  }
+
+  /**
+   * Checks whether any socket of a user is present in a channel.
+   *
+   * @param userId User identifier
+   * @param channelKey Channel room name
+   * @returns Whether the user is present in the channel
+   */
+  async isInChannel(userId: string, channelKey: string): Promise<boolean> {
+    const sockets = await this.fetchUserSockets(userId);
+    return sockets.some((socket) => socket.rooms.has(channelKey));
+  }
+
+  /**
+   * Lists the channels a user is currently present in.
+   *
+   * @param userId User identifier
+   * @returns Channel room names
+   */
+  async channelsOf(userId: string): Promise<string[]> {
+    const channels = new Set<string>();
+
+    for (const socket of await this.fetchUserSockets(userId)) {
+      socket.rooms.forEach((room) => {
+        // Skip the socket's own room and prefixed (non-channel) rooms
+        if (room !== socket.id && !room.includes(':')) channels.add(room);
+      });
+    }
+
+    return [...channels];
+  }
+
+  /**
+   * Lists the users currently present in a channel.
+   *
+   * @param channelKey Channel room name
+   * @returns Present users with their aggregated status
+   */
+  async listChannelMembers(channelKey: string) {
+    const sockets: PresenceSocket[] = await this.server
+      .in(channelKey)
+      .fetchSockets();
+
+    const userIds = new Set<string>();
+    sockets.forEach((socket) => {
+      if (socket.data.user) userIds.add(socket.data.user.id);
+    });
+
+    return Promise.all(
+      [...userIds].map(async (userId) => ({
+        userId,
+        status: await this.getStatus(userId),
+      })),
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { createServer } from 'node:http';
+import { createAdapter as createRedisAdapter } from '@socket.io/redis-adapter';
+import { createAdapter as createPostgresAdapter } from '@socket.io/postgres-adapter';
+import { createClient } from 'redis';
+import { Pool } from 'pg';
+import { Server } from 'socket.io';
+import { RealtimeIoAdapter, resolveAdapterKind } from './realtime-io.adapter';
+
+jest.mock('redis', () => ({ createClient: jest.fn() }));
+jest.mock('pg', () => ({ Pool: jest.fn() }));
+jest.mock('@socket.io/redis-adapter', () => ({ createAdapter: jest.fn() }));
+jest.mock('@socket.io/postgres-adapter', () => ({ createAdapter: jest.fn() }));
+
+describe('resolveAdapterKind', () => {
+  it('defaults to the in-memory adapter', () => {
+    expect(resolveAdapterKind(undefined)).toBe('memory');
+    expect(resolveAdapterKind('')).toBe('memory');
+  });
+
+  it('accepts the supported backends case-insensitively', () => {
+    expect(resolveAdapterKind('Redis')).toBe('redis');
+    expect(resolveAdapterKind(' postgres ')).toBe('postgres');
+  });
+
+  it('rejects unknown backends', () => {
+    expect(() => resolveAdapterKind('kafka')).toThrow(
+      'Unsupported SOCKET_ADAPTER: kafka',
+    );
+  });
+});
+
+describe('RealtimeIoAdapter', () => {
+  /** Stand-in for the adapters of the cross-instance backends. */
+  class BackendAdapter {
+    init() {}
+    close() {}
+  }
+
+  let adapter: RealtimeIoAdapter | undefined;
+  let server: Server | undefined;
+
+  /** Connects an adapter and creates a server sharing an HTTP server. */
+  const open = async (kind: 'memory' | 'redis' | 'postgres') => {
+    adapter = new RealtimeIoAdapter(createServer() as never, kind);
+    await adapter.connect();
+    server = adapter.createIOServer(0);
+    return server;
+  };
+
+  beforeEach(() => {
+    jest.mocked(createRedisAdapter).mockReturnValue(BackendAdapter as never);
+    jest.mocked(createPostgresAdapter).mockReturnValue(BackendAdapter as never);
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    await adapter?.dispose();
+    server = adapter = undefined;
+    jest.clearAllMocks();
+    delete process.env.REDIS_URL;
+    delete process.env.DATABASE_URL;
+  });
+
+  it('keeps the in-memory adapter by default', async () => {
+    const io = await open('memory');
+
+    expect(io.of('/').adapter).not.toBeInstanceOf(BackendAdapter);
+  });
+
+  it('installs the Redis adapter on created servers', async () => {
+    process.env.REDIS_URL = 'redis://localhost:6379';
+    const client = () => ({
+      on: jest.fn(),
+      connect: jest.fn().mockResolvedValue(undefined),
+      quit: jest.fn().mockResolvedValue(undefined),
+    });
+    const pubClient = { ...client(), duplicate: jest.fn() };
+    const subClient = client();
+    pubClient.duplicate.mockReturnValue(subClient);
+    jest.mocked(createClient).mockReturnValue(pubClient as never);
+
+    const io = await open('redis');
+
+    expect(createRedisAdapter).toHaveBeenCalledWith(pubClient, subClient, {
+      key: 'socket.io',
+    });
+    expect(io.of('/').adapter).toBeInstanceOf(BackendAdapter);
+    expect(io.of('/rooms').adapter).toBeInstanceOf(BackendAdapter);
+
+    await adapter!.dispose();
+    expect(pubClient.quit).toHaveBeenCalled();
+    expect(subClient.quit).toHaveBeenCalled();
+  });
+
+  it('installs the Postgres adapter on created servers', async () => {
+    process.env.DATABASE_URL = 'postgresql://localhost/chat';
+    const pool = {
+      on: jest.fn(),
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      end: jest.fn().mockResolvedValue(undefined),
+    };
+    jest.mocked(Pool).mockImplementation(() => pool as never);
+
+    const io = await open('postgres');
+
+    expect(Pool).toHaveBeenCalledWith({
+      connectionString: 'postgresql://localhost/chat',
+    });
+    // The attachments table is created by the migrations
+    expect(pool.query).not.toHaveBeenCalledWith(
+      expect.stringContaining('CREATE TABLE'),
+    );
+    expect(createPostgresAdapter).toHaveBeenCalledWith(
+      pool,
+      expect.objectContaining({ channelPrefix: 'socket.io' }) as unknown,
+    );
+    expect(io.of('/').adapter).toBeInstanceOf(BackendAdapter);
+
+    await adapter!.dispose();
+    expect(pool.end).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter as createRedisAdapter } from '@socket.io/redis-adapter';
+import { createAdapter as createPostgresAdapter } from '@socket.io/postgres-adapter';
+import { createClient } from 'redis';
+import { Pool } from 'pg';
+import { Server, ServerOptions } from 'socket.io';
+
+//Supported Socket.IO adapter backends.
+export type SocketAdapterKind = 'memory' | 'redis' | 'postgres';
+
+//Adapter factory accepted by `Server.adapter()`.
+type AdapterConstructor = NonNullable<Parameters<Server['adapter']>[0]>;
+
+/**
+ * Reads the configured adapter backend from `SOCKET_ADAPTER`.
+ *
+ * @param value Raw configuration value
+ * @returns The adapter backend, `memory` if not configured
+ */
+export function resolveAdapterKind(value?: string): SocketAdapterKind {
+  const kind = (value ?? '').trim().toLowerCase() || 'memory';
+  if (kind === 'memory' || kind === 'redis' || kind === 'postgres') {
+    return kind;
+  }
+  throw new Error(`Unsupported SOCKET_ADAPTER: ${value}`);
+}
+
+/**
+ * Socket.IO adapter with a configurable cross-instance backend.
+ *
+ * With the default in-memory adapter, broadcasts and room queries only reach
+ * sockets of the current process. The Redis (pub/sub) and Postgres
+ * (LISTEN/NOTIFY) backends forward them to every instance, so that multiple
+ * replicas can run behind a load balancer.
+ */
+export class RealtimeIoAdapter extends IoAdapter {
+  /**
+   * Logger of the adapter layer.
+   */
+  private readonly logger = new Logger(RealtimeIoAdapter.name);
+
+  /**
+   * Adapter factory applied to created servers (unset for `memory`).
+   */
+  private adapterConstructor?: AdapterConstructor;
+
+  /**
+   * Releases the connections of the backend on shutdown.
+   */
+  private readonly closers: Array<() => Promise<unknown>> = [];
+
+  /**
+   * Creates a new RealtimeIoAdapter.
+   *
+   * @param app Nest application the adapter is used by
+   * @param kind Adapter backend (defaults to `SOCKET_ADAPTER`)
+   */
+  constructor(
+    app: INestApplicationContext,
+    private readonly kind = resolveAdapterKind(process.env.SOCKET_ADAPTER),
+  ) {
+    super(app);
+  }
+
+  /**
+   * Connects to the configured backend.
+   *
+   * Must be awaited before the adapter is passed to `useWebSocketAdapter`.
+   */
+  async connect(): Promise<void> {
+    switch (this.kind) {
+      case 'redis':
+        this.adapterConstructor = await this.connectRedis();
+        break;
+      case 'postgres':
+        this.adapterConstructor = await this.connectPostgres();
+        break;
+      default:
+        // Single instance: keep Socket.IO's in-memory adapter
+        break;
+    }
+
+    this.logger.log(`Using ${this.kind} Socket.IO adapter`);
+  }
+
+  /**
+   * Connects the Redis pub/sub clients.
+   *
+   * Reads the server from `REDIS_URL`.
+   *
+   * @returns Redis adapter factory
+   */
+  private async connectRedis(): Promise<AdapterConstructor> {
+    const url = process.env.REDIS_URL;
+    if (!url) throw new Error('REDIS_URL is not set');
+
+    const pubClient = createClient({ url });
+    const subClient = pubClient.duplicate();
+    pubClient.on('error', (e: Error) => this.logger.error(e.message));
+    subClient.on('error', (e: Error) => this.logger.error(e.message));
+
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    this.closers.push(
+      () => pubClient.quit(),
+      () => subClient.quit(),
+    );
+
+    return createRedisAdapter(pubClient, subClient, {
+      key: process.env.SOCKET_ADAPTER_CHANNEL || 'socket.io',
+    });
+  }
+
+  /**
+   * Connects the Postgres pool used for LISTEN/NOTIFY.
+   *
+   * Reads the database from `SOCKET_ADAPTER_DATABASE_URL`, falling back to
+   * `DATABASE_URL`. Payloads above the NOTIFY size limit are stored in the
+   * `socket_io_attachments` table, created by the Prisma migrations.
+   *
+   * @returns Postgres adapter factory
+   */
+  private async connectPostgres(): Promise<AdapterConstructor> {
+    const connectionString =
+      process.env.SOCKET_ADAPTER_DATABASE_URL || process.env.DATABASE_URL;
+    if (!connectionString) throw new Error('DATABASE_URL is not set');
+
+    const pool = new Pool({ connectionString });
+    pool.on('error', (e: Error) => this.logger.error(e.message));
+
+    // Fail early if the database is unreachable
+    await pool.query('SELECT 1');
+    this.closers.push(() => pool.end());
+
+    return createPostgresAdapter(pool, {
+      channelPrefix: process.env.SOCKET_ADAPTER_CHANNEL || 'socket.io',
+      errorHandler: (e) => this.logger.error(e.message),
+    });
+  }
+
+  /**
+   * Creates the Socket.IO server and installs the configured adapter.
+   *
+   * @param port Port to listen on (0 to share the HTTP server)
+   * @param options Socket.IO server options
+   * @returns The Socket.IO server
+   */
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    if (this.adapterConstructor) server.adapter(this.adapterConstructor);
+    return server;
+  }
+
+  /**
+   * Closes the backend connections on application shutdown.
+   */
+  async dispose(): Promise<void> {
+    await super.dispose();
+    await Promise.allSettled(this.closers.map((close) => close()));
+  }
+}
@@ -1,12 +1,46 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { RealtimeGateway } from './realtime.gateway';
+import { MessagesService } from '../messages/messages.service';
+import { ChannelsService } from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import { DirectMessagesService } from '../direct-messages/direct-messages.service';
+import { ReactionsService } from '../reactions/reactions.service';
+import { ReadReceiptsService } from '../read-receipts/read-receipts.service';
+import { PresenceService } from './presence.service';
+import { TypingService } from './typing.service';
+import { SessionExpiryService } from './session-expiry.service';
+import { AuthService } from '../auth/auth.service';
+import { JwtKeysService } from '../auth/jwt-keys.service';
+import { SessionsService } from '../auth/sessions.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { ReportsService } from '../reports/reports.service';
 
 describe('RealtimeGateway', () => {
   let gateway: RealtimeGateway;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [RealtimeGateway],
+      providers: [
+        RealtimeGateway,
+        EventsService,
+        PresenceService,
+        TypingService,
+        SessionExpiryService,
+        AuthService,
+        JwtKeysService,
+        { provide: MessagesService, useValue: {} },
+        { provide: ChannelsService, useValue: {} },
+        { provide: DirectMessagesService, useValue: {} },
+        { provide: ReactionsService, useValue: {} },
+        { provide: ReadReceiptsService, useValue: {} },
+        { provide: SessionsService, useValue: {} },
+        { provide: ModerationService, useValue: {} },
+        { provide: ReportsService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+        { provide: PermissionsService, useValue: {} },
+      ],
     }).compile();
 
     gateway = module.get<RealtimeGateway>(RealtimeGateway);
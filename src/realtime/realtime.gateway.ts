@@ -1,13 +1,47 @@
+import { Logger, OnModuleDestroy, UseFilters, UseGuards } from '@nestjs/common';
 import {
   ConnectedSocket,
   MessageBody,
+  OnGatewayInit,
   SubscribeMessage,
   WebSocketGateway,
   WebSocketServer,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import * as jwt from 'jsonwebtoken';
+import { Subscription } from 'rxjs';
 import { MessagesService } from '../messages/messages.service';
+import { ChannelsService } from '../channels/channels.service';
+import { EventsService } from '../events/events.service';
+import type {
+  DomainEvents,
+  NotificationSnapshot,
+  ReportSnapshot,
+} from '../events/domain-events';
+import { DirectMessagesService } from '../direct-messages/direct-messages.service';
+import { ReactionsService } from '../reactions/reactions.service';
+import { ReadReceiptsService } from '../read-receipts/read-receipts.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { ReportsService } from '../reports/reports.service';
+import { AuthService } from '../auth/auth.service';
+import type { RequestUser } from '../auth/request-user';
+import { createWsAuthMiddleware } from '../auth/ws-auth.middleware';
+import { PermissionsService } from '../permissions/permissions.service';
+import { PermissionsGuard } from '../permissions/permissions.guard';
+import { RequirePermission } from '../permissions/require-permission.decorator';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { MessageRejectedException } from '../message-pipeline/message-rejected.exception';
+import { REPORTS_ROOM, userRoom } from './rooms';
+import {
+  PresenceChange,
+  PresenceService,
+  PresenceStatus,
+  RoomSocket,
+  SocketStatus,
+} from './presence.service';
+import { TypingService } from './typing.service';
+import { SessionExpiryService } from './session-expiry.service';
+import { WsAckExceptionFilter } from './ws-ack-exception.filter';
 
 /**
  * Realtime service intentionally does NOT depend on Prisma enums.
@@ -16,133 +50,516 @@ import { MessagesService } from '../messages/messages.service';
  * to keep the gateway decoupled from persistence-layer concerns.
  */
 
-//Allowed user roles within the realtime context.
-type Role = 'USER' | 'ADMIN';
-
-//Allowed channel identifiers for websocket communication.
-type ChannelKey = 'general' | 'support';
+//Channel identifier for websocket communication (channel slug / room name).
+type ChannelKey = string;
 
-//Representation of an authenticated websocket user.
-type WsUser = {
-  /** Unique user identifier (usually JWT `sub`) */
-  id: string;
+//Reason a `presence.changed` event is broadcast.
+type PresenceReason = 'connect' | 'disconnect' | 'status' | 'join' | 'leave';
 
-  /** Optional user email address */
-  email?: string;
-
-  /** Role derived from JWT payload */
-  role: Role;
-};
+//Authenticated websocket user, set on `socket.data` by the auth middleware.
+type WsUser = RequestUser;
 
 /**
  * WebSocket gateway responsible for realtime messaging.
  *
  * Handles authentication via JWT, channel access control,
- * and message broadcasting using Socket.IO.
+ * and message broadcasting using Socket.IO. `@RequirePermission()`
+ * requirements are enforced by `PermissionsGuard`, `@RateLimit()` by
+ * `RateLimitGuard`; rejected events are acknowledged with
+ * `{ ok: false, error }`.
  */
 @WebSocketGateway({ cors: { origin: true } })
-export class RealtimeGateway {
+@UseGuards(PermissionsGuard, RateLimitGuard)
+@UseFilters(WsAckExceptionFilter)
+export class RealtimeGateway implements OnGatewayInit, OnModuleDestroy {
   /**
    * Underlying Socket.IO server instance.
    */
   @WebSocketServer()
   server!: Server;
 
+  /**
+   * Subscriptions to domain events, released on shutdown.
+   */
+  private readonly subscriptions = new Subscription();
+
+  /**
+   * Logger of the gateway.
+   */
+  private readonly logger = new Logger(RealtimeGateway.name);
+
   /**
    * Creates a new RealtimeGateway.
    *
    * @param messages Service responsible for message persistence and access checks
+   * @param channels Service responsible for channel memberships
+   * @param events Event bus delivering domain events from other modules
+   * @param directMessages Service responsible for direct conversations
+   * @param reactions Service responsible for message reactions
+   * @param readReceipts Service responsible for read pointers
+   * @param presence Registry of connected sockets and their channel rooms
+   * @param typing Tracker of ephemeral typing indicators
+   * @param auth Service verifying access tokens
+   * @param expiry Tracker of access token expiry per socket
+   * @param moderation Service enforcing channel sanctions and slow mode
+   * @param reports Service storing user reports
+   * @param permissions Service resolving who works the report queue
+   */
+  constructor(
+    private readonly messages: MessagesService,
+    private readonly channels: ChannelsService,
+    private readonly events: EventsService,
+    private readonly directMessages: DirectMessagesService,
+    private readonly reactions: ReactionsService,
+    private readonly readReceipts: ReadReceiptsService,
+    private readonly presence: PresenceService,
+    private readonly typing: TypingService,
+    private readonly auth: AuthService,
+    private readonly expiry: SessionExpiryService,
+    private readonly moderation: ModerationService,
+    private readonly reports: ReportsService,
+    private readonly permissions: PermissionsService,
+  ) {}
+
+  /**
+   * Subscribes to domain events once the Socket.IO server is ready.
+   */
+  afterInit(server: Server) {
+    // Reject handshakes without a valid access token
+    server.use(createWsAuthMiddleware(this.auth));
+
+    // Presence queries run against the (possibly clustered) server
+    this.presence.attach(server);
+
+    // Evict removed members from the channel room, regardless of
+    // whether the removal happened via REST or websocket
+    this.subscriptions.add(
+      this.events
+        .on('channel.member.removed')
+        .subscribe(({ channelKey, userId }) => {
+          this.evictUser(channelKey, userId).catch((e: Error) =>
+            this.logger.warn(
+              `Failed to evict ${userId} from ${channelKey}: ${e.message}`,
+            ),
+          );
+        }),
+    );
+
+    // Broadcast edited messages to the channel room
+    this.subscriptions.add(
+      this.events.on('message.updated').subscribe(({ channelKey, message }) => {
+        this.server.to(channelKey).emit('message.updated', message);
+      }),
+    );
+
+    // Broadcast deletions so clients can remove or tombstone messages
+    this.subscriptions.add(
+      this.events.on('message.deleted').subscribe((event) => {
+        this.server.to(event.channelKey).emit('message.deleted', {
+          id: event.messageId,
+          channelKey: event.channelKey,
+          deletedAt: event.deletedAt,
+          deletedById: event.deletedById,
+        });
+      }),
+    );
+
+    // Broadcast restored messages to the channel room
+    this.subscriptions.add(
+      this.events
+        .on('message.restored')
+        .subscribe(({ channelKey, message }) => {
+          this.server.to(channelKey).emit('message.restored', message);
+        }),
+    );
+
+    // Broadcast thread summaries when replies are posted
+    this.subscriptions.add(
+      this.events.on('thread.updated').subscribe((event) => {
+        this.server.to(event.channelKey).emit('thread.updated', event);
+      }),
+    );
+
+    // Broadcast channel flushes to the channel room
+    this.subscriptions.add(
+      this.events.on('channel.flushed').subscribe((event) => {
+        this.server.to(event.channelKey).emit('channel.flushed', event);
+      }),
+    );
+
+    // Broadcast reaction counts to the channel room
+    this.subscriptions.add(
+      this.events.on('reaction.updated').subscribe((event) => {
+        this.server.to(event.channelKey).emit('reaction.updated', event);
+      }),
+    );
+
+    // Broadcast read receipts so members can show "seen by"
+    this.subscriptions.add(
+      this.events.on('message.read').subscribe((event) => {
+        this.server.to(event.channelKey).emit('message.read', event);
+      }),
+    );
+
+    // Disconnect every socket of users whose sessions were revoked
+    this.subscriptions.add(
+      this.events.on('user.sessions.revoked').subscribe(({ userId }) => {
+        this.disconnectUser(userId);
+      }),
+    );
+
+    // Announce moderation actions to the channel; banned users are
+    // removed from the room right away
+    this.subscriptions.add(
+      this.events.on('channel.moderated').subscribe((event) => {
+        this.server.to(event.channelKey).emit('channel.system', event);
+        const { userId } = event;
+        if (event.action === 'user.banned' && userId) {
+          this.evictUser(event.channelKey, userId).catch((e: Error) =>
+            this.logger.warn(
+              `Failed to evict ${userId} from ${event.channelKey}: ${e.message}`,
+            ),
+          );
+        }
+      }),
+    );
+
+    // Tell automatically muted users how long they have to wait
+    this.subscriptions.add(
+      this.events
+        .on('user.rate_limit.muted')
+        .subscribe(({ userId, mutedUntil }) => {
+          this.server.to(userRoom(userId)).emit('rate_limit.muted', {
+            mutedUntil,
+          });
+        }),
+    );
+
+    // Notify the report queue about new and closed reports; both only
+    // reach moderators who can read the reported channel
+    this.subscriptions.add(
+      this.events.on('report.created').subscribe(({ report }) => {
+        this.deliverReport(report.channelKey, 'report.new', report).catch(
+          (e: Error) =>
+            this.logger.warn(
+              `Failed to deliver report ${report.id}: ${e.message}`,
+            ),
+        );
+      }),
+    );
+    this.subscriptions.add(
+      this.events.on('report.resolved').subscribe((event) => {
+        this.deliverReport(event.channelKey, 'report.resolved', event).catch(
+          (e: Error) =>
+            this.logger.warn(
+              `Failed to deliver resolution of message ${event.messageId} reports: ${e.message}`,
+            ),
+        );
+      }),
+    );
+
+    // Push notifications to the personal room of the notified user
+    this.subscriptions.add(
+      this.events
+        .on('notification.created')
+        .subscribe(({ userId, notification }) => {
+          this.deliverNotification(userId, notification).catch((e: Error) =>
+            this.logger.warn(
+              `Failed to deliver notification ${notification.id}: ${e.message}`,
+            ),
+          );
+        }),
+    );
+  }
+
+  /**
+   * Releases all domain event subscriptions.
    */
-  constructor(private readonly messages: MessagesService) {}
+  onModuleDestroy() {
+    this.subscriptions.unsubscribe();
+  }
 
   /**
    * Handles a new websocket client connection.
    *
-   * Authenticates the client using a JWT provided either via
-   * `handshake.auth.token` or the `Authorization` header.
+   * The handshake was already authenticated by the auth middleware, which
+   * rejects clients without a valid JWT (via `handshake.auth.token` or the
+   * `Authorization` header). Sockets join the personal room of their user
+   * (and the report queue room for holders of `report.manage`) and are
+   * disconnected once their token expires unless refreshed.
    *
    * @param client Connected socket instance
    */
-  handleConnection(client: Socket) {
-    // Read token from handshake auth or Authorization header
-    const token =
-      client.handshake.auth?.token ||
-      this.extractBearer(client.handshake.headers.authorization);
+  async handleConnection(client: Socket) {
+    const user = client.data.user as WsUser | undefined;
+    if (!user) return;
+
+    // Join the personal room used for direct delivery and track presence
+    const change = await this.presence.connect(client, user.id);
+
+    // Moderators receive new reports in realtime
+    await this.syncReportsRoom(client, user);
 
-    // Read JWT secret from environment
-    const secret = process.env.JWT_ACCESS_SECRET;
+    // Announce users coming back online
+    if (change.changed) await this.broadcastStatus(change, 'connect');
 
-    // Fail early if JWT secret is not configured
-    if (!secret) {
-      client.data.user = undefined;
-      client.emit('auth.error', { error: 'JWT_ACCESS_SECRET is not set' });
-      return;
+    // Notify client about successful authentication
+    client.emit('auth.ok', {
+      id: user.id,
+      role: user.role,
+      expiresAt: user.expiresAt ?? null,
+    });
+
+    // Warn before and disconnect after token expiry
+    this.trackExpiry(client, user);
+  }
+
+  /**
+   * Handles websocket client disconnection.
+   *
+   * Removes the socket from the presence registry, clears typing
+   * indicators and announces the presence change.
+   *
+   * @param client Disconnected socket instance
+   */
+  async handleDisconnect(client: Socket) {
+    this.expiry.clear(client.id);
+
+    const user = client.data.user as WsUser | undefined;
+    if (!user) return;
+
+    const result = await this.presence.disconnect(client, user.id);
+    if (!result) return;
+
+    // Announce channels the user is no longer present in
+    result.channelsLeft.forEach((key) => this.stopTyping(key, user.id));
+    this.emitPresence(result.channelsLeft, user.id, result.status, 'leave');
+
+    // Announce status changes (e.g. last socket gone) to remaining channels
+    if (result.changed) await this.broadcastStatus(result, 'disconnect');
+  }
+
+  /**
+   * Broadcasts the presence of a user to channel rooms.
+   *
+   * @param channelKeys Channel room names
+   * @param userId User whose presence changed
+   * @param status Aggregated status of the user
+   * @param reason Reason of the change
+   */
+  private emitPresence(
+    channelKeys: ChannelKey[],
+    userId: string,
+    status: PresenceStatus,
+    reason: PresenceReason,
+  ) {
+    for (const channelKey of channelKeys) {
+      this.server
+        .to(channelKey)
+        .emit('presence.changed', { channelKey, userId, status, reason });
     }
+  }
 
-    // Fail if no token was provided
-    if (!token) {
-      client.data.user = undefined;
-      client.emit('auth.error', { error: 'Missing token' });
-      return;
+  /**
+   * Broadcasts a user's aggregated status to every channel they are in.
+   *
+   * @param change Status change of the user
+   * @param reason Reason of the change
+   */
+  private async broadcastStatus(
+    change: PresenceChange,
+    reason: PresenceReason,
+  ) {
+    const channelKeys = await this.presence.channelsOf(change.userId);
+    this.emitPresence(channelKeys, change.userId, change.status, reason);
+  }
+
+  /**
+   * Removes a socket from a channel room and announces it.
+   *
+   * @param socket Local or remote socket leaving the room
+   * @param channelKey Channel room name
+   * @param userId Owner of the socket
+   */
+  private async trackLeave(
+    socket: RoomSocket,
+    channelKey: ChannelKey,
+    userId: string,
+  ) {
+    if (!(await this.presence.leaveChannel(socket, userId, channelKey))) return;
+
+    this.stopTyping(channelKey, userId);
+    const status = await this.presence.getStatus(userId);
+    this.emitPresence([channelKey], userId, status, 'leave');
+  }
+
+  /**
+   * Broadcasts a typing indicator to all other sockets in a channel room.
+   *
+   * @param channelKey Channel room name
+   * @param userId Typing user
+   * @param typing Whether the user started or stopped typing
+   */
+  private emitTyping(channelKey: ChannelKey, userId: string, typing: boolean) {
+    this.server
+      .to(channelKey)
+      .except(userRoom(userId))
+      .emit(typing ? 'typing.start' : 'typing.stop', { channelKey, userId });
+  }
+
+  /**
+   * Clears a typing indicator and announces it if it was active.
+   *
+   * @param channelKey Channel room name
+   * @param userId Typing user
+   */
+  private stopTyping(channelKey: ChannelKey, userId: string) {
+    if (this.typing.stop(channelKey, userId)) {
+      this.emitTyping(channelKey, userId, false);
     }
+  }
 
-    try {
-      // Verify JWT and extract payload
-      const payload = jwt.verify(token, secret) as any;
-
-      // Normalize role to allowed values
-      const role: Role =
-        payload.role === 'ADMIN' || payload.role === 'USER'
-          ? payload.role
-          : 'USER';
-
-      // Build websocket user object
-      const user: WsUser = {
-        id: payload.sub,
-        email: payload.email,
-        role,
-      };
+  /**
+   * Removes all sockets of a user from a channel room.
+   *
+   * @param channelKey Channel room name
+   * @param userId User whose sockets should leave the room
+   */
+  private async evictUser(channelKey: ChannelKey, userId: string) {
+    const sockets = await this.server.in(channelKey).fetchSockets();
 
-      // Ensure required user identifier is present
-      if (!user.id) {
-        client.data.user = undefined;
-        client.emit('auth.error', { error: 'Invalid token payload' });
-        return;
+    for (const socket of sockets) {
+      if ((socket.data.user as WsUser | undefined)?.id === userId) {
+        socket.emit('channel.removed', { channel: channelKey });
+        await this.trackLeave(socket, channelKey, userId);
       }
+    }
+  }
 
-      // Store authenticated user on socket context
-      client.data.user = user;
+  /**
+   * Sends a notification to the sockets of a user that can read its channel.
+   *
+   * Access is checked per socket, since roles are only known from the
+   * access tokens of connected users.
+   *
+   * @param userId Notified user
+   * @param notification Created notification
+   */
+  private async deliverNotification(
+    userId: string,
+    notification: NotificationSnapshot,
+  ) {
+    const sockets = await this.server.in(userRoom(userId)).fetchSockets();
 
-      // Notify client about successful authentication
-      client.emit('auth.ok', { id: user.id, role: user.role });
-    } catch (e: any) {
-      // Handle JWT verification errors
-      client.data.user = undefined;
-      client.emit('auth.error', {
-        error: `JWT verify failed: ${e?.message ?? 'unknown'}`,
-      });
+    for (const socket of sockets) {
+      const { user } = socket.data as { user?: WsUser };
+      if (
+        user &&
+        (await this.permissions.can(
+          user,
+          'message.read',
+          notification.channelKey,
+        ))
+      ) {
+        socket.emit('notification.new', notification);
+      }
     }
   }
 
   /**
-   * Handles websocket client disconnection.
+   * Sends a report queue event to the sockets of the report queue that can
+   * read the reported channel.
    *
-   * Currently no cleanup logic is required.
+   * @param channelKey Channel of the reported message
+   * @param event Emitted event name
+   * @param payload Report or resolution sent to the sockets
+   */
+  private async deliverReport(
+    channelKey: ChannelKey,
+    event: 'report.new' | 'report.resolved',
+    payload: ReportSnapshot | DomainEvents['report.resolved'],
+  ) {
+    const sockets = await this.server.in(REPORTS_ROOM).fetchSockets();
+
+    for (const socket of sockets) {
+      const { user } = socket.data as { user?: WsUser };
+      if (
+        user &&
+        (await this.permissions.can(user, 'message.read', channelKey))
+      ) {
+        socket.emit(event, payload);
+      }
+    }
+  }
+
+  /**
+   * Schedules the expiry warning and disconnect of a socket's token.
    *
-   * @param _client Disconnected socket instance
+   * @param client Socket instance
+   * @param user Authenticated user carrying the token expiry
    */
-  handleDisconnect(_client: Socket) {}
+  private trackExpiry(client: Socket, user: WsUser) {
+    this.expiry.track(client.id, user.expiresAt, {
+      onExpiring: (expiresAt) =>
+        client.emit('auth.expiring', {
+          expiresAt,
+          expiresIn: Math.max(0, Math.round((expiresAt - Date.now()) / 1000)),
+        }),
+      onExpired: () => {
+        client.emit('auth.expired', { reason: 'TOKEN_EXPIRED' });
+        client.disconnect(true);
+      },
+    });
+  }
 
   /**
-   * Extracts a Bearer token from an Authorization header value.
+   * Disconnects all sockets of a user, on every instance.
    *
-   * @param auth Raw authorization header value
-   * @returns JWT string if present, otherwise undefined
+   * @param userId User whose sockets are disconnected
    */
-  private extractBearer(auth?: unknown): string | undefined {
-    const v = typeof auth === 'string' ? auth : undefined;
-    if (!v) return undefined;
-    return v.startsWith('Bearer ') ? v.slice(7) : undefined;
+  private disconnectUser(userId: string) {
+    const sockets = this.server.in(userRoom(userId));
+    sockets.emit('auth.revoked', { reason: 'SESSION_REVOKED' });
+    sockets.disconnectSockets(true);
+  }
+
+  /**
+   * Removes a socket from channel rooms it may no longer read.
+   *
+   * Used after a token refresh changed the user's role; channel
+   * permission overrides are taken into account.
+   *
+   * @param client Socket instance
+   * @param user Refreshed user
+   */
+  private async revalidateRooms(client: Socket, user: WsUser) {
+    const channelKeys = [...client.rooms].filter(
+      (room) => room !== client.id && !room.includes(':'),
+    );
+
+    for (const channelKey of channelKeys) {
+      try {
+        await this.permissions.assert(user, 'message.read', channelKey);
+      } catch {
+        client.emit('channel.removed', { channel: channelKey });
+        await this.trackLeave(client, channelKey, user.id);
+      }
+    }
+  }
+
+  /**
+   * Adds a socket to the report queue room, or removes it, depending on
+   * whether its user holds `report.manage`.
+   *
+   * @param client Socket instance
+   * @param user Authenticated user
+   */
+  private async syncReportsRoom(client: Socket, user: WsUser) {
+    if (await this.permissions.can(user, 'report.manage')) {
+      await client.join(REPORTS_ROOM);
+    } else {
+      await client.leave(REPORTS_ROOM);
+    }
   }
 
   /**
@@ -160,19 +577,108 @@ export class RealtimeGateway {
     return user;
   }
 
+  /**
+   * Streams missed channel messages to a single socket.
+   *
+   * Messages are emitted as `message.new` in chronological order.
+   * Emits `replay.truncated` if the gap exceeded the replay limit.
+   *
+   * @param client Socket to replay to
+   * @param channelKey Channel identifier
+   * @param since Message id or timestamp of the last seen message
+   * @param delivered Ids of messages the socket already received live
+   * @returns Number of replayed messages, truncation flag and last message id
+   */
+  private async replay(
+    client: Socket,
+    channelKey: ChannelKey,
+    since: string | number,
+    delivered?: ReadonlySet<string>,
+  ) {
+    const batch = await this.messages.listMessagesSince({ channelKey, since });
+    const pending = batch.messages.filter(
+      (message) => !delivered?.has(message.id),
+    );
+
+    // Replay using the live payload shape
+    for (const message of pending) client.emit('message.new', message);
+
+    // Tell the client to fetch older history over REST
+    if (batch.truncated) {
+      client.emit('replay.truncated', {
+        channelKey,
+        since,
+        limit: batch.limit,
+        oldestReplayedId: batch.messages[0]?.id ?? null,
+      });
+    }
+
+    return {
+      replayed: pending.length,
+      truncated: batch.truncated,
+      lastId: batch.messages.at(-1)?.id,
+    };
+  }
+
+  /**
+   * Handles re-authentication of a live socket with a new token.
+   *
+   * The token must belong to the same user. The new role applies
+   * immediately (channels no longer accessible are left) and the expiry
+   * schedule restarts from the new token.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the new access token
+   */
+  @SubscribeMessage('auth.refresh')
+  async refresh(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { token: string },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Verify the new token; failures keep the current session untouched
+      const next = await this.auth.verify(body?.token);
+
+      // A socket cannot switch to another user
+      if (next.id !== user.id) return { ok: false, error: 'USER_MISMATCH' };
+
+      (client.data as { user?: WsUser }).user = next;
+      this.trackExpiry(client, next);
+
+      // Apply role changes to joined channels and the report queue
+      if (next.role !== user.role) {
+        await this.revalidateRooms(client, next);
+        await this.syncReportsRoom(client, next);
+      }
+
+      // Return success response with the new session details
+      return { ok: true, role: next.role, expiresAt: next.expiresAt ?? null };
+    } catch (e: any) {
+      // Handle invalid tokens
+      return { ok: false, error: e?.message ?? 'REFRESH_FAILED' };
+    }
+  }
+
   /**
    * Handles requests to join a channel.
    *
-   * Validates authentication and channel access permissions
-   * before joining the Socket.IO room.
+   * Requires `message.read` in the channel; banned users are rejected.
+   * With `since`, messages posted after that message id or timestamp are
+   * replayed before live traffic. Messages posted while the socket joins
+   * are delivered once, but may arrive after newer live messages.
    *
    * @param client Connected socket
-   * @param body Payload containing the channel key
+   * @param body Payload containing the channel key and an optional replay anchor
    */
   @SubscribeMessage('channel.join')
+  @RequirePermission('message.read', { channel: 'body.channel' })
   async join(
     @ConnectedSocket() client: Socket,
-    @MessageBody() body: { channel: ChannelKey },
+    @MessageBody() body: { channel: ChannelKey; since?: string | number },
   ) {
     try {
       // Ensure the user is authenticated
@@ -182,33 +688,198 @@ export class RealtimeGateway {
       // Extract requested channel
       const channelKey = body.channel;
 
-      // Validate access rights for the channel
-      this.messages.assertChannelAccess(channelKey, user.role);
+      // Banned users cannot rejoin
+      await this.moderation.assertNotBanned(channelKey, user.id);
+
+      // Replay missed messages before the socket receives live traffic
+      const since = body.since ?? undefined;
+      const replay =
+        since !== undefined
+          ? await this.replay(client, channelKey, since)
+          : undefined;
 
-      // Join the Socket.IO room
-      await client.join(channelKey);
+      // Remember messages delivered live until the catch-up is done
+      const delivered = new Set<string>();
+      const track = (event: string, payload?: { id?: string }) => {
+        if (event === 'message.new' && payload?.id) delivered.add(payload.id);
+      };
+      if (replay) client.onAnyOutgoing(track);
+
+      let entered: boolean;
+      try {
+        // Join the Socket.IO room
+        entered = await this.presence.joinChannel(client, user.id, channelKey);
+
+        // Catch up on messages posted while the replay was running
+        if (replay && since !== undefined) {
+          const catchUp = await this.replay(
+            client,
+            channelKey,
+            replay.lastId ?? since,
+            delivered,
+          );
+          replay.replayed += catchUp.replayed;
+        }
+      } finally {
+        client.offAnyOutgoing(track);
+      }
+
+      // Announce users entering the channel
+      if (entered) {
+        const status = await this.presence.getStatus(user.id);
+        this.emitPresence([channelKey], user.id, status, 'join');
+      }
 
       // Return success response
-      return { ok: true, joined: channelKey };
+      return {
+        ok: true,
+        joined: channelKey,
+        ...(replay
+          ? { replayed: replay.replayed, truncated: replay.truncated }
+          : {}),
+      };
     } catch (e: any) {
       // Handle access or join errors
       return { ok: false, error: e?.message ?? 'JOIN_FAILED' };
     }
   }
 
+  /**
+   * Lists the users currently present in a channel room.
+   *
+   * Requires `message.read` in the channel.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the channel key
+   */
+  @SubscribeMessage('channel.members')
+  @RequirePermission('message.read', { channel: 'body.channel' })
+  async members(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { channel: ChannelKey },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Return the present users with their status
+      return {
+        ok: true,
+        channel: body.channel,
+        members: await this.presence.listChannelMembers(body.channel),
+      };
+    } catch (e: any) {
+      // Handle access errors
+      return { ok: false, error: e?.message ?? 'MEMBERS_FAILED' };
+    }
+  }
+
+  /**
+   * Handles client-reported presence status changes (online / away).
+   *
+   * @param client Connected socket
+   * @param body Payload containing the new status of this socket
+   */
+  @SubscribeMessage('presence.set')
+  async setPresence(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { status: SocketStatus },
+  ) {
+    // Ensure the user is authenticated
+    const user = this.getUserOrFail(client);
+    if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+    // Accept only statuses a client can report
+    if (body?.status !== 'online' && body?.status !== 'away') {
+      return { ok: false, error: 'Invalid status' };
+    }
+
+    // Update the socket and announce changes of the aggregated status
+    const change = await this.presence.setStatus(client, user.id, body.status);
+    if (change.changed) await this.broadcastStatus(change, 'status');
+
+    return { ok: true, status: change.status };
+  }
+
+  /**
+   * Handles the start (or refresh) of a typing indicator.
+   *
+   * The indicator expires on the server unless refreshed in time.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the channel key
+   */
+  @SubscribeMessage('typing.start')
+  startTyping(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { channel: ChannelKey },
+  ) {
+    // Ensure the user is authenticated
+    const user = this.getUserOrFail(client);
+    if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+    // Only sockets that joined the channel may signal typing
+    const channelKey = body?.channel;
+    if (!channelKey || !client.rooms.has(channelKey)) {
+      return { ok: false, error: 'NOT_JOINED' };
+    }
+
+    // Broadcast only when the indicator was not active already
+    const started = this.typing.start(channelKey, user.id, () =>
+      this.emitTyping(channelKey, user.id, false),
+    );
+    if (started) this.emitTyping(channelKey, user.id, true);
+
+    return { ok: true };
+  }
+
+  /**
+   * Handles the end of a typing indicator.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the channel key
+   */
+  @SubscribeMessage('typing.stop')
+  endTyping(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { channel: ChannelKey },
+  ) {
+    // Ensure the user is authenticated
+    const user = this.getUserOrFail(client);
+    if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+    if (body?.channel) this.stopTyping(body.channel, user.id);
+
+    return { ok: true };
+  }
+
   /**
    * Handles sending a new message to a channel.
    *
-   * Performs authentication, authorization, input validation,
-   * message persistence, and realtime broadcasting.
+   * Requires `message.send` in the channel and is rate limited per user
+   * and per channel. Enforces mutes, bans and slow mode, runs the content
+   * through the message pipeline, persists and broadcasts the message.
+   * Pipeline rejections are acknowledged with their error code. An
+   * optional `parentId` posts the message as reply into a thread.
+   * `attachmentIds` attaches previously uploaded files (`POST /attachments`);
+   * the content may be empty if files are attached.
    *
    * @param client Connected socket
-   * @param body Payload containing channel key and message content
+   * @param body Payload containing channel key, message content, optional parent id and attachment ids
    */
   @SubscribeMessage('message.send')
+  @RequirePermission('message.send', { channel: 'body.channel' })
+  @RateLimit('message', 'body.channel')
   async send(
     @ConnectedSocket() client: Socket,
-    @MessageBody() body: { channel: ChannelKey; content: string },
+    @MessageBody()
+    body: {
+      channel: ChannelKey;
+      content: string;
+      parentId?: string;
+      attachmentIds?: string[];
+    },
   ) {
     try {
       // Ensure the user is authenticated
@@ -218,31 +889,398 @@ export class RealtimeGateway {
       // Extract channel identifier
       const channelKey = body.channel;
 
-      // Validate access rights for the channel
-      this.messages.assertChannelAccess(channelKey, user.role);
+      // Ensure the channel is not archived
+      await this.messages.assertChannelWritable(channelKey, user);
 
-      // Normalize and validate message content
-      const content = (body.content ?? '').trim();
-      if (!content || content.length > 500) {
-        return { ok: false, error: 'Invalid content' };
-      }
+      // Reject banned or muted users and posts within the slow mode interval
+      await this.moderation.assertCanPost(channelKey, user);
 
-      // Persist the message
+      // Filter and persist the message
       const saved = await this.messages.createMessage({
         channelKey,
         authorId: user.id,
         authorRole: user.role,
-        content,
+        content: body.content,
+        parentId: body.parentId,
+        attachmentIds: body.attachmentIds,
       });
 
+      // Sending a message ends the sender's typing indicator
+      this.stopTyping(channelKey, user.id);
+
       // Broadcast the new message to all channel members
       this.server.to(channelKey).emit('message.new', saved);
 
       // Return success response with message identifier
       return { ok: true, messageId: saved.id };
     } catch (e: any) {
+      // Report pipeline rejections with their error code
+      if (e instanceof MessageRejectedException) {
+        return { ok: false, error: e.code, message: e.message };
+      }
+
       // Handle persistence or broadcast errors
       return { ok: false, error: e?.message ?? 'SEND_FAILED' };
     }
   }
+
+  /**
+   * Handles editing an existing message.
+   *
+   * Only the author (within the edit window) or an admin may edit. The new
+   * content runs through the message pipeline; rejections are acknowledged
+   * with their error code. The `message.updated` broadcast is emitted via the domain event.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the message id and the new content
+   */
+  @SubscribeMessage('message.edit')
+  async edit(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { id: string; content: string },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Validate, store the revision and update the message
+      const updated = await this.messages.editMessage({
+        id: body.id,
+        user,
+        content: body.content,
+      });
+
+      // Return success response with message identifier
+      return { ok: true, messageId: updated.id };
+    } catch (e: any) {
+      // Report pipeline rejections with their error code
+      if (e instanceof MessageRejectedException) {
+        return { ok: false, error: e.code, message: e.message };
+      }
+
+      // Handle permission, validation or persistence errors
+      return { ok: false, error: e?.message ?? 'EDIT_FAILED' };
+    }
+  }
+
+  /**
+   * Handles deleting a message.
+   *
+   * Authors may delete their own messages, admins any message.
+   * The `message.deleted` broadcast is emitted via the domain event.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the message id and an optional reason
+   */
+  @SubscribeMessage('message.delete')
+  async remove(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { id: string; reason?: string },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Soft-delete the message
+      const result = await this.messages.deleteMessageById(
+        body.id,
+        user,
+        body.reason,
+      );
+
+      // Return success response with message identifier
+      return { ok: true, messageId: result.id };
+    } catch (e: any) {
+      // Handle permission or persistence errors
+      return { ok: false, error: e?.message ?? 'DELETE_FAILED' };
+    }
+  }
+
+  /**
+   * Handles reporting a message to the moderators.
+   *
+   * The `report.new` notification of the report queue is emitted via the
+   * domain event.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the message id and the reason
+   */
+  @SubscribeMessage('message.report')
+  async report(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { id: string; reason: string },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Store the report
+      const report = await this.reports.report(body.id, user, body.reason);
+
+      // Return success response with report identifier
+      return { ok: true, reportId: report.id };
+    } catch (e: any) {
+      // Handle access, validation or persistence errors
+      return { ok: false, error: e?.message ?? 'REPORT_FAILED' };
+    }
+  }
+
+  /**
+   * Handles marking a channel as read.
+   *
+   * Moves the user's read pointer to the given message (or the newest
+   * message of the channel). The `message.read` broadcast is emitted
+   * via the domain event.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the channel key and an optional message id
+   */
+  @SubscribeMessage('channel.read')
+  async read(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { channel: ChannelKey; messageId?: string },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Move the read pointer
+      const state = await this.readReceipts.markRead({
+        channelKey: body.channel,
+        user,
+        messageId: body.messageId,
+      });
+
+      // Return success response with the current pointer
+      return { ok: true, lastReadMessageId: state.lastReadMessageId };
+    } catch (e: any) {
+      // Handle access or persistence errors
+      return { ok: false, error: e?.message ?? 'READ_FAILED' };
+    }
+  }
+
+  /**
+   * Handles adding an emoji reaction to a message.
+   *
+   * Applies the same channel access checks as `message.send`.
+   * The `reaction.updated` broadcast is emitted via the domain event.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the message id and the emoji
+   */
+  @SubscribeMessage('reaction.add')
+  async addReaction(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { messageId: string; emoji: string },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Store the reaction
+      const result = await this.reactions.addReaction({
+        messageId: body.messageId,
+        user,
+        emoji: body.emoji,
+      });
+
+      // Return success response with the updated count
+      return { ok: true, emoji: result.emoji, count: result.count };
+    } catch (e: any) {
+      // Handle access, validation or persistence errors
+      return { ok: false, error: e?.message ?? 'REACTION_FAILED' };
+    }
+  }
+
+  /**
+   * Handles removing an emoji reaction from a message.
+   *
+   * The `reaction.updated` broadcast is emitted via the domain event.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the message id and the emoji
+   */
+  @SubscribeMessage('reaction.remove')
+  async removeReaction(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { messageId: string; emoji: string },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Remove the reaction
+      const result = await this.reactions.removeReaction({
+        messageId: body.messageId,
+        user,
+        emoji: body.emoji,
+      });
+
+      // Return success response with the updated count
+      return { ok: true, emoji: result.emoji, count: result.count };
+    } catch (e: any) {
+      // Handle access, validation or persistence errors
+      return { ok: false, error: e?.message ?? 'REACTION_FAILED' };
+    }
+  }
+
+  /**
+   * Handles requests to add a user to a channel.
+   *
+   * Restricted to administrators and the channel's owners and moderators.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the channel key, user id and optional role
+   */
+  @SubscribeMessage('channel.invite')
+  async invite(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    body: {
+      channel: ChannelKey;
+      userId: string;
+      role?: 'MODERATOR' | 'MEMBER';
+    },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Persist the membership
+      const member = await this.channels.inviteMember(body.channel, user, {
+        userId: body.userId,
+        role: body.role,
+      });
+
+      // Return success response with the created membership
+      return { ok: true, member };
+    } catch (e: any) {
+      // Handle permission or persistence errors
+      return { ok: false, error: e?.message ?? 'INVITE_FAILED' };
+    }
+  }
+
+  /**
+   * Handles requests to remove a user from a channel.
+   *
+   * The removed user's sockets leave the room via the
+   * `channel.member.removed` domain event.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the channel key and user id
+   */
+  @SubscribeMessage('channel.kick')
+  async kick(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { channel: ChannelKey; userId: string },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Remove the membership
+      await this.channels.kickMember(body.channel, user, body.userId);
+
+      // Return success response
+      return { ok: true, kicked: body.userId };
+    } catch (e: any) {
+      // Handle permission or persistence errors
+      return { ok: false, error: e?.message ?? 'KICK_FAILED' };
+    }
+  }
+
+  /**
+   * Handles requests to leave a channel.
+   *
+   * Removes the membership (if it takes effect) and leaves the Socket.IO
+   * room, which the socket leaves even if the membership stays.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the channel key
+   */
+  @SubscribeMessage('channel.leave')
+  async leave(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { channel: ChannelKey },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      try {
+        // Remove the membership
+        await this.channels.leaveChannel(body.channel, user);
+      } finally {
+        // Leave the Socket.IO room on this socket in any case
+        await this.trackLeave(client, body.channel, user.id);
+      }
+
+      // Return success response
+      return { ok: true, left: body.channel };
+    } catch (e: any) {
+      // Handle membership errors
+      return { ok: false, error: e?.message ?? 'LEAVE_FAILED' };
+    }
+  }
+
+  /**
+   * Handles sending a direct message to another user.
+   *
+   * The message is delivered to every socket of the recipient as well as
+   * to the sender's other sockets via their personal rooms. Shares the
+   * sender's message rate limit.
+   *
+   * @param client Connected socket
+   * @param body Payload containing the recipient id and message content
+   */
+  @SubscribeMessage('dm.send')
+  @RateLimit('message')
+  async sendDirect(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { to: string; content: string },
+  ) {
+    try {
+      // Ensure the user is authenticated
+      const user = this.getUserOrFail(client);
+      if (!user) return { ok: false, error: 'UNAUTHORIZED' };
+
+      // Require a recipient
+      if (typeof body.to !== 'string' || !body.to) {
+        return { ok: false, error: 'Invalid recipient' };
+      }
+
+      // Normalize and validate message content
+      const content = (body.content ?? '').trim();
+      if (!content || content.length > 500) {
+        return { ok: false, error: 'Invalid content' };
+      }
+
+      // Persist the message (creates the conversation on first message)
+      const saved = await this.directMessages.sendDirectMessage({
+        authorId: user.id,
+        recipientId: body.to,
+        content,
+      });
+
+      // Deliver to all sockets of both participants
+      this.server
+        .to([userRoom(body.to), userRoom(user.id)])
+        .emit('dm.new', saved);
+
+      // Return success response with message identifier
+      return { ok: true, messageId: saved.id };
+    } catch (e: any) {
+      // Handle validation or persistence errors
+      return { ok: false, error: e?.message ?? 'SEND_FAILED' };
+    }
+  }
 }
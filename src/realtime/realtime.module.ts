@@ -1,9 +1,35 @@
 import { Module } from '@nestjs/common';
 import { RealtimeGateway } from './realtime.gateway';
+import { PresenceService } from './presence.service';
+import { TypingService } from './typing.service';
+import { SessionExpiryService } from './session-expiry.service';
+import { AuthModule } from '../auth/auth.module';
+import { PermissionsModule } from '../permissions/permissions.module';
 import { MessagesModule } from '../messages/messages.module';
+import { ChannelsModule } from '../channels/channels.module';
+import { DirectMessagesModule } from '../direct-messages/direct-messages.module';
+import { ReactionsModule } from '../reactions/reactions.module';
+import { ReadReceiptsModule } from '../read-receipts/read-receipts.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { ReportsModule } from '../reports/reports.module';
 
 @Module({
-  imports: [MessagesModule],
-  providers: [RealtimeGateway],
+  imports: [
+    AuthModule,
+    PermissionsModule,
+    MessagesModule,
+    ChannelsModule,
+    DirectMessagesModule,
+    ReactionsModule,
+    ReadReceiptsModule,
+    ModerationModule,
+    ReportsModule,
+  ],
+  providers: [
+    RealtimeGateway,
+    PresenceService,
+    TypingService,
+    SessionExpiryService,
+  ],
 })
 export class RealtimeModule {}
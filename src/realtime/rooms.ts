@@ -0,0 +1,27 @@
+/**
+ * Naming helpers for Socket.IO rooms.
+ *
+ * Channel rooms use the channel slug as room name. Slugs cannot contain
+ * `:`, so prefixed room names never collide with channel rooms.
+ */
+
+/**
+ * Returns the personal room of a user.
+ *
+ * Every socket of an authenticated user joins this room on connect,
+ * so events addressed to the user reach all of their devices.
+ *
+ * @param userId User identifier (JWT `sub`)
+ * @returns Room name
+ */
+export function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Room of the users working the report queue.
+ *
+ * Sockets of users holding `report.manage` join this room on connect and
+ * receive `report.new` / `report.resolved`.
+ */
+export const REPORTS_ROOM = 'admin:reports';
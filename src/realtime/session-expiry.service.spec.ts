@@ -0,0 +1,68 @@
+import { SessionExpiryService } from './session-expiry.service';
+
+describe('SessionExpiryService', () => {
+  let expiry: SessionExpiryService;
+  let handlers: { onExpiring: jest.Mock; onExpired: jest.Mock };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    expiry = new SessionExpiryService();
+    handlers = { onExpiring: jest.fn(), onExpired: jest.fn() };
+  });
+
+  afterEach(() => {
+    expiry.onModuleDestroy();
+    jest.useRealTimers();
+    delete process.env.AUTH_EXPIRY_WARNING_SECONDS;
+  });
+
+  it('warns ahead of expiry, then expires', () => {
+    const expiresAt = Date.now() + 5 * 60_000;
+    expiry.track('s1', expiresAt, handlers);
+
+    jest.advanceTimersByTime(4 * 60_000);
+    expect(handlers.onExpiring).toHaveBeenCalledWith(expiresAt);
+    expect(handlers.onExpired).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(60_000);
+    expect(handlers.onExpired).toHaveBeenCalledTimes(1);
+    expect(expiry.clear('s1')).toBe(false);
+  });
+
+  it('replaces the schedule when tracked again', () => {
+    process.env.AUTH_EXPIRY_WARNING_SECONDS = '10';
+    expiry.track('s1', Date.now() + 20_000, handlers);
+
+    const refreshed = { onExpiring: jest.fn(), onExpired: jest.fn() };
+    expiry.track('s1', Date.now() + 3_600_000, refreshed);
+    jest.advanceTimersByTime(60_000);
+
+    expect(handlers.onExpiring).not.toHaveBeenCalled();
+    expect(handlers.onExpired).not.toHaveBeenCalled();
+    expect(refreshed.onExpired).not.toHaveBeenCalled();
+  });
+
+  it('warns immediately inside the warning window', () => {
+    expiry.track('s1', Date.now() + 10_000, handlers);
+    jest.advanceTimersByTime(0);
+
+    expect(handlers.onExpiring).toHaveBeenCalledTimes(1);
+  });
+
+  it('expires lapsed tokens right away', () => {
+    expiry.track('s1', Date.now() - 1, handlers);
+
+    expect(handlers.onExpired).toHaveBeenCalledTimes(1);
+    expect(handlers.onExpiring).not.toHaveBeenCalled();
+  });
+
+  it('ignores tokens without expiry and cleared sockets', () => {
+    expiry.track('s1', undefined, handlers);
+    expiry.track('s2', Date.now() + 120_000, handlers);
+    expect(expiry.clear('s2')).toBe(true);
+
+    jest.runAllTimers();
+    expect(handlers.onExpiring).not.toHaveBeenCalled();
+    expect(handlers.onExpired).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+
+//Default time (in seconds) before token expiry at which sockets are warned.
+const DEFAULT_AUTH_EXPIRY_WARNING_SECONDS = 60;
+
+//Longest delay supported by `setTimeout`.
+const MAX_TIMER_MS = 2_147_483_647;
+
+//Callbacks invoked while a socket's token runs out.
+export type ExpiryHandlers = {
+  /** Token expires soon; called once per tracked token */
+  onExpiring: (expiresAt: number) => void;
+
+  /** Token has expired */
+  onExpired: () => void;
+};
+
+/**
+ * Tracks the access token expiry of connected sockets.
+ *
+ * Each socket first gets a warning `AUTH_EXPIRY_WARNING_SECONDS` before its
+ * token expires, then an expiry callback. Tracking a socket again (e.g.
+ * after a token refresh) replaces its previous schedule.
+ */
+@Injectable()
+export class SessionExpiryService implements OnModuleDestroy {
+  /**
+   * Pending timers, keyed by socket id.
+   */
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Reads the warning lead time from the environment.
+   *
+   * @returns Lead time in milliseconds
+   */
+  private getWarningMs(): number {
+    const raw = Number(process.env.AUTH_EXPIRY_WARNING_SECONDS);
+    const seconds =
+      Number.isFinite(raw) && raw >= 0
+        ? raw
+        : DEFAULT_AUTH_EXPIRY_WARNING_SECONDS;
+    return seconds * 1000;
+  }
+
+  /**
+   * Starts (or restarts) tracking the token of a socket.
+   *
+   * Tokens already inside the warning window are reported as expiring
+   * right away; lapsed tokens expire right away.
+   *
+   * @param socketId Socket identifier
+   * @param expiresAt Token expiry (ms since epoch); untracked if undefined
+   * @param handlers Expiry callbacks
+   */
+  track(
+    socketId: string,
+    expiresAt: number | undefined,
+    handlers: ExpiryHandlers,
+  ) {
+    this.clear(socketId);
+    if (expiresAt === undefined) return;
+
+    if (Date.now() >= expiresAt) return handlers.onExpired();
+
+    // Warn first, then expire
+    this.schedule(socketId, expiresAt - this.getWarningMs(), () => {
+      handlers.onExpiring(expiresAt);
+      this.schedule(socketId, expiresAt, handlers.onExpired);
+    });
+  }
+
+  /**
+   * Stops tracking a socket.
+   *
+   * @param socketId Socket identifier
+   * @returns Whether the socket was tracked
+   */
+  clear(socketId: string): boolean {
+    const timer = this.timers.get(socketId);
+    if (!timer) return false;
+
+    clearTimeout(timer);
+    this.timers.delete(socketId);
+    return true;
+  }
+
+  /**
+   * Runs a callback at a point in time.
+   *
+   * Delays beyond the `setTimeout` limit are split into several timers.
+   *
+   * @param socketId Socket identifier
+   * @param at Due time (ms since epoch)
+   * @param fn Callback
+   */
+  private schedule(socketId: string, at: number, fn: () => void) {
+    const delay = Math.min(Math.max(at - Date.now(), 0), MAX_TIMER_MS);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(socketId);
+      if (Date.now() < at) return this.schedule(socketId, at, fn);
+      fn();
+    }, delay);
+    timer.unref();
+    this.timers.set(socketId, timer);
+  }
+
+  /**
+   * Clears all pending timers on shutdown.
+   */
+  onModuleDestroy() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
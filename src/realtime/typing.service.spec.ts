@@ -0,0 +1,41 @@
+import { TypingService } from './typing.service';
+
+describe('TypingService', () => {
+  let typing: TypingService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    typing = new TypingService();
+  });
+
+  afterEach(() => {
+    typing.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('expires indicators that are not refreshed', () => {
+    const expired = jest.fn();
+
+    expect(typing.start('general', 'u1', expired)).toBe(true);
+    jest.advanceTimersByTime(4000);
+
+    // Refreshing restarts the timeout without a new broadcast
+    expect(typing.start('general', 'u1', expired)).toBe(false);
+    jest.advanceTimersByTime(4000);
+    expect(expired).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(typing.stop('general', 'u1')).toBe(false);
+  });
+
+  it('clears indicators that are stopped explicitly', () => {
+    const expired = jest.fn();
+
+    typing.start('general', 'u1', expired);
+    expect(typing.stop('general', 'u1')).toBe(true);
+    jest.runAllTimers();
+
+    expect(expired).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+
+//Default time (in milliseconds) after which a typing indicator expires.
+const DEFAULT_TYPING_TIMEOUT_MS = 5000;
+
+/**
+ * Tracks ephemeral typing indicators with server-side expiry.
+ *
+ * Clients are expected to repeat `typing.start` while typing; indicators
+ * that are not refreshed expire after `TYPING_TIMEOUT_MS` so stale
+ * indicators clear themselves when a client goes away silently.
+ */
+@Injectable()
+export class TypingService implements OnModuleDestroy {
+  /**
+   * Expiry timers of active indicators, keyed by channel and user.
+   */
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Reads the indicator timeout from the environment.
+   *
+   * @returns Timeout in milliseconds
+   */
+  private getTimeoutMs(): number {
+    const raw = Number(process.env.TYPING_TIMEOUT_MS);
+    return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_TYPING_TIMEOUT_MS;
+  }
+
+  /**
+   * Builds the timer key of an indicator.
+   *
+   * @param channelKey Channel room name
+   * @param userId Typing user
+   * @returns Timer key
+   */
+  private key(channelKey: string, userId: string): string {
+    return `${channelKey}\n${userId}`;
+  }
+
+  /**
+   * Starts or refreshes a typing indicator.
+   *
+   * @param channelKey Channel room name
+   * @param userId Typing user
+   * @param onExpire Called when the indicator expires without refresh
+   * @returns Whether the indicator was not active before
+   */
+  start(channelKey: string, userId: string, onExpire: () => void): boolean {
+    const key = this.key(channelKey, userId);
+    const existing = this.timers.get(key);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(key);
+      onExpire();
+    }, this.getTimeoutMs());
+    timer.unref();
+    this.timers.set(key, timer);
+
+    return !existing;
+  }
+
+  /**
+   * Stops a typing indicator.
+   *
+   * @param channelKey Channel room name
+   * @param userId Typing user
+   * @returns Whether the indicator was active
+   */
+  stop(channelKey: string, userId: string): boolean {
+    const key = this.key(channelKey, userId);
+    const timer = this.timers.get(key);
+    if (!timer) return false;
+
+    clearTimeout(timer);
+    this.timers.delete(key);
+    return true;
+  }
+
+  /**
+   * Clears all pending timers on shutdown.
+   */
+  onModuleDestroy() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
@@ -0,0 +1,46 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Socket } from 'socket.io';
+import { RateLimitedException } from '../rate-limit/rate-limited.exception';
+
+/**
+ * Reports errors raised outside of websocket handlers (e.g. by guards)
+ * through the acknowledgement of the event.
+ *
+ * Handlers answer with `{ ok, ... }`; this filter keeps that contract for
+ * rejected events, so clients awaiting an ack are never left hanging.
+ * Rate limited events additionally carry `retryAfterMs` (and `mutedUntil`
+ * for muted users). Events sent without ack receive an `exception` event
+ * instead.
+ */
+@Catch()
+export class WsAckExceptionFilter implements ExceptionFilter {
+  /**
+   * Acknowledges a failed event with its error message.
+   *
+   * @param exception Raised error
+   * @param host Arguments of the websocket event (client, data, ack)
+   */
+  catch(exception: unknown, host: ArgumentsHost) {
+    const error = exception instanceof Error ? exception.message : 'FAILED';
+    const ack: unknown = host.getArgByIndex(2);
+    const details =
+      exception instanceof RateLimitedException
+        ? {
+            retryAfterMs: exception.retryAfterMs,
+            ...(exception.mutedUntil
+              ? { mutedUntil: exception.mutedUntil }
+              : {}),
+          }
+        : {};
+
+    if (typeof ack === 'function') {
+      (ack as (response: unknown) => void)({ ok: false, error, ...details });
+      return;
+    }
+
+    host
+      .switchToWs()
+      .getClient<Socket>()
+      .emit('exception', { status: 'error', message: error, ...details });
+  }
+}
@@ -0,0 +1,16 @@
+import { IsString, Length } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for reporting a message.
+ *
+ * This DTO validates the request body of the
+ * `POST /messages/:id/report` endpoint.
+ */
+export class CreateReportDto {
+  /**
+   * Why the message is reported.
+   */
+  @IsString()
+  @Length(1, 500)
+  reason!: string;
+}
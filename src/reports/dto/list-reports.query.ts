@@ -0,0 +1,43 @@
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for listing reports.
+ *
+ * This DTO validates and describes the supported query parameters
+ * for the `GET /admin/reports` endpoint.
+ */
+export class ListReportsQueryDto {
+  /**
+   * Optional channel filter.
+   */
+  @IsOptional()
+  @IsString()
+  channel?: string;
+
+  /**
+   * Optional status filter (defaults to OPEN).
+   */
+  @IsOptional()
+  @IsIn(['OPEN', 'DISMISSED', 'RESOLVED'])
+  status?: 'OPEN' | 'DISMISSED' | 'RESOLVED';
+
+  /**
+   * Optional pagination cursor.
+   *
+   * Represents the ID of the last report from the previous page.
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  /**
+   * Optional number of reports to return.
+   *
+   * Must be between 1 and 100 if provided.
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  take?: number;
+}
@@ -0,0 +1,39 @@
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Min,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for closing a report.
+ *
+ * This DTO validates the request body of the
+ * `POST /admin/reports/:id/resolve` endpoint.
+ */
+export class ResolveReportDto {
+  /**
+   * Action taken on the reported message.
+   */
+  @IsIn(['dismiss', 'delete_message', 'mute_author'])
+  action!: 'dismiss' | 'delete_message' | 'mute_author';
+
+  /**
+   * Optional note stored with the report (and used as deletion or mute
+   * reason).
+   */
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  note?: string;
+
+  /**
+   * Duration of the mute in seconds (`mute_author` only).
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  durationSeconds?: number;
+}
@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReportsController } from './reports.controller';
+import { ReportsService } from './reports.service';
+import { AuthService } from '../auth/auth.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+describe('ReportsController', () => {
+  let controller: ReportsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ReportsController],
+      providers: [
+        { provide: ReportsService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: PermissionsService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<ReportsController>(ReportsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { CreateReportDto } from './dto/create-report.dto';
+import { ListReportsQueryDto } from './dto/list-reports.query';
+import { ResolveReportDto } from './dto/resolve-report.dto';
+import type { RequestUser } from '../auth/request-user';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { PermissionsGuard } from '../permissions/permissions.guard';
+import { RequirePermission } from '../permissions/require-permission.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import { parseTake } from '../common/query-params';
+
+/**
+ * HTTP controller for user reports and the moderation queue.
+ *
+ * Every user can report messages they can read; listing and closing
+ * reports requires `report.manage`. Messages can also be reported over the
+ * websocket gateway (`message.report`).
+ */
+@Controller()
+@UseGuards(JwtAuthGuard, PermissionsGuard, RateLimitGuard)
+export class ReportsController {
+  /**
+   * Creates a new ReportsController.
+   *
+   * @param reports Reports service providing business logic and persistence
+   */
+  constructor(private readonly reports: ReportsService) {}
+
+  /**
+   * Reports a message.
+   *
+   * @param id Message identifier
+   * @param dto Report payload
+   * @param user Authenticated user
+   * @returns The created report
+   */
+  @Post('messages/:id/report')
+  async report(
+    @Param('id') id: string,
+    @Body() dto: CreateReportDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.reports.report(id, user, dto?.reason);
+  }
+
+  /**
+   * Lists reports, oldest first.
+   *
+   * Requires `report.manage`; only reports of channels the user can read
+   * are listed.
+   *
+   * @param q Query parameters (status, channel, pagination)
+   * @param user Authenticated user
+   * @returns A list of reports
+   */
+  @Get('admin/reports')
+  @RequirePermission('report.manage')
+  async list(
+    @Query() q: ListReportsQueryDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    // Apply default page size if none provided, reject invalid sizes
+    const take = parseTake(q.take, { defaultSize: 50, maxSize: 100 });
+
+    return this.reports.listReports({
+      user,
+      status: q.status,
+      channelKey: q.channel,
+      take,
+      cursor: q.cursor,
+    });
+  }
+
+  /**
+   * Closes a report (and all open reports of the same message).
+   *
+   * Requires `report.manage`.
+   *
+   * @param id Report identifier
+   * @param dto Action, optional note and mute duration
+   * @param user Authenticated user
+   * @returns The closed report
+   */
+  @Post('admin/reports/:id/resolve')
+  @RequirePermission('report.manage')
+  async resolve(
+    @Param('id') id: string,
+    @Body() dto: ResolveReportDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.reports.resolve(id, user, dto);
+  }
+}
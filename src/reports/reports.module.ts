@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { ReportsController } from './reports.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { MessagesModule } from '../messages/messages.module';
+import { ModerationModule } from '../moderation/moderation.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    AuthModule,
+    PermissionsModule,
+    MessagesModule,
+    ModerationModule,
+  ],
+  controllers: [ReportsController],
+  providers: [ReportsService],
+  exports: [ReportsService],
+})
+export class ReportsModule {}
@@ -0,0 +1,245 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+import { MessagesService } from '../messages/messages.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('ReportsService', () => {
+  let prisma: {
+    message: { findUnique: jest.Mock };
+    report: {
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      create: jest.Mock;
+      updateMany: jest.Mock;
+    };
+  };
+  let messages: { deleteMessageById: jest.Mock };
+  let moderation: { mute: jest.Mock };
+  let permissions: { assert: jest.Mock; can: jest.Mock };
+  let events: EventsService;
+  let audit: { record: jest.Mock };
+  let service: ReportsService;
+
+  const user = { id: 'u1', role: 'USER' as const };
+  const moderator = { id: 'mod', role: 'MODERATOR' as const };
+  const openReport = {
+    id: 'r1',
+    messageId: 'm1',
+    channelKey: 'general',
+    reporterId: 'u1',
+    reason: 'spam',
+    status: 'OPEN',
+    message: { authorId: 'u2', deletedAt: null },
+  };
+
+  beforeEach(() => {
+    prisma = {
+      message: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'm1',
+          channelKey: 'general',
+          authorId: 'u2',
+          deletedAt: null,
+        }),
+      },
+      report: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([{ id: 'r1' }, { id: 'r2' }]),
+        create: jest.fn((args: { data: object }) => ({
+          id: 'r1',
+          ...args.data,
+        })),
+        updateMany: jest.fn().mockResolvedValue({ count: 2 }),
+      },
+    };
+    messages = { deleteMessageById: jest.fn() };
+    moderation = { mute: jest.fn() };
+    permissions = {
+      assert: jest.fn(),
+      can: jest.fn((_user: unknown, _permission: string, slug: string) =>
+        Promise.resolve(slug === 'general'),
+      ),
+    };
+    events = new EventsService();
+    audit = { record: jest.fn() };
+
+    service = new ReportsService(
+      prisma as unknown as PrismaService,
+      messages as unknown as MessagesService,
+      moderation as unknown as ModerationService,
+      permissions as unknown as PermissionsService,
+      events,
+      audit as unknown as AuditService,
+    );
+  });
+
+  it('stores reports and notifies the queue', async () => {
+    const created = jest.fn();
+    events.on('report.created').subscribe(created);
+
+    const report = await service.report('m1', user, '  spam ');
+
+    expect(permissions.assert).toHaveBeenCalledWith(
+      user,
+      'message.read',
+      'general',
+    );
+    expect(report).toMatchObject({ channelKey: 'general', reason: 'spam' });
+    expect(created).toHaveBeenCalledWith({ report });
+  });
+
+  it('rejects reports of own messages, duplicates and empty reasons', async () => {
+    await expect(service.report('m1', user, ' ')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await expect(
+      service.report('m1', { id: 'u2', role: 'USER' }, 'spam'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    prisma.report.findUnique.mockResolvedValue({ id: 'r0' });
+    await expect(service.report('m1', user, 'spam')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+  });
+
+  it('rejects reports of messages the user cannot read', async () => {
+    permissions.assert.mockRejectedValue(new ForbiddenException());
+
+    await expect(service.report('m1', user, 'spam')).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    expect(prisma.report.create).not.toHaveBeenCalled();
+  });
+
+  it('lists open reports by default', async () => {
+    await service.listReports({
+      user: moderator,
+      channelKey: 'general',
+      take: 20,
+    });
+
+    expect(permissions.assert).toHaveBeenCalledWith(
+      moderator,
+      'message.read',
+      'general',
+    );
+    expect(prisma.report.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: 'OPEN', channelKey: { in: ['general'] } },
+        take: 20,
+      }),
+    );
+  });
+
+  it('lists only reports of channels the moderator can read', async () => {
+    prisma.report.findMany.mockResolvedValueOnce([
+      { channelKey: 'general' },
+      { channelKey: 'secret' },
+    ]);
+
+    await service.listReports({ user: moderator, take: 20 });
+
+    expect(prisma.report.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { status: 'OPEN', channelKey: { in: ['general'] } },
+      }),
+    );
+  });
+
+  it('rejects unknown statuses', async () => {
+    await expect(
+      service.listReports({ user: moderator, status: 'foo', take: 20 }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.report.findMany).not.toHaveBeenCalled();
+  });
+
+  it('deletes the message and closes all its open reports', async () => {
+    const resolved = jest.fn();
+    events.on('report.resolved').subscribe(resolved);
+    prisma.report.findUnique.mockResolvedValue(openReport);
+
+    const result = await service.resolve('r1', moderator, {
+      action: 'delete_message',
+    });
+
+    expect(messages.deleteMessageById).toHaveBeenCalledWith(
+      'm1',
+      moderator,
+      'Reported: spam',
+    );
+    expect(result).toMatchObject({
+      status: 'RESOLVED',
+      action: 'DELETE_MESSAGE',
+      closed: 2,
+    });
+    expect(resolved).toHaveBeenCalledWith(
+      expect.objectContaining({ messageId: 'm1', reportIds: ['r1', 'r2'] }),
+    );
+    expect(audit.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'report.resolve',
+        target: { type: 'report', id: 'r1', channelKey: 'general' },
+      }),
+    );
+  });
+
+  it('mutes the author when resolving with mute_author', async () => {
+    prisma.report.findUnique.mockResolvedValue(openReport);
+
+    await service.resolve('r1', moderator, {
+      action: 'mute_author',
+      durationSeconds: 600,
+      note: 'insults',
+    });
+
+    expect(permissions.assert).toHaveBeenCalledWith(
+      moderator,
+      'user.mute',
+      'general',
+    );
+    expect(moderation.mute).toHaveBeenCalledWith('general', moderator, {
+      userId: 'u2',
+      durationSeconds: 600,
+      reason: 'insults',
+    });
+  });
+
+  it('rejects closed reports', async () => {
+    prisma.report.findUnique.mockResolvedValue({
+      ...openReport,
+      status: 'DISMISSED',
+    });
+
+    await expect(
+      service.resolve('r1', moderator, { action: 'dismiss' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(prisma.report.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects resolving reports of channels the moderator cannot read', async () => {
+    prisma.report.findUnique.mockResolvedValue({
+      ...openReport,
+      channelKey: 'staff',
+    });
+    permissions.assert.mockRejectedValue(new ForbiddenException());
+
+    await expect(
+      service.resolve('r1', moderator, { action: 'delete_message' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(permissions.assert).toHaveBeenCalledWith(
+      moderator,
+      'message.read',
+      'staff',
+    );
+    expect(messages.deleteMessageById).not.toHaveBeenCalled();
+    expect(prisma.report.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,346 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+import { MessagesService } from '../messages/messages.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { AuditService } from '../audit/audit.service';
+
+//Allowed user roles within the reports domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//User descriptor used for report decisions.
+type ReportUser = { id: string; role: Role };
+
+//Processing state of a report.
+export type ReportStatus = 'OPEN' | 'DISMISSED' | 'RESOLVED';
+
+//Report states that can be filtered by.
+const REPORT_STATUSES: readonly ReportStatus[] = [
+  'OPEN',
+  'DISMISSED',
+  'RESOLVED',
+];
+
+//Action a moderator can close a report with.
+export type ReportResolution = 'dismiss' | 'delete_message' | 'mute_author';
+
+//Stored action per resolution.
+const RESOLUTION_ACTIONS = {
+  dismiss: 'DISMISS',
+  delete_message: 'DELETE_MESSAGE',
+  mute_author: 'MUTE_AUTHOR',
+} as const;
+
+//Maximum length of a report reason.
+const MAX_REASON_LENGTH = 500;
+
+//Mute duration used when resolving with `mute_author` (1 hour).
+const DEFAULT_MUTE_SECONDS = 60 * 60;
+
+//Fields returned for every report read through this service.
+const REPORT_SELECT = {
+  id: true,
+  messageId: true,
+  channelKey: true,
+  reporterId: true,
+  reason: true,
+  status: true,
+  createdAt: true,
+  action: true,
+  resolutionNote: true,
+  resolvedAt: true,
+  resolvedById: true,
+} as const;
+
+//Fields of the reported message included in the moderation queue.
+const REPORTED_MESSAGE_SELECT = {
+  id: true,
+  authorId: true,
+  content: true,
+  createdAt: true,
+  deletedAt: true,
+} as const;
+
+/**
+ * Service responsible for user reports and the moderation queue.
+ *
+ * Users report messages of channels they can read; holders of
+ * `report.manage` page through the reports and close them by dismissing
+ * them, deleting the message or muting its author. New and closed reports
+ * are announced as `report.created` / `report.resolved` domain events.
+ */
+@Injectable()
+export class ReportsService {
+  /**
+   * Creates a new ReportsService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param messages Messages service used to delete reported messages
+   * @param moderation Moderation service used to mute authors
+   * @param permissions Service resolving effective permissions
+   * @param events Event bus used to announce reports
+   * @param audit Audit log recording report decisions
+   */
+  constructor(
+    private prisma: PrismaService,
+    private messages: MessagesService,
+    private moderation: ModerationService,
+    private permissions: PermissionsService,
+    private events: EventsService,
+    private audit: AuditService,
+  ) {}
+
+  /**
+   * Reports a message.
+   *
+   * The reporter must be able to read the message's channel. Users cannot
+   * report their own messages, and every user reports a message at most
+   * once. Emits a `report.created` domain event.
+   *
+   * @param messageId Reported message
+   * @param reporter User filing the report
+   * @param reason Why the message is reported
+   * @returns The created report
+   */
+  async report(messageId: string, reporter: ReportUser, reason: string) {
+    // Normalize and validate the reason
+    const text = typeof reason === 'string' ? reason.trim() : '';
+    if (!text || text.length > MAX_REASON_LENGTH) {
+      throw new BadRequestException('Invalid reason');
+    }
+
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: { id: true, channelKey: true, authorId: true, deletedAt: true },
+    });
+    if (!message || message.deletedAt) {
+      throw new NotFoundException('Message not found');
+    }
+
+    // Only messages the reporter can see may be reported
+    await this.permissions.assert(reporter, 'message.read', message.channelKey);
+
+    if (message.authorId === reporter.id) {
+      throw new BadRequestException('Cannot report your own message');
+    }
+
+    const existing = await this.prisma.report.findUnique({
+      where: { messageId_reporterId: { messageId, reporterId: reporter.id } },
+      select: { id: true },
+    });
+    if (existing) throw new ConflictException('Message already reported');
+
+    const report = await this.prisma.report.create({
+      data: {
+        messageId,
+        channelKey: message.channelKey,
+        reporterId: reporter.id,
+        reason: text,
+      },
+      select: REPORT_SELECT,
+    });
+
+    // Notify the moderation queue
+    this.events.publish('report.created', { report });
+
+    return report;
+  }
+
+  /**
+   * Lists reports with pagination support.
+   *
+   * Reports are returned oldest first, so the queue is worked in the order
+   * reports came in. Each report carries the reported message. Unknown
+   * statuses throw a BadRequestException.
+   *
+   * Only reports of channels the user holds `message.read` in are listed;
+   * requesting another channel throws a ForbiddenException.
+   *
+   * @param params Requesting user, filters (status defaults to OPEN) and
+   * pagination info
+   * @returns List of reports
+   */
+  async listReports(params: {
+    user: ReportUser;
+    status?: string;
+    channelKey?: string;
+    take: number;
+    cursor?: string;
+  }) {
+    const { channelKey, take, cursor } = params;
+
+    const status = params.status ?? 'OPEN';
+    if (!REPORT_STATUSES.includes(status as ReportStatus)) {
+      throw new BadRequestException('Invalid status');
+    }
+
+    const channelKeys = await this.readableChannels(
+      params.user,
+      status as ReportStatus,
+      channelKey,
+    );
+
+    return this.prisma.report.findMany({
+      where: {
+        status: status as ReportStatus,
+        channelKey: { in: channelKeys },
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: {
+        ...REPORT_SELECT,
+        message: { select: REPORTED_MESSAGE_SELECT },
+      },
+    });
+  }
+
+  /**
+   * Resolves the channels whose reports a user may list.
+   *
+   * @param user Requesting user
+   * @param status Listed report status
+   * @param channelKey Optional channel to restrict the listing to
+   * @returns Keys of the listed channels
+   */
+  private async readableChannels(
+    user: ReportUser,
+    status: ReportStatus,
+    channelKey?: string,
+  ): Promise<string[]> {
+    if (channelKey) {
+      await this.permissions.assert(user, 'message.read', channelKey);
+      return [channelKey];
+    }
+
+    // Only channels with reports in the listed state matter
+    const channels = await this.prisma.report.findMany({
+      where: { status },
+      distinct: ['channelKey'],
+      select: { channelKey: true },
+    });
+    const readable = await Promise.all(
+      channels.map((channel) =>
+        this.permissions.can(user, 'message.read', channel.channelKey),
+      ),
+    );
+
+    return channels
+      .filter((_, index) => readable[index])
+      .map((channel) => channel.channelKey);
+  }
+
+  /**
+   * Closes a report with an action.
+   *
+   * `dismiss` takes no action, `delete_message` soft-deletes the reported
+   * message and `mute_author` mutes its author in the channel (requires
+   * `user.mute` there). All open reports of the same message are closed
+   * with the report. Requires `message.read` in the channel of the report.
+   * Emits a `report.resolved` domain event.
+   *
+   * @param id Report identifier
+   * @param actor Moderator closing the report
+   * @param input Action, optional note and mute duration
+   * @returns The closed report and the number of closed reports
+   */
+  async resolve(
+    id: string,
+    actor: ReportUser,
+    input: {
+      action: ReportResolution;
+      note?: string;
+      durationSeconds?: number;
+    },
+  ) {
+    if (!Object.hasOwn(RESOLUTION_ACTIONS, input.action)) {
+      throw new BadRequestException('Invalid action');
+    }
+    const action = RESOLUTION_ACTIONS[input.action];
+
+    const report = await this.prisma.report.findUnique({
+      where: { id },
+      select: {
+        ...REPORT_SELECT,
+        message: { select: { authorId: true, deletedAt: true } },
+      },
+    });
+    if (!report) throw new NotFoundException('Report not found');
+    if (report.status !== 'OPEN') {
+      throw new ConflictException('Report is already closed');
+    }
+
+    // Moderators only handle reports of channels they can read
+    await this.permissions.assert(actor, 'message.read', report.channelKey);
+
+    const note = input.note ?? `Reported: ${report.reason}`;
+
+    // Apply the action before closing the reports
+    if (action === 'DELETE_MESSAGE' && !report.message.deletedAt) {
+      await this.messages.deleteMessageById(report.messageId, actor, note);
+    }
+    if (action === 'MUTE_AUTHOR') {
+      await this.permissions.assert(actor, 'user.mute', report.channelKey);
+      await this.moderation.mute(report.channelKey, actor, {
+        userId: report.message.authorId,
+        durationSeconds: input.durationSeconds ?? DEFAULT_MUTE_SECONDS,
+        reason: note,
+      });
+    }
+
+    const status = action === 'DISMISS' ? 'DISMISSED' : 'RESOLVED';
+    const resolvedAt = new Date();
+
+    // Close every open report of the message at once
+    const open = await this.prisma.report.findMany({
+      where: { messageId: report.messageId, status: 'OPEN' },
+      select: { id: true },
+    });
+    const reportIds = open.map((r) => r.id);
+
+    await this.prisma.report.updateMany({
+      where: { id: { in: reportIds }, status: 'OPEN' },
+      data: {
+        status,
+        action,
+        resolutionNote: input.note ?? null,
+        resolvedAt,
+        resolvedById: actor.id,
+      },
+    });
+
+    await this.audit.record({
+      actor,
+      action: 'report.resolve',
+      target: { type: 'report', id: report.id, channelKey: report.channelKey },
+      before: { status: report.status },
+      after: { status, action, reportIds, resolutionNote: input.note ?? null },
+    });
+
+    this.events.publish('report.resolved', {
+      messageId: report.messageId,
+      channelKey: report.channelKey,
+      status,
+      action,
+      reportIds,
+      resolvedById: actor.id,
+      resolvedAt,
+    });
+
+    return {
+      ...report,
+      status,
+      action,
+      resolutionNote: input.note ?? null,
+      resolvedAt,
+      resolvedById: actor.id,
+      closed: reportIds.length,
+    };
+  }
+}
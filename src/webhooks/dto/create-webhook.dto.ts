@@ -0,0 +1,48 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Length,
+} from 'class-validator';
+import { WEBHOOK_EVENTS } from '../webhook-events';
+
+/**
+ * Data Transfer Object (DTO) for registering a webhook.
+ *
+ * This DTO validates the request body of the
+ * `POST /admin/webhooks` endpoint.
+ */
+export class CreateWebhookDto {
+  /**
+   * URL receiving the deliveries (http or https).
+   */
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  url!: string;
+
+  /**
+   * Subscribed event types.
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events!: string[];
+
+  /**
+   * Whether deliveries are sent (defaults to true).
+   */
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  /**
+   * Optional description shown to administrators.
+   */
+  @IsOptional()
+  @IsString()
+  @Length(0, 200)
+  description?: string;
+}
@@ -0,0 +1,36 @@
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object (DTO) for listing webhook deliveries.
+ *
+ * This DTO validates and describes the supported query parameters
+ * for the `GET /admin/webhooks/:id/deliveries` endpoint.
+ */
+export class ListWebhookDeliveriesQueryDto {
+  /**
+   * Optional status filter.
+   */
+  @IsOptional()
+  @IsIn(['PENDING', 'SUCCEEDED', 'FAILED'])
+  status?: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+  /**
+   * Optional pagination cursor.
+   *
+   * Represents the ID of the last delivery from the previous page.
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  /**
+   * Optional number of deliveries to return.
+   *
+   * Must be between 1 and 100 if provided.
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  take?: number;
+}
@@ -0,0 +1,50 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Length,
+} from 'class-validator';
+import { WEBHOOK_EVENTS } from '../webhook-events';
+
+/**
+ * Data Transfer Object (DTO) for changing a webhook.
+ *
+ * This DTO validates the request body of the
+ * `PATCH /admin/webhooks/:id` endpoint. Omitted fields stay unchanged.
+ */
+export class UpdateWebhookDto {
+  /**
+   * New URL receiving the deliveries.
+   */
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  url?: string;
+
+  /**
+   * New set of subscribed event types.
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events?: string[];
+
+  /**
+   * Enables or disables the webhook.
+   */
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  /**
+   * New description (empty to clear it).
+   */
+  @IsOptional()
+  @IsString()
+  @Length(0, 200)
+  description?: string;
+}
@@ -0,0 +1,230 @@
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { signWebhookPayload } from './webhook-events';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+
+describe('WebhookDeliveryService', () => {
+  const env = { ...process.env };
+
+  let server: Server;
+  let url: string;
+  let received: { headers: IncomingHttpHeaders; body: string }[];
+  let responseStatus: number;
+
+  let delivery: Record<string, unknown>;
+  let subscription: { url: string; secret: string; active: boolean };
+  let prisma: {
+    webhookSubscription: { findMany: jest.Mock };
+    webhookDelivery: {
+      createManyAndReturn: jest.Mock;
+      findMany: jest.Mock;
+      updateMany: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      update: jest.Mock;
+    };
+  };
+  let events: EventsService;
+  let service: WebhookDeliveryService;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', (chunk: string) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end('ok');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    url = `http://127.0.0.1:${port}/hook`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    process.env.WEBHOOK_POLL_INTERVAL_MS = '0';
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+    process.env.WEBHOOK_RETRY_BASE_SECONDS = '10';
+
+    received = [];
+    responseStatus = 204;
+    subscription = { url, secret: 'shh', active: true };
+    delivery = {
+      id: 'd1',
+      subscriptionId: 'w1',
+      event: 'message.deleted',
+      payload: { channelKey: 'general', messageId: 'm1' },
+      status: 'PENDING',
+      attempts: 0,
+      nextAttemptAt: new Date(0),
+      lastAttemptAt: null,
+      responseStatus: null,
+      lastError: null,
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+      deliveredAt: null,
+    };
+
+    prisma = {
+      webhookSubscription: {
+        findMany: jest.fn().mockResolvedValue([{ id: 'w1' }]),
+      },
+      webhookDelivery: {
+        createManyAndReturn: jest.fn().mockResolvedValue([{ id: 'd1' }]),
+        findMany: jest.fn().mockResolvedValue([{ id: 'd1' }]),
+        // Claims succeed once per due pending delivery
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { nextAttemptAt: { lte: Date } };
+            data: object;
+          }) => {
+            if (
+              delivery.status !== 'PENDING' ||
+              (delivery.nextAttemptAt as Date) > where.nextAttemptAt.lte
+            ) {
+              return { count: 0 };
+            }
+            Object.assign(delivery, data, { status: 'CLAIMED' });
+            return { count: 1 };
+          },
+        ),
+        findUniqueOrThrow: jest.fn(() => ({ ...delivery, subscription })),
+        update: jest.fn(({ data }: { data: object }) => {
+          Object.assign(delivery, { status: 'PENDING' }, data);
+          return { ...delivery };
+        }),
+      },
+    };
+    events = new EventsService();
+
+    service = new WebhookDeliveryService(
+      prisma as unknown as PrismaService,
+      events,
+    );
+    service.onModuleInit();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    process.env = { ...env };
+  });
+
+  it('enqueues subscribed domain events', () => {
+    const enqueue = jest.spyOn(service, 'enqueue').mockResolvedValue();
+
+    const flushed = {
+      channelKey: 'general',
+      deleted: 2,
+      deletedAt: new Date(),
+    };
+    events.publish('channel.flushed', flushed);
+
+    expect(enqueue).toHaveBeenCalledWith('channel.flushed', flushed);
+  });
+
+  it('delivers events as signed requests', async () => {
+    await service.enqueue('message.deleted', {
+      channelKey: 'general',
+      messageId: 'm1',
+    });
+
+    expect(prisma.webhookSubscription.findMany).toHaveBeenCalledWith({
+      where: { active: true, events: { has: 'message.deleted' } },
+      select: { id: true },
+    });
+    expect(received).toHaveLength(1);
+
+    const [{ headers, body }] = received;
+    expect(headers['x-webhook-event']).toBe('message.deleted');
+    expect(headers['x-webhook-id']).toBe('d1');
+    expect(headers['x-webhook-signature']).toBe(
+      signWebhookPayload('shh', Number(headers['x-webhook-timestamp']), body),
+    );
+    expect(JSON.parse(body)).toEqual({
+      id: 'd1',
+      event: 'message.deleted',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      data: { channelKey: 'general', messageId: 'm1' },
+    });
+    expect(delivery).toMatchObject({
+      status: 'SUCCEEDED',
+      attempts: 1,
+      responseStatus: 204,
+      nextAttemptAt: null,
+    });
+  });
+
+  it('retries failed attempts with exponential backoff', async () => {
+    responseStatus = 500;
+
+    const first = await service.attempt('d1');
+    expect(first).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      responseStatus: 500,
+      lastError: 'HTTP 500',
+    });
+    const firstDelay =
+      (first!.nextAttemptAt as Date).getTime() -
+      (first!.lastAttemptAt as Date).getTime();
+    expect(firstDelay).toBe(10_000);
+
+    // Not due yet
+    await expect(service.attempt('d1')).resolves.toBeNull();
+
+    delivery.nextAttemptAt = new Date(0);
+    const second = await service.attempt('d1');
+    const secondDelay =
+      (second!.nextAttemptAt as Date).getTime() -
+      (second!.lastAttemptAt as Date).getTime();
+    expect(secondDelay).toBe(20_000);
+  });
+
+  it('fails deliveries after the last attempt', async () => {
+    responseStatus = 503;
+    delivery.attempts = 2;
+
+    await service.processDue();
+
+    expect(delivery).toMatchObject({
+      status: 'FAILED',
+      attempts: 3,
+      nextAttemptAt: null,
+    });
+  });
+
+  it('fails deliveries of disabled webhooks without sending them', async () => {
+    subscription.active = false;
+
+    await service.attempt('d1');
+
+    expect(received).toHaveLength(0);
+    expect(delivery).toMatchObject({
+      status: 'FAILED',
+      lastError: 'Webhook is disabled',
+    });
+  });
+
+  it('records unreachable receivers', async () => {
+    subscription.url = 'http://127.0.0.1:1/hook';
+
+    const result = await service.attempt('d1');
+
+    expect(result).toMatchObject({ status: 'PENDING', responseStatus: null });
+    expect(result!.lastError).toEqual(expect.any(String));
+  });
+
+  it('skips deliveries claimed elsewhere', async () => {
+    delivery.status = 'CLAIMED';
+
+    await expect(service.attempt('d1')).resolves.toBeNull();
+    expect(prisma.webhookDelivery.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,362 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Subscription } from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+import {
+  signWebhookPayload,
+  WEBHOOK_EVENTS,
+  WebhookEvent,
+} from './webhook-events';
+
+//Default number of attempts per delivery.
+const DEFAULT_MAX_ATTEMPTS = 6;
+
+//Default delay before the first retry (doubled for every further retry).
+const DEFAULT_RETRY_BASE_SECONDS = 10;
+
+//Longest delay between two attempts (1 hour).
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+//Default timeout of a delivery request.
+const DEFAULT_TIMEOUT_MS = 5000;
+
+//Default interval in which due retries are picked up.
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+//Number of due deliveries attempted per poll.
+const POLL_BATCH_SIZE = 20;
+
+//Time a claimed delivery is reserved for the attempting instance.
+const CLAIM_LEASE_MS = 60 * 1000;
+
+//Longest stored error message.
+const MAX_ERROR_LENGTH = 500;
+
+//Fields returned for every delivery read through the webhook services.
+export const WEBHOOK_DELIVERY_SELECT = {
+  id: true,
+  subscriptionId: true,
+  event: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastAttemptAt: true,
+  responseStatus: true,
+  lastError: true,
+  createdAt: true,
+  deliveredAt: true,
+} as const;
+
+/**
+ * Reads a non-negative integer from the environment.
+ *
+ * @param name Variable name
+ * @param fallback Default for unset or invalid values
+ * @returns The configured value
+ */
+function readNonNegativeInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw !== undefined &&
+    raw !== '' &&
+    Number.isInteger(value) &&
+    value >= 0
+    ? value
+    : fallback;
+}
+
+/**
+ * Delivers domain events to the registered webhooks.
+ *
+ * Every subscribed event is stored as a delivery per matching webhook and
+ * sent right away as signed JSON `POST` request. Failed attempts (network
+ * errors, timeouts, non-2xx responses) are retried with exponential backoff
+ * by a poller, until `WEBHOOK_MAX_ATTEMPTS` attempts failed. Deliveries are
+ * claimed before every attempt, so multiple instances never send the same
+ * attempt twice.
+ */
+@Injectable()
+export class WebhookDeliveryService implements OnModuleInit, OnModuleDestroy {
+  /**
+   * Logger of the webhook delivery.
+   */
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+
+  /**
+   * Active domain event subscriptions.
+   */
+  private readonly subscriptions = new Subscription();
+
+  /**
+   * Timer picking up due retries.
+   */
+  private poller?: NodeJS.Timeout;
+
+  /**
+   * Whether a poll is running.
+   */
+  private polling = false;
+
+  /**
+   * Creates a new WebhookDeliveryService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param events Event bus providing the delivered events
+   */
+  constructor(
+    private prisma: PrismaService,
+    private events: EventsService,
+  ) {}
+
+  /**
+   * Subscribes to the deliverable events and starts the retry poller.
+   *
+   * The poller is disabled with `WEBHOOK_POLL_INTERVAL_MS=0`.
+   */
+  onModuleInit() {
+    for (const event of WEBHOOK_EVENTS) {
+      this.subscriptions.add(
+        this.events.on(event).subscribe((payload) => {
+          void this.enqueue(event, payload);
+        }),
+      );
+    }
+
+    const interval = readNonNegativeInt(
+      'WEBHOOK_POLL_INTERVAL_MS',
+      DEFAULT_POLL_INTERVAL_MS,
+    );
+    if (interval > 0) {
+      this.poller = setInterval(() => void this.processDue(), interval);
+      this.poller.unref();
+    }
+  }
+
+  /**
+   * Releases the event subscriptions and stops the poller.
+   */
+  onModuleDestroy() {
+    this.subscriptions.unsubscribe();
+    if (this.poller) clearInterval(this.poller);
+  }
+
+  /**
+   * Stores an event for every active webhook subscribed to it and attempts
+   * the deliveries.
+   *
+   * @param event Event type
+   * @param payload Event payload
+   */
+  async enqueue(event: WebhookEvent, payload: unknown) {
+    try {
+      const webhooks = await this.prisma.webhookSubscription.findMany({
+        where: { active: true, events: { has: event } },
+        select: { id: true },
+      });
+      if (webhooks.length === 0) return;
+
+      const data = JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue;
+      const deliveries = await this.prisma.webhookDelivery.createManyAndReturn({
+        data: webhooks.map((webhook) => ({
+          subscriptionId: webhook.id,
+          event,
+          payload: data,
+        })),
+        select: { id: true },
+      });
+
+      await Promise.all(deliveries.map(({ id }) => this.attempt(id)));
+    } catch (e) {
+      this.logger.warn(
+        `Failed to enqueue ${event} webhooks: ${(e as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Attempts the deliveries whose next attempt is due.
+   *
+   * Polls never overlap on one instance.
+   */
+  async processDue() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const due = await this.prisma.webhookDelivery.findMany({
+        where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: POLL_BATCH_SIZE,
+        select: { id: true },
+      });
+
+      for (const { id } of due) await this.attempt(id);
+    } catch (e) {
+      this.logger.warn(
+        `Failed to process due webhooks: ${(e as Error).message}`,
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Sends a pending delivery and records the outcome.
+   *
+   * Failed attempts are rescheduled with exponential backoff, or marked as
+   * failed after the last attempt. Deliveries of disabled webhooks fail
+   * without being sent.
+   *
+   * @param id Delivery identifier
+   * @returns The updated delivery, or null if it is not due or claimed elsewhere
+   */
+  async attempt(id: string) {
+    // Reserve the delivery, so no other instance attempts it concurrently
+    const now = new Date();
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: { id, status: 'PENDING', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) },
+    });
+    if (count === 0) return null;
+
+    const delivery = await this.prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id },
+      select: {
+        ...WEBHOOK_DELIVERY_SELECT,
+        subscription: { select: { url: true, secret: true, active: true } },
+      },
+    });
+
+    const attempts = delivery.attempts + 1;
+    const result = delivery.subscription.active
+      ? await this.send(delivery, delivery.subscription)
+      : { status: null, error: 'Webhook is disabled' };
+
+    const attemptedAt = new Date();
+    const succeeded = result.error === null;
+    const exhausted =
+      !delivery.subscription.active ||
+      attempts >=
+        Math.max(
+          1,
+          readNonNegativeInt('WEBHOOK_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS),
+        );
+
+    if (!succeeded) {
+      this.logger.warn(
+        `Webhook delivery ${id} (${delivery.event}) failed: ${result.error}`,
+      );
+    }
+
+    return this.prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        attempts,
+        lastAttemptAt: attemptedAt,
+        responseStatus: result.status,
+        lastError: result.error,
+        ...(succeeded
+          ? {
+              status: 'SUCCEEDED',
+              deliveredAt: attemptedAt,
+              nextAttemptAt: null,
+            }
+          : exhausted
+            ? { status: 'FAILED', nextAttemptAt: null }
+            : {
+                nextAttemptAt: new Date(
+                  attemptedAt.getTime() + this.getRetryDelayMs(attempts),
+                ),
+              }),
+      },
+      select: WEBHOOK_DELIVERY_SELECT,
+    });
+  }
+
+  /**
+   * Sends a delivery to its webhook.
+   *
+   * @param delivery Delivery with its event and payload
+   * @param webhook Receiving URL and signing secret
+   * @returns Response status (if any) and error (null on success)
+   */
+  private async send(
+    delivery: {
+      id: string;
+      event: string;
+      payload: Prisma.JsonValue;
+      createdAt: Date;
+    },
+    webhook: { url: string; secret: string },
+  ): Promise<{ status: number | null; error: string | null }> {
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.event,
+      createdAt: delivery.createdAt,
+      data: delivery.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'chat-webhooks/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(
+            webhook.secret,
+            timestamp,
+            body,
+          ),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(
+          readNonNegativeInt('WEBHOOK_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+        ),
+      });
+
+      // The response body is not used
+      await response.body?.cancel();
+
+      return response.ok
+        ? { status: response.status, error: null }
+        : { status: response.status, error: `HTTP ${response.status}` };
+    } catch (e) {
+      const error = e as Error;
+      const message =
+        error.name === 'TimeoutError'
+          ? 'Request timed out'
+          : (error.cause as Error | undefined)?.message || error.message;
+      return { status: null, error: message.slice(0, MAX_ERROR_LENGTH) };
+    }
+  }
+
+  /**
+   * Returns the delay before the next attempt.
+   *
+   * Starts at `WEBHOOK_RETRY_BASE_SECONDS` and doubles with every failed
+   * attempt, up to one hour.
+   *
+   * @param attempts Number of failed attempts so far
+   * @returns Delay in milliseconds
+   */
+  private getRetryDelayMs(attempts: number): number {
+    const base =
+      readNonNegativeInt(
+        'WEBHOOK_RETRY_BASE_SECONDS',
+        DEFAULT_RETRY_BASE_SECONDS,
+      ) * 1000;
+    return Math.min(base * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+}
@@ -0,0 +1,59 @@
+import { createHmac } from 'node:crypto';
+import type { DomainEventName } from '../events/domain-events';
+
+/**
+ * Catalogue of events deliverable to webhooks and the payload signature.
+ *
+ * Webhook events are domain events published on the in-process event bus;
+ * their payload is delivered unchanged.
+ */
+
+//Domain events that webhooks can subscribe to.
+export const WEBHOOK_EVENTS = [
+  'message.created',
+  'message.updated',
+  'message.deleted',
+  'message.restored',
+  'channel.flushed',
+  'channel.member.removed',
+  'channel.moderated',
+  'report.created',
+  'report.resolved',
+  'user.sessions.revoked',
+] as const satisfies readonly DomainEventName[];
+
+//Event type a webhook can subscribe to.
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/**
+ * Checks whether a value is a deliverable event type.
+ *
+ * @param value Value to check
+ * @returns True for webhook event types
+ */
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+/**
+ * Signs a webhook request body.
+ *
+ * The signature is the hex HMAC-SHA256 of `<timestamp>.<body>` with the
+ * webhook secret, sent as `X-Webhook-Signature: sha256=<hex>` together
+ * with `X-Webhook-Timestamp`. Receivers recompute it from the raw body.
+ *
+ * @param secret Webhook secret
+ * @param timestamp Time of the attempt (epoch seconds)
+ * @param body Raw request body
+ * @returns Signature header value
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
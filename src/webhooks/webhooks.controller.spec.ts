@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { AuthService } from '../auth/auth.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+describe('WebhooksController', () => {
+  let controller: WebhooksController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WebhooksController],
+      providers: [
+        { provide: WebhooksService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: PermissionsService, useValue: {} },
+        { provide: RateLimitService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<WebhooksController>(WebhooksController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { ListWebhookDeliveriesQueryDto } from './dto/list-webhook-deliveries.query';
+import type { RequestUser } from '../auth/request-user';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { PermissionsGuard } from '../permissions/permissions.guard';
+import { RequirePermission } from '../permissions/require-permission.decorator';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
+
+/**
+ * HTTP controller for outgoing webhooks and their delivery log.
+ *
+ * All routes require `webhook.manage`.
+ */
+@Controller('admin/webhooks')
+@UseGuards(JwtAuthGuard, PermissionsGuard, RateLimitGuard)
+export class WebhooksController {
+  /**
+   * Creates a new WebhooksController.
+   *
+   * @param webhooks Webhooks service providing business logic and persistence
+   */
+  constructor(private readonly webhooks: WebhooksService) {}
+
+  /**
+   * Registers a webhook.
+   *
+   * The response contains the signing secret; it is not shown again.
+   *
+   * @param dto URL, subscribed events and optional description
+   * @param user Authenticated user
+   * @returns The created webhook including its secret
+   */
+  @Post()
+  @RequirePermission('webhook.manage')
+  async create(
+    @Body() dto: CreateWebhookDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.webhooks.create(user, dto ?? {});
+  }
+
+  /**
+   * Lists all webhooks.
+   *
+   * @returns A list of webhooks
+   */
+  @Get()
+  @RequirePermission('webhook.manage')
+  async list() {
+    return this.webhooks.list();
+  }
+
+  /**
+   * Changes a webhook.
+   *
+   * @param id Webhook identifier
+   * @param dto Changed fields
+   * @param user Authenticated user
+   * @returns The updated webhook
+   */
+  @Patch(':id')
+  @RequirePermission('webhook.manage')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateWebhookDto,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.webhooks.update(id, user, dto ?? {});
+  }
+
+  /**
+   * Removes a webhook and its delivery log.
+   *
+   * @param id Webhook identifier
+   * @param user Authenticated user
+   * @returns The removed webhook
+   */
+  @Delete(':id')
+  @RequirePermission('webhook.manage')
+  async remove(@Param('id') id: string, @CurrentUser() user: RequestUser) {
+    return this.webhooks.remove(id, user);
+  }
+
+  /**
+   * Lists the deliveries of a webhook, newest first.
+   *
+   * @param id Webhook identifier
+   * @param q Query parameters (status, pagination)
+   * @returns A list of deliveries
+   */
+  @Get(':id/deliveries')
+  @RequirePermission('webhook.manage')
+  async deliveries(
+    @Param('id') id: string,
+    @Query() q: ListWebhookDeliveriesQueryDto,
+  ) {
+    return this.webhooks.listDeliveries(id, {
+      status: q.status,
+      take: q.take,
+      cursor: q.cursor,
+    });
+  }
+
+  /**
+   * Schedules all failed deliveries of a webhook for another round of
+   * attempts.
+   *
+   * @param id Webhook identifier
+   * @param user Authenticated user
+   * @returns Number of replayed deliveries
+   */
+  @Post(':id/replay')
+  @RequirePermission('webhook.manage')
+  async replayFailed(
+    @Param('id') id: string,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.webhooks.replayFailed(id, user);
+  }
+
+  /**
+   * Sends a failed delivery again right away.
+   *
+   * @param deliveryId Delivery identifier
+   * @param user Authenticated user
+   * @returns The delivery after its new attempt
+   */
+  @Post('deliveries/:deliveryId/replay')
+  @RequirePermission('webhook.manage')
+  async replay(
+    @Param('deliveryId') deliveryId: string,
+    @CurrentUser() user: RequestUser,
+  ) {
+    return this.webhooks.replay(deliveryId, user);
+  }
+}
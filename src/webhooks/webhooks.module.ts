@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { WebhooksController } from './webhooks.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule, PermissionsModule],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDeliveryService],
+})
+export class WebhooksModule {}
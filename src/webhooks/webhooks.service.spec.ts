@@ -0,0 +1,146 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('WebhooksService', () => {
+  let prisma: {
+    webhookSubscription: {
+      create: jest.Mock;
+      findUnique: jest.Mock;
+      update: jest.Mock;
+    };
+    webhookDelivery: {
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      updateMany: jest.Mock;
+    };
+  };
+  let delivery: { attempt: jest.Mock };
+  let audit: { record: jest.Mock };
+  let service: WebhooksService;
+
+  const admin = { id: 'a1', role: 'ADMIN' as const };
+  const webhook = {
+    id: 'w1',
+    url: 'https://example.com/hook',
+    events: ['message.created'],
+    active: true,
+    description: null,
+  };
+
+  beforeEach(() => {
+    prisma = {
+      webhookSubscription: {
+        create: jest.fn(({ data }: { data: { url: string } }) =>
+          Promise.resolve({ ...webhook, url: data.url }),
+        ),
+        findUnique: jest.fn().mockResolvedValue(webhook),
+        update: jest.fn().mockResolvedValue(webhook),
+      },
+      webhookDelivery: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'd1',
+          subscriptionId: 'w1',
+          status: 'FAILED',
+        }),
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    delivery = {
+      attempt: jest.fn().mockResolvedValue({ id: 'd1', status: 'SUCCEEDED' }),
+    };
+    audit = { record: jest.fn() };
+
+    service = new WebhooksService(
+      prisma as unknown as PrismaService,
+      delivery as unknown as WebhookDeliveryService,
+      audit as unknown as AuditService,
+    );
+  });
+
+  it('returns the generated secret only on creation', async () => {
+    const created = await service.create(admin, {
+      url: 'https://example.com/hook',
+      events: ['message.created', 'message.created'],
+    });
+
+    expect(created.secret).toEqual(expect.any(String));
+    const [{ data }] = prisma.webhookSubscription.create.mock.calls[0] as [
+      { data: { events: string[]; secret: string } },
+    ];
+    expect(data.events).toEqual(['message.created']);
+    expect(data.secret).toBe(created.secret);
+    expect(audit.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'webhook.create',
+        after: expect.not.objectContaining({
+          secret: expect.anything() as unknown,
+        }) as unknown,
+      }),
+    );
+  });
+
+  it('rejects invalid URLs and unknown events', async () => {
+    await expect(
+      service.create(admin, {
+        url: 'ftp://example.com',
+        events: ['message.created'],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.create(admin, {
+        url: 'https://example.com',
+        events: ['user.login'],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.create(admin, { url: 'https://example.com', events: [] }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.webhookSubscription.create).not.toHaveBeenCalled();
+  });
+
+  it('throws NotFound for unknown webhooks', async () => {
+    prisma.webhookSubscription.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.update('nope', admin, { active: false }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('replays failed deliveries right away', async () => {
+    await expect(service.replay('d1', admin)).resolves.toMatchObject({
+      status: 'SUCCEEDED',
+    });
+
+    expect(prisma.webhookDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: 'd1', status: 'FAILED' },
+      data: expect.objectContaining({
+        status: 'PENDING',
+        attempts: 0,
+      }) as unknown,
+    });
+    expect(delivery.attempt).toHaveBeenCalledWith('d1');
+    expect(audit.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'webhook.replay',
+        target: { type: 'webhook', id: 'w1' },
+      }),
+    );
+  });
+
+  it('refuses to replay deliveries that did not fail', async () => {
+    prisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.replay('d1', admin)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(delivery.attempt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { randomBytes } from 'node:crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { parseTake } from '../common/query-params';
+import {
+  WEBHOOK_DELIVERY_SELECT,
+  WebhookDeliveryService,
+} from './webhook-delivery.service';
+import { isWebhookEvent, WebhookEvent } from './webhook-events';
+
+//Allowed user roles within the webhooks domain.
+type Role = 'USER' | 'MODERATOR' | 'ADMIN';
+
+//Administrator managing webhooks.
+type WebhookAdmin = { id: string; role: Role };
+
+//Changeable fields of a webhook.
+type WebhookInput = {
+  url?: string;
+  events?: string[];
+  active?: boolean;
+  description?: string | null;
+};
+
+//Delivery states that can be filtered by.
+const DELIVERY_STATUSES: readonly WebhookDeliveryStatus[] = [
+  'PENDING',
+  'SUCCEEDED',
+  'FAILED',
+];
+
+//Default and largest number of deliveries per page.
+const PAGE_SIZE = { defaultSize: 50, maxSize: 100 };
+
+//Fields returned for every webhook (the secret is only returned on creation).
+const WEBHOOK_SELECT = {
+  id: true,
+  url: true,
+  events: true,
+  active: true,
+  description: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * Service responsible for managing webhooks and their delivery log.
+ *
+ * Administrators register webhook URLs for a set of event types. Every
+ * webhook gets a generated secret signing its payloads; it is returned once
+ * on creation. Failed deliveries can be replayed. Changes are recorded in
+ * the audit log.
+ */
+@Injectable()
+export class WebhooksService {
+  /**
+   * Creates a new WebhooksService.
+   *
+   * @param prisma Prisma service used for database access
+   * @param delivery Delivery service sending replayed deliveries
+   * @param audit Audit log recording webhook changes
+   */
+  constructor(
+    private prisma: PrismaService,
+    private delivery: WebhookDeliveryService,
+    private audit: AuditService,
+  ) {}
+
+  /**
+   * Registers a webhook.
+   *
+   * @param actor Administrator registering the webhook
+   * @param input URL, subscribed events and optional description
+   * @returns The webhook including its signing secret
+   */
+  async create(actor: WebhookAdmin, input: WebhookInput) {
+    const url = this.parseUrl(input.url);
+    const events = this.parseEvents(input.events);
+    const secret = randomBytes(32).toString('base64url');
+
+    const webhook = await this.prisma.webhookSubscription.create({
+      data: {
+        url,
+        events,
+        secret,
+        active: input.active ?? true,
+        description: this.parseDescription(input.description),
+        createdById: actor.id,
+      },
+      select: WEBHOOK_SELECT,
+    });
+
+    await this.audit.record({
+      actor,
+      action: 'webhook.create',
+      target: { type: 'webhook', id: webhook.id },
+      after: webhook,
+    });
+
+    return { ...webhook, secret };
+  }
+
+  /**
+   * Lists all webhooks, oldest first.
+   *
+   * @returns Registered webhooks without their secrets
+   */
+  async list() {
+    return this.prisma.webhookSubscription.findMany({
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: WEBHOOK_SELECT,
+    });
+  }
+
+  /**
+   * Changes a webhook.
+   *
+   * Disabling a webhook stops new deliveries; pending deliveries fail on
+   * their next attempt and can be replayed once it is enabled again.
+   *
+   * @param id Webhook identifier
+   * @param actor Administrator changing the webhook
+   * @param input Changed fields
+   * @returns The updated webhook
+   */
+  async update(id: string, actor: WebhookAdmin, input: WebhookInput) {
+    const existing = await this.findOrFail(id);
+
+    if (input.active !== undefined && typeof input.active !== 'boolean') {
+      throw new BadRequestException('Invalid active flag');
+    }
+
+    const webhook = await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        ...(input.url !== undefined ? { url: this.parseUrl(input.url) } : {}),
+        ...(input.events !== undefined
+          ? { events: this.parseEvents(input.events) }
+          : {}),
+        ...(input.active !== undefined ? { active: input.active } : {}),
+        ...(input.description !== undefined
+          ? { description: this.parseDescription(input.description) }
+          : {}),
+      },
+      select: WEBHOOK_SELECT,
+    });
+
+    await this.audit.record({
+      actor,
+      action: 'webhook.update',
+      target: { type: 'webhook', id },
+      before: existing,
+      after: webhook,
+    });
+
+    return webhook;
+  }
+
+  /**
+   * Removes a webhook together with its delivery log.
+   *
+   * @param id Webhook identifier
+   * @param actor Administrator removing the webhook
+   * @returns The removed webhook
+   */
+  async remove(id: string, actor: WebhookAdmin) {
+    const existing = await this.findOrFail(id);
+
+    await this.prisma.webhookSubscription.delete({ where: { id } });
+
+    await this.audit.record({
+      actor,
+      action: 'webhook.delete',
+      target: { type: 'webhook', id },
+      before: existing,
+    });
+
+    return existing;
+  }
+
+  /**
+   * Lists the deliveries of a webhook, newest first.
+   *
+   * @param id Webhook identifier
+   * @param params Status filter and pagination info
+   * @returns List of deliveries
+   */
+  async listDeliveries(
+    id: string,
+    params: { status?: string; take?: number | string; cursor?: string },
+  ) {
+    await this.findOrFail(id);
+
+    const status = params.status?.toUpperCase();
+    if (
+      status !== undefined &&
+      !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)
+    ) {
+      throw new BadRequestException('Invalid status');
+    }
+
+    return this.prisma.webhookDelivery.findMany({
+      where: {
+        subscriptionId: id,
+        ...(status ? { status: status as WebhookDeliveryStatus } : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: parseTake(params.take, PAGE_SIZE),
+      ...(params.cursor ? { cursor: { id: params.cursor }, skip: 1 } : {}),
+      select: WEBHOOK_DELIVERY_SELECT,
+    });
+  }
+
+  /**
+   * Sends a failed delivery again.
+   *
+   * The delivery gets a fresh set of attempts; its first attempt is made
+   * right away. Throws a ConflictException for deliveries that did not fail.
+   *
+   * @param deliveryId Delivery identifier
+   * @param actor Administrator replaying the delivery
+   * @returns The delivery after its first new attempt
+   */
+  async replay(deliveryId: string, actor: WebhookAdmin) {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      select: { id: true, subscriptionId: true, status: true },
+    });
+    if (!delivery) throw new NotFoundException('Delivery not found');
+
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: 'FAILED' },
+      data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date() },
+    });
+    if (count === 0) {
+      throw new ConflictException('Only failed deliveries can be replayed');
+    }
+
+    await this.audit.record({
+      actor,
+      action: 'webhook.replay',
+      target: { type: 'webhook', id: delivery.subscriptionId },
+      after: { deliveryIds: [deliveryId] },
+    });
+
+    return (
+      (await this.delivery.attempt(deliveryId)) ??
+      this.prisma.webhookDelivery.findUniqueOrThrow({
+        where: { id: deliveryId },
+        select: WEBHOOK_DELIVERY_SELECT,
+      })
+    );
+  }
+
+  /**
+   * Schedules all failed deliveries of a webhook for another round of
+   * attempts, e.g. after the receiver was down.
+   *
+   * @param id Webhook identifier
+   * @param actor Administrator replaying the deliveries
+   * @returns Number of replayed deliveries
+   */
+  async replayFailed(id: string, actor: WebhookAdmin) {
+    await this.findOrFail(id);
+
+    const failed = await this.prisma.webhookDelivery.findMany({
+      where: { subscriptionId: id, status: 'FAILED' },
+      select: { id: true },
+    });
+    const deliveryIds = failed.map((delivery) => delivery.id);
+
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: { id: { in: deliveryIds }, status: 'FAILED' },
+      data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date() },
+    });
+
+    if (count > 0) {
+      await this.audit.record({
+        actor,
+        action: 'webhook.replay',
+        target: { type: 'webhook', id },
+        after: { deliveryIds },
+      });
+    }
+
+    // The retry poller picks the deliveries up
+    return { replayed: count };
+  }
+
+  /**
+   * Reads a webhook or throws a NotFoundException.
+   *
+   * @param id Webhook identifier
+   * @returns The webhook without its secret
+   */
+  private async findOrFail(id: string) {
+    const webhook = await this.prisma.webhookSubscription.findUnique({
+      where: { id },
+      select: WEBHOOK_SELECT,
+    });
+    if (!webhook) throw new NotFoundException('Webhook not found');
+    return webhook;
+  }
+
+  /**
+   * Validates a webhook URL.
+   *
+   * @param value Requested URL
+   * @returns The normalized URL
+   */
+  private parseUrl(value: unknown): string {
+    try {
+      const url = new URL(String(value));
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        return url.toString();
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new BadRequestException('Invalid webhook URL');
+  }
+
+  /**
+   * Validates the subscribed event types.
+   *
+   * @param value Requested event types
+   * @returns Unique event types
+   */
+  private parseEvents(value: unknown): WebhookEvent[] {
+    if (
+      !Array.isArray(value) ||
+      value.length === 0 ||
+      !value.every(isWebhookEvent)
+    ) {
+      throw new BadRequestException('Invalid webhook events');
+    }
+    return [...new Set(value)];
+  }
+
+  /**
+   * Normalizes a webhook description.
+   *
+   * @param value Requested description
+   * @returns Trimmed description, or null if empty
+   */
+  private parseDescription(value?: string | null): string | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string') {
+      throw new BadRequestException('Invalid description');
+    }
+    return value.trim().slice(0, 200) || null;
+  }
+}
@@ -18,7 +18,7 @@ const fetch = (...args) =>
   import("node-fetch").then(({ default: fetch }) => fetch(...args));
 
 // Read required environment variables
-const TOKEN = process.env.TOKEN;
+let TOKEN = process.env.TOKEN;
 const API_KEY = process.env.API_KEY;
 const URL = process.env.GW_URL || "http://localhost:3000";
 
@@ -45,25 +45,63 @@ const rl = readline.createInterface({
 let currentRole = "USER";
 let helpPrintedForRole = false;
 
+// Uploads attached to the next sent message
+let pendingAttachments = [];
+
 // Print command list (admin commands only shown if role is ADMIN)
 function printHelp() {
   console.log("Commands:");
-  console.log("  join <general|support>");
-  console.log("  send <general|support> <text...>");
-  console.log("  history <general|support>");
+  console.log("  join <channel> [sinceMessageIdOrTimestamp]");
+  console.log("  send <channel> <text...>");
+  console.log("  reply <channel> <parentId> <text...>");
+  console.log("  react <messageId> <emoji>");
+  console.log("  unreact <messageId> <emoji>");
+  console.log("  history <channel> [before|after|around <messageId>]");
+  console.log("  read <channel> [messageId]");
+  console.log("  who <channel>");
+  console.log("  away | back");
+  console.log("  typing <channel>");
+  console.log("  unread");
+  console.log("  notifications [unread]");
+  console.log("  seen [notificationId...]");
+  console.log("  quiet <channel> | loud <channel>");
+  console.log("  search <query...>");
+  console.log("  upload <path>");
+  console.log("  link <attachmentId>");
+  console.log("  dm <userId> <text...>");
+  console.log("  dms <userId>");
+  console.log("  del <messageId>");
+  console.log("  report <messageId> <reason...>");
+  console.log("  refresh <token>");
   console.log("  help");
   console.log("  exit");
 
   if (currentRole === "ADMIN") {
     console.log("\nAdmin commands:");
-    console.log("  flush <general|support>");
-    console.log("  del <messageId>");
+    console.log("  flush <channel>");
+    console.log("  revoke <userId>");
+    console.log("  audit [action]");
+    console.log("  webhooks");
+    console.log("  webhook <url> <event,event...>");
+    console.log("  deliveries <webhookId>");
+    console.log("  replay <deliveryId>");
+  }
+
+  if (currentRole === "ADMIN" || currentRole === "MODERATOR") {
+    console.log("\nModeration commands:");
+    console.log("  mute <channel> <userId> <seconds> [reason...]");
+    console.log("  unmute <channel> <userId>");
+    console.log("  ban <channel> <userId> [seconds]");
+    console.log("  unban <channel> <userId>");
+    console.log("  slowmode <channel> <seconds>");
+    console.log("  reports [channel]");
+    console.log("  resolve <reportId> <dismiss|delete_message|mute_author> [note...]");
   }
 }
 
-// Channel input guard
+// Channel input guard (channel slugs: lowercase letters, digits and dashes)
 function isValidChannel(ch) {
-  return ch === "general" || ch === "support";
+  return /^[a-z0-9][a-z0-9-]{0,49}$/.test(ch);
 }
 
 // Guard for admin-only operations in the CLI
@@ -75,6 +113,15 @@ function requireAdmin() {
   return true;
 }
 
+// Guard for moderation operations in the CLI
+function requireModerator() {
+  if (currentRole !== "ADMIN" && currentRole !== "MODERATOR") {
+    console.log("Not allowed.");
+    return false;
+  }
+  return true;
+}
+
 // Create Socket.IO connection to the gateway
 const socket = io(URL, {
   // IMPORTANT: custom Socket.IO path used by the gateway
@@ -113,6 +160,74 @@ socket.on("message.new", (msg) => {
   rl.prompt();
 });
 
+// Realtime event: thread summary changed after a reply
+socket.on("thread.updated", (m) => {
+  console.log("\n thread.updated:", m);
+  rl.prompt();
+});
+
+// Realtime event: reaction count of a message changed
+socket.on("reaction.updated", (m) => {
+  console.log("\n reaction.updated:", m);
+  rl.prompt();
+});
+
+// Realtime event: more messages were missed than the server replays
+socket.on("replay.truncated", (m) => {
+  console.log("\n replay.truncated:", m);
+  rl.prompt();
+});
+
+// Realtime events: presence and typing indicators
+socket.on("presence.changed", (m) => {
+  console.log("\n presence.changed:", m);
+  rl.prompt();
+});
+
+socket.on("typing.start", (m) => {
+  console.log(`\n ${m.userId} is typing in ${m.channelKey}...`);
+  rl.prompt();
+});
+
+socket.on("typing.stop", (m) => {
+  console.log(`\n ${m.userId} stopped typing in ${m.channelKey}`);
+  rl.prompt();
+});
+
+// Realtime event: another member read a channel
+socket.on("message.read", (m) => {
+  console.log("\n message.read:", m);
+  rl.prompt();
+});
+
+// Realtime events: message edits and (soft) deletions
+socket.on("message.updated", (msg) => {
+  console.log("\n message.updated:", msg);
+  rl.prompt();
+});
+
+socket.on("message.deleted", (m) => {
+  console.log("\n message.deleted:", m);
+  rl.prompt();
+});
+
+socket.on("channel.flushed", (m) => {
+  console.log("\n channel.flushed:", m);
+  rl.prompt();
+});
+
+// Realtime event: direct message sent to or by this user
+socket.on("dm.new", (msg) => {
+  console.log("\n dm.new:", msg);
+  rl.prompt();
+});
+
+// Realtime event: this user was mentioned
+socket.on("notification.new", (n) => {
+  console.log(`\n notification.new [${n?.channelKey}] ${n?.type} by ${n?.actorId}: ${n?.message?.content} (${n?.id})`);
+  rl.prompt();
+});
+
 // Auth events from gateway
 socket.on("auth.ok", (m) => {
   // Persist role from auth handshake
@@ -133,26 +248,123 @@ socket.on("auth.error", (m) => {
   rl.prompt();
 });
 
-// Socket.IO: join a channel room
-async function join(channel) {
-  const res = await socket.emitWithAck("channel.join", { channel });
+socket.on("auth.expiring", (m) => {
+  console.log(`auth.expiring: token expires in ${m?.expiresIn}s (use: refresh <token>)`);
+  rl.prompt();
+});
+
+socket.on("auth.expired", (m) => {
+  console.log("auth.expired:", m);
+  rl.prompt();
+});
+
+socket.on("auth.revoked", (m) => {
+  console.log("auth.revoked:", m);
+  rl.prompt();
+});
+
+socket.on("channel.system", (m) => {
+  console.log(`\n [${m?.channelKey}] ${m?.action}:`, m);
+  rl.prompt();
+});
+
+socket.on("report.new", (r) => {
+  console.log(`\n report.new [${r?.channelKey}] ${r?.messageId}: ${r?.reason} (${r?.id})`);
+  rl.prompt();
+});
+
+socket.on("report.resolved", (r) => {
+  console.log(`\n report.resolved ${r?.messageId}: ${r?.action}`);
+  rl.prompt();
+});
+
+socket.on("rate_limit.muted", (m) => {
+  console.log(`rate_limit.muted: muted until ${m?.mutedUntil}`);
+  rl.prompt();
+});
+
+// Socket.IO: join a channel room (optionally replaying missed messages)
+async function join(channel, since) {
+  const res = await socket.emitWithAck("channel.join", { channel, since });
   console.log("join:", res);
 }
 
-// Socket.IO: send a message to a channel
+// Socket.IO: send a message to a channel (with pending uploads)
 async function send(channel, text) {
   const res = await socket.emitWithAck("message.send", {
     channel,
     content: text,
+    attachmentIds: pendingAttachments,
   });
+  if (res && res.ok) pendingAttachments = [];
   console.log("send:", res);
 }
 
+// Socket.IO: reply to a message in a channel thread
+async function reply(channel, parentId, text) {
+  const res = await socket.emitWithAck("message.send", {
+    channel,
+    parentId,
+    content: text,
+  });
+  console.log("reply:", res);
+}
+
+// Socket.IO: add or remove an emoji reaction on a message
+async function react(event, messageId, emoji) {
+  const res = await socket.emitWithAck(event, { messageId, emoji });
+  console.log("react:", res);
+}
+
+// Socket.IO: mark a channel as read (up to a message or the newest one)
+async function read(channel, messageId) {
+  const res = await socket.emitWithAck("channel.read", { channel, messageId });
+  console.log("read:", res);
+}
+
+// Socket.IO: list users currently present in a channel
+async function who(channel) {
+  const res = await socket.emitWithAck("channel.members", { channel });
+  console.log("who:", res);
+}
+
+// Socket.IO: report this socket as online or away
+async function setPresence(status) {
+  const res = await socket.emitWithAck("presence.set", { status });
+  console.log("presence:", res);
+}
+
+// Socket.IO: re-authenticate the live socket with a new token
+async function refresh(token) {
+  const res = await socket.emitWithAck("auth.refresh", { token });
+  console.log("refresh:", res);
+
+  // Use the new token for REST calls and reconnects
+  if (res?.ok) {
+    TOKEN = token;
+    socket.auth = { token };
+  }
+}
+
+// Socket.IO: signal typing (expires on the server after a few seconds)
+async function typing(channel) {
+  const res = await socket.emitWithAck("typing.start", { channel });
+  console.log("typing:", res);
+}
+
+// Socket.IO: send a direct message to another user
+async function sendDirect(to, text) {
+  const res = await socket.emitWithAck("dm.send", { to, content: text });
+  console.log("dm:", res);
+}
+
 // IMPORTANT: via Gateway your HTTP endpoints are under /realtime/...
-// HTTP: fetch message history for a channel
-async function history(channel) {
+// HTTP: fetch message history for a channel, optionally at an anchor
+async function history(channel, anchor, messageId) {
+  const query = new URLSearchParams({ channel });
+  if (anchor) query.set(anchor, messageId);
   const res = await fetch(
-    `${URL}/realtime/messages?channel=${encodeURIComponent(channel)}`,
+    `${URL}/realtime/messages?${query}`,
     {
       headers: {
         "x-api-key": API_KEY,
@@ -164,6 +376,123 @@ async function history(channel) {
   console.log("history:", data);
 }
 
+// HTTP: fetch direct message history with another user
+async function directHistory(userId) {
+  const res = await fetch(
+    `${URL}/realtime/direct-messages/${encodeURIComponent(userId)}`,
+    {
+      headers: {
+        "x-api-key": API_KEY,
+        Authorization: `Bearer ${TOKEN}`,
+      },
+    }
+  );
+  const data = await res.json();
+  console.log("dms:", data);
+}
+
+// HTTP: full-text search across all readable channels
+async function search(q) {
+  const query = new URLSearchParams({ q });
+  const res = await fetch(`${URL}/realtime/messages/search?${query}`, {
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+    },
+  });
+  const data = await res.json();
+  console.log("search:", data);
+}
+
+// HTTP: list notifications (optionally unread ones only)
+async function listNotifications(unreadOnly) {
+  const query = new URLSearchParams(unreadOnly ? { unread: "true" } : {});
+  const res = await fetch(`${URL}/realtime/me/notifications?${query}`, {
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+    },
+  });
+  const data = await res.json();
+  console.log("notifications:", data);
+}
+
+// HTTP: mark notifications as read (all unread ones without ids)
+async function markNotificationsRead(ids) {
+  const res = await fetch(`${URL}/realtime/me/notifications/read`, {
+    method: "POST",
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(ids.length ? { ids } : {}),
+  });
+  const data = await res.json();
+  console.log("seen:", data);
+}
+
+// HTTP: mute or unmute the notifications of a channel
+async function muteNotifications(channel, muted) {
+  const res = await fetch(`${URL}/realtime/channels/${channel}/notifications`, {
+    method: "PUT",
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ muted }),
+  });
+  const data = await res.json();
+  console.log("notifications:", data);
+}
+
+// HTTP: upload a file and attach it to the next sent message
+async function upload(path) {
+  const { FormData, fileFrom } = await import("node-fetch");
+  const form = new FormData();
+  form.set("file", await fileFrom(path));
+
+  const res = await fetch(`${URL}/realtime/attachments`, {
+    method: "POST",
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+    },
+    body: form,
+  });
+  const data = await res.json();
+  if (res.ok) pendingAttachments.push(data.id);
+  console.log("upload:", data);
+}
+
+// HTTP: fetch signed download links of an attachment
+async function attachmentLink(id) {
+  const res = await fetch(
+    `${URL}/realtime/attachments/${encodeURIComponent(id)}`,
+    {
+      headers: {
+        "x-api-key": API_KEY,
+        Authorization: `Bearer ${TOKEN}`,
+      },
+    },
+  );
+  const data = await res.json();
+  console.log("link:", data);
+}
+
+// HTTP: fetch unread counts across all accessible channels
+async function unread() {
+  const res = await fetch(`${URL}/realtime/me/unread`, {
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+    },
+  });
+  const data = await res.json();
+  console.log("unread:", data);
+}
+
 // HTTP (admin): delete all messages of a channel
 async function flushChannel(channel) {
   const res = await fetch(
@@ -180,7 +509,152 @@ async function flushChannel(channel) {
   console.log("flush:", data);
 }
 
-// HTTP (admin): delete a single message by id
+// HTTP: revoke all sessions of a user (admin only)
+async function revokeSessions(userId) {
+  const res = await fetch(
+    `${URL}/realtime/admin/users/${encodeURIComponent(userId)}/sessions`,
+    {
+      method: "DELETE",
+      headers: {
+        "x-api-key": API_KEY,
+        Authorization: `Bearer ${TOKEN}`,
+      },
+    }
+  );
+  const data = await res.json();
+  console.log("revoke:", data);
+}
+
+// HTTP (moderators): mute/ban users or set the slow mode of a channel
+async function moderate(method, action, channel, body, userId) {
+  const query = new URLSearchParams({ channel });
+  if (userId) query.set("userId", userId);
+
+  const res = await fetch(`${URL}/realtime/messages/${action}?${query}`, {
+    method,
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json();
+  console.log(`${action}:`, data);
+}
+
+// Socket.IO: report a message to the moderators
+async function report(messageId, reason) {
+  const res = await socket.emitWithAck("message.report", {
+    id: messageId,
+    reason,
+  });
+  console.log("report:", res);
+}
+
+// HTTP (moderators): list open reports, optionally of one channel
+async function listReports(channel) {
+  const query = new URLSearchParams(channel ? { channel } : {});
+  const res = await fetch(`${URL}/realtime/admin/reports?${query}`, {
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+    },
+  });
+  const data = await res.json();
+  console.log("reports:", data);
+}
+
+// HTTP (admins): list the latest audit log entries, optionally of one action
+async function listAudit(action) {
+  const query = new URLSearchParams(action ? { action } : {});
+  const res = await fetch(`${URL}/realtime/admin/audit?${query}`, {
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+    },
+  });
+  const data = await res.json();
+  console.log("audit:", data);
+}
+
+// HTTP (admins): list registered webhooks
+async function listWebhooks() {
+  const res = await fetch(`${URL}/realtime/admin/webhooks`, {
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+    },
+  });
+  const data = await res.json();
+  console.log("webhooks:", data);
+}
+
+// HTTP (admins): register a webhook (the secret is only shown here)
+async function createWebhook(url, events) {
+  const res = await fetch(`${URL}/realtime/admin/webhooks`, {
+    method: "POST",
+    headers: {
+      "x-api-key": API_KEY,
+      Authorization: `Bearer ${TOKEN}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ url, events }),
+  });
+  const data = await res.json();
+  console.log("webhook:", data);
+}
+
+// HTTP (admins): list the latest deliveries of a webhook
+async function listDeliveries(id) {
+  const res = await fetch(
+    `${URL}/realtime/admin/webhooks/${encodeURIComponent(id)}/deliveries`,
+    {
+      headers: {
+        "x-api-key": API_KEY,
+        Authorization: `Bearer ${TOKEN}`,
+      },
+    }
+  );
+  const data = await res.json();
+  console.log("deliveries:", data);
+}
+
+// HTTP (admins): send a failed webhook delivery again
+async function replayDelivery(id) {
+  const res = await fetch(
+    `${URL}/realtime/admin/webhooks/deliveries/${encodeURIComponent(id)}/replay`,
+    {
+      method: "POST",
+      headers: {
+        "x-api-key": API_KEY,
+        Authorization: `Bearer ${TOKEN}`,
+      },
+    }
+  );
+  const data = await res.json();
+  console.log("replay:", data);
+}
+
+// HTTP (moderators): close a report with an action
+async function resolveReport(id, action, note) {
+  const res = await fetch(
+    `${URL}/realtime/admin/reports/${encodeURIComponent(id)}/resolve`,
+    {
+      method: "POST",
+      headers: {
+        "x-api-key": API_KEY,
+        Authorization: `Bearer ${TOKEN}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ action, note }),
+    }
+  );
+  const data = await res.json();
+  console.log("resolve:", data);
+}
+
+// HTTP: delete a single message by id (own messages, or any as admin)
 async function deleteMessage(id) {
   const res = await fetch(
     `${URL}/realtime/messages/${encodeURIComponent(id)}`,
@@ -214,35 +688,230 @@ rl.on("line", async (line) => {
     } else if (cmd === "join") {
       // Join a websocket channel
       if (!arg1 || !isValidChannel(arg1)) {
-        console.log("Usage: join <general|support>");
+        console.log("Usage: join <channel> [since]");
       } else {
-        await join(arg1);
+        await join(arg1, rest[0]);
       }
     } else if (cmd === "send") {
       // Send a message to a channel
-      if (!arg1 || !isValidChannel(arg1) || !text) {
-        console.log("Usage: send <general|support> <text...>");
+      if (!arg1 || !isValidChannel(arg1) || (!text && !pendingAttachments.length)) {
+        console.log("Usage: send <channel> <text...>");
       } else {
         await send(arg1, text);
       }
+    } else if (cmd === "reply") {
+      // Reply to a message in a thread
+      const [parentId, ...words] = rest;
+      if (!arg1 || !isValidChannel(arg1) || !parentId || !words.length) {
+        console.log("Usage: reply <channel> <parentId> <text...>");
+      } else {
+        await reply(arg1, parentId, words.join(" "));
+      }
+    } else if (cmd === "react" || cmd === "unreact") {
+      // Add or remove an emoji reaction
+      if (!arg1 || !rest[0]) {
+        console.log(`Usage: ${cmd} <messageId> <emoji>`);
+      } else {
+        const event = cmd === "react" ? "reaction.add" : "reaction.remove";
+        await react(event, arg1, rest[0]);
+      }
+    } else if (cmd === "read") {
+      // Move the read pointer of a channel
+      if (!arg1 || !isValidChannel(arg1)) {
+        console.log("Usage: read <channel> [messageId]");
+      } else {
+        await read(arg1, rest[0]);
+      }
+    } else if (cmd === "who") {
+      // List users present in a channel
+      if (!arg1 || !isValidChannel(arg1)) {
+        console.log("Usage: who <channel>");
+      } else {
+        await who(arg1);
+      }
+    } else if (cmd === "away" || cmd === "back") {
+      // Change the presence status of this socket
+      await setPresence(cmd === "away" ? "away" : "online");
+    } else if (cmd === "typing") {
+      // Signal typing in a channel
+      if (!arg1 || !isValidChannel(arg1)) {
+        console.log("Usage: typing <channel>");
+      } else {
+        await typing(arg1);
+      }
+    } else if (cmd === "unread") {
+      // Fetch unread counts via REST
+      await unread();
+    } else if (cmd === "notifications") {
+      // List notifications via REST
+      await listNotifications(arg1 === "unread");
+    } else if (cmd === "seen") {
+      // Mark notifications as read via REST
+      await markNotificationsRead([arg1, ...rest].filter(Boolean));
+    } else if (cmd === "quiet" || cmd === "loud") {
+      // Mute or unmute notifications of a channel
+      if (!arg1 || !isValidChannel(arg1)) {
+        console.log(`Usage: ${cmd} <channel>`);
+      } else {
+        await muteNotifications(arg1, cmd === "quiet");
+      }
+    } else if (cmd === "search") {
+      // Search messages via REST
+      if (!arg1) {
+        console.log("Usage: search <query...>");
+      } else {
+        await search([arg1, ...rest].join(" "));
+      }
+    } else if (cmd === "upload") {
+      // Upload a file for the next message
+      if (!arg1) {
+        console.log("Usage: upload <path>");
+      } else {
+        await upload([arg1, ...rest].join(" "));
+      }
+    } else if (cmd === "link") {
+      // Fetch download links of an attachment
+      if (!arg1) {
+        console.log("Usage: link <attachmentId>");
+      } else {
+        await attachmentLink(arg1);
+      }
     } else if (cmd === "history") {
       // Fetch message history via REST
-      if (!arg1 || !isValidChannel(arg1)) {
-        console.log("Usage: history <general|support>");
+      const [anchor, messageId] = rest;
+      if (
+        !arg1 ||
+        !isValidChannel(arg1) ||
+        (anchor && (!["before", "after", "around"].includes(anchor) || !messageId))
+      ) {
+        console.log("Usage: history <channel> [before|after|around <messageId>]");
+      } else {
+        await history(arg1, anchor, messageId);
+      }
+    } else if (cmd === "dm") {
+      // Send a direct message to a user
+      if (!arg1 || !text) {
+        console.log("Usage: dm <userId> <text...>");
+      } else {
+        await sendDirect(arg1, text);
+      }
+    } else if (cmd === "dms") {
+      // Fetch direct message history via REST
+      if (!arg1) {
+        console.log("Usage: dms <userId>");
       } else {
-        await history(arg1);
+        await directHistory(arg1);
       }
     } else if (cmd === "flush") {
       // Admin-only: flush channel via REST
       if (!requireAdmin()) return rl.prompt();
       if (!arg1 || !isValidChannel(arg1)) {
-        console.log("Usage: flush <general|support>");
+        console.log("Usage: flush <channel>");
       } else {
         await flushChannel(arg1);
       }
-    } else if (cmd === "del" || cmd === "delete") {
-      // Admin-only: delete message via REST
+    } else if (cmd === "revoke") {
+      // Admin-only: revoke all sessions of a user via REST
+      if (!requireAdmin()) return rl.prompt();
+      if (!arg1) {
+        console.log("Usage: revoke <userId>");
+      } else {
+        await revokeSessions(arg1);
+      }
+    } else if (cmd === "mute" || cmd === "ban") {
+      // Moderators: mute (duration required) or ban (optional duration)
+      if (!requireModerator()) return rl.prompt();
+      const [userId, seconds, ...reason] = rest;
+      if (!arg1 || !isValidChannel(arg1) || !userId || (cmd === "mute" && !seconds)) {
+        console.log(`Usage: ${cmd} <channel> <userId> ${cmd === "mute" ? "<seconds>" : "[seconds]"}`);
+      } else {
+        await moderate("POST", cmd, arg1, {
+          userId,
+          durationSeconds: seconds ? Number(seconds) : undefined,
+          reason: reason.join(" ") || undefined,
+        });
+      }
+    } else if (cmd === "unmute" || cmd === "unban") {
+      // Moderators: lift a mute or ban
+      if (!requireModerator()) return rl.prompt();
+      if (!arg1 || !isValidChannel(arg1) || !rest[0]) {
+        console.log(`Usage: ${cmd} <channel> <userId>`);
+      } else {
+        await moderate("DELETE", cmd.slice(2), arg1, undefined, rest[0]);
+      }
+    } else if (cmd === "slowmode") {
+      // Moderators: set the minimum interval between posts (0 disables)
+      if (!requireModerator()) return rl.prompt();
+      if (!arg1 || !isValidChannel(arg1) || !rest[0]) {
+        console.log("Usage: slowmode <channel> <seconds>");
+      } else {
+        await moderate("PUT", "slow-mode", arg1, { seconds: Number(rest[0]) });
+      }
+    } else if (cmd === "report") {
+      // Report a message to the moderators
+      if (!arg1 || !text) {
+        console.log("Usage: report <messageId> <reason...>");
+      } else {
+        await report(arg1, text);
+      }
+    } else if (cmd === "reports") {
+      // Moderators: list open reports
+      if (!requireModerator()) return rl.prompt();
+      if (arg1 && !isValidChannel(arg1)) {
+        console.log("Usage: reports [channel]");
+      } else {
+        await listReports(arg1);
+      }
+    } else if (cmd === "resolve") {
+      // Moderators: dismiss a report, delete the message or mute its author
+      if (!requireModerator()) return rl.prompt();
+      const [action, ...note] = rest;
+      if (!arg1 || !["dismiss", "delete_message", "mute_author"].includes(action)) {
+        console.log("Usage: resolve <reportId> <dismiss|delete_message|mute_author> [note...]");
+      } else {
+        await resolveReport(arg1, action, note.join(" ") || undefined);
+      }
+    } else if (cmd === "audit") {
+      // Admins: list the latest administrative actions
       if (!requireAdmin()) return rl.prompt();
+      await listAudit(arg1);
+    } else if (cmd === "webhooks") {
+      // Admins: list registered webhooks
+      if (!requireAdmin()) return rl.prompt();
+      await listWebhooks();
+    } else if (cmd === "webhook") {
+      // Admins: register a webhook for a comma-separated list of events
+      if (!requireAdmin()) return rl.prompt();
+      if (!arg1 || !rest[0]) {
+        console.log("Usage: webhook <url> <event,event...>");
+      } else {
+        await createWebhook(arg1, rest[0].split(",").filter(Boolean));
+      }
+    } else if (cmd === "deliveries") {
+      // Admins: inspect the delivery log of a webhook
+      if (!requireAdmin()) return rl.prompt();
+      if (!arg1) {
+        console.log("Usage: deliveries <webhookId>");
+      } else {
+        await listDeliveries(arg1);
+      }
+    } else if (cmd === "replay") {
+      // Admins: send a failed webhook delivery again
+      if (!requireAdmin()) return rl.prompt();
+      if (!arg1) {
+        console.log("Usage: replay <deliveryId>");
+      } else {
+        await replayDelivery(arg1);
+      }
+    } else if (cmd === "refresh") {
+      // Re-authenticate with a new token
+      if (!arg1) {
+        console.log("Usage: refresh <token>");
+      } else {
+        await refresh(arg1);
+      }
+    } else if (cmd === "del" || cmd === "delete") {
+      // Delete message via REST (authors and admins)
       if (!arg1) {
         console.log("Usage: del <messageId>");
       } else {